@@ -0,0 +1,196 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import {
+	buildAlterTableStatement,
+	buildDropStatement,
+	validateAlterTableDef,
+	validateDropDef,
+} from "#alter"
+import type { NodeSqliteError } from "#errors"
+
+interface User {
+	id: number
+	name: string
+	age: number
+	nickname: string | null
+}
+
+describe("buildAlterTableStatement", () => {
+	test("builds each ALTER TABLE action", () => {
+		assert.equal(
+			buildAlterTableStatement<User>({
+				tableName: "users",
+				addColumn: { name: "age", definition: "INTEGER NOT NULL DEFAULT 0" },
+			}),
+			"ALTER TABLE users ADD COLUMN age INTEGER NOT NULL DEFAULT 0"
+		)
+		assert.equal(
+			buildAlterTableStatement<User>({
+				tableName: "users",
+				renameColumn: { from: "nick", to: "nickname" },
+			}),
+			"ALTER TABLE users RENAME COLUMN nick TO nickname"
+		)
+		assert.equal(
+			buildAlterTableStatement<User>({ tableName: "users", dropColumn: "age" }),
+			"ALTER TABLE users DROP COLUMN age"
+		)
+		assert.equal(
+			buildAlterTableStatement<User>({
+				tableName: "users",
+				renameTo: "people",
+			}),
+			"ALTER TABLE users RENAME TO people"
+		)
+	})
+
+	test("throws ERR_SQLITE_SCHEMA for invalid definitions", () => {
+		assert.throws(
+			() =>
+				buildAlterTableStatement<User>({
+					tableName: "users",
+					addColumn: { name: "age", definition: "INTEGER PRIMARY KEY" },
+				}),
+			(err: NodeSqliteError) => {
+				assert.equal(err.code, "ERR_SQLITE_SCHEMA")
+				assert.match(err.message, /cannot be a PRIMARY KEY/)
+				return true
+			}
+		)
+	})
+})
+
+describe("validateAlterTableDef", () => {
+	test("reports schema errors against the added column", () => {
+		const errors = validateAlterTableDef({
+			tableName: "users",
+			addColumn: { name: "age", definition: "NUMBER" },
+		})
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].path, "addColumn.definition")
+		assert.match(errors[0].message, /'age'/)
+	})
+
+	test("enforces ADD COLUMN restrictions", () => {
+		const restricted = [
+			"TEXT UNIQUE",
+			"TEXT NOT NULL",
+			"INTEGER REFERENCES teams (id) DEFAULT 1",
+			"TEXT DEFAULT CURRENT_TIMESTAMP",
+			"INTEGER DEFAULT (1 + 1)",
+			"INTEGER GENERATED ALWAYS AS (id * 2) STORED",
+		]
+		for (const definition of restricted) {
+			const errors = validateAlterTableDef({
+				tableName: "users",
+				addColumn: { name: "extra", definition },
+			})
+			assert.equal(errors.length, 1, definition)
+			assert.equal(errors[0].path, "addColumn.definition")
+		}
+
+		assert.deepEqual(
+			validateAlterTableDef({
+				tableName: "users",
+				addColumn: {
+					name: "team_id",
+					definition: "INTEGER REFERENCES teams (id) DEFAULT NULL",
+				},
+			}),
+			[]
+		)
+	})
+
+	test("requires exactly one action and valid identifiers", () => {
+		assert.equal(validateAlterTableDef({ tableName: "users" }).length, 1)
+		assert.equal(
+			validateAlterTableDef({
+				tableName: "users",
+				dropColumn: "age",
+				renameTo: "people",
+			}).length,
+			1
+		)
+
+		const errors = validateAlterTableDef({
+			tableName: "users; DROP TABLE x",
+			renameColumn: { from: "a", to: "1b" },
+		})
+		assert.deepEqual(
+			errors.map(e => e.path),
+			["tableName", "renameColumn.to"]
+		)
+	})
+})
+
+describe("buildDropStatement", () => {
+	test("builds DROP statements", () => {
+		assert.equal(
+			buildDropStatement({ type: "TABLE", name: "users" }),
+			"DROP TABLE users"
+		)
+		assert.equal(
+			buildDropStatement({ type: "INDEX", name: "idx_users", ifExists: true }),
+			"DROP INDEX IF EXISTS idx_users"
+		)
+	})
+
+	test("validates drop definitions", () => {
+		const errors = validateDropDef({ type: "DATABASE", name: "main" })
+		assert.deepEqual(
+			errors.map(e => e.path),
+			["type"]
+		)
+		assert.throws(() => buildDropStatement({ type: "VIEW", name: "a b" }), {
+			code: "ERR_SQLITE_SCHEMA",
+		})
+	})
+})
+
+describe("DB alterTable and drop", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, nick TEXT);
+      CREATE INDEX idx_users_name ON users (name);
+      INSERT INTO users (name, nick) VALUES ('Ann', 'A');
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("alters the table in place", () => {
+		db.alterTable<User>({
+			tableName: "users",
+			addColumn: { name: "age", definition: "INTEGER NOT NULL DEFAULT 0" },
+		})
+		db.alterTable<User>({
+			tableName: "users",
+			renameColumn: { from: "nick", to: "nickname" },
+		})
+
+		const row = db.sql`SELECT * FROM users`.get<User>()
+		assert.deepEqual({ ...row }, { id: 1, name: "Ann", nickname: "A", age: 0 })
+
+		db.alterTable<User>({ tableName: "users", dropColumn: "age" })
+		const columns = db.introspect().tables[0].columns.map(c => c.name)
+		assert.deepEqual(columns, ["id", "name", "nickname"])
+	})
+
+	test("drops schema objects", () => {
+		db.drop({ type: "INDEX", name: "idx_users_name" })
+		db.drop({ type: "INDEX", name: "idx_users_name", ifExists: true })
+		assert.throws(() => db.drop({ type: "TRIGGER", name: "missing" }))
+		db.drop({ type: "TABLE", name: "users" })
+		assert.deepEqual(db.introspect().tables, [])
+	})
+})
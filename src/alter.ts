@@ -0,0 +1,235 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { parseColumnDef, validateSchema } from "#schema"
+import type { DataRow, ValidColumnTypeMap } from "#types"
+import { validationErr, type ValidationError } from "#validate"
+
+type ColumnToAdd<T extends DataRow> = {
+	[K in keyof T & string]: { name: K; definition: ValidColumnTypeMap<T[K]> }
+}[keyof T & string]
+
+/**
+ * A single ALTER TABLE operation
+ * @example
+ * const def: AlterTableDef<User> = {
+ *   tableName: "users",
+ *   addColumn: { name: "age", definition: "INTEGER DEFAULT 0" },
+ * }
+ */
+export type AlterTableDef<T extends DataRow> = { tableName: string } & (
+	| { addColumn: ColumnToAdd<T> }
+	| { renameColumn: { from: string; to: keyof T & string } }
+	| { dropColumn: string }
+	| { renameTo: string }
+)
+
+export type DropDef = {
+	type: "TABLE" | "INDEX" | "VIEW" | "TRIGGER"
+	name: string
+	ifExists?: boolean
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const alterActions = ["addColumn", "renameColumn", "dropColumn", "renameTo"]
+
+const dropTypes = ["TABLE", "INDEX", "VIEW", "TRIGGER"]
+
+/**
+ * Returns why a column definition cannot be used with ALTER TABLE ADD COLUMN,
+ * or undefined if it can.
+ * @see https://www.sqlite.org/lang_altertable.html#alter_table_add_column
+ */
+export function addColumnRestriction(definition: string): string | undefined {
+	const def = parseColumnDef(definition)
+	const defaultValue = def.defaultValue?.toUpperCase()
+	const nullDefault = defaultValue === undefined || defaultValue === "NULL"
+
+	if (def.primaryKey) {
+		return "Added columns cannot be a PRIMARY KEY"
+	}
+	if (def.generated?.storage === "STORED") {
+		return "Added generated columns must be VIRTUAL"
+	}
+	if (def.unique) {
+		return "Added columns cannot be UNIQUE"
+	}
+	if (def.notNull && nullDefault) {
+		return "Added NOT NULL columns need a non-NULL default"
+	}
+	if (def.references && !nullDefault) {
+		return "Added columns with a foreign key must default to NULL"
+	}
+	if (
+		defaultValue?.startsWith("(") ||
+		/^CURRENT_(TIME|DATE|TIMESTAMP)$/.test(defaultValue ?? "")
+	) {
+		return "Added columns cannot default to an expression or the current time"
+	}
+	return undefined
+}
+
+function validateIdentifier(value: unknown, path: string): ValidationError[] {
+	return typeof value === "string" && identifierRegex.test(value)
+		? []
+		: [validationErr({ msg: `Invalid identifier: ${String(value)}`, path })]
+}
+
+export function validateAlterTableDef(value: unknown): ValidationError[] {
+	if (!value || typeof value !== "object") {
+		return [validationErr({ msg: "Alter table definition must be an object" })]
+	}
+
+	const def = value as Record<string, unknown>
+	const errors = validateIdentifier(def.tableName, "tableName")
+
+	const actions = alterActions.filter(action => action in def)
+	if (actions.length !== 1) {
+		errors.push(
+			validationErr({
+				msg: `Alter table definition must have exactly one of ${alterActions.join(", ")}`,
+			})
+		)
+		return errors
+	}
+
+	const [action] = actions
+	const operand = def[action] as Record<string, unknown>
+	switch (action) {
+		case "addColumn": {
+			if (!operand || typeof operand !== "object") {
+				errors.push(
+					validationErr({ msg: "addColumn must be an object", path: action })
+				)
+				break
+			}
+			errors.push(...validateIdentifier(operand.name, "addColumn.name"))
+			const schemaErrors = validateSchema({ column: operand.definition })
+			errors.push(
+				...schemaErrors.map(err => ({
+					...err,
+					message: err.message.replace("'column'", `'${operand.name}'`),
+					path: "addColumn.definition",
+				}))
+			)
+			if (schemaErrors.length === 0) {
+				try {
+					const restriction = addColumnRestriction(operand.definition as string)
+					if (restriction) {
+						errors.push(
+							validationErr({ msg: restriction, path: "addColumn.definition" })
+						)
+					}
+				} catch (error) {
+					errors.push(
+						validationErr({
+							msg: (error as Error).message,
+							path: "addColumn.definition",
+						})
+					)
+				}
+			}
+			break
+		}
+		case "renameColumn":
+			if (!operand || typeof operand !== "object") {
+				errors.push(
+					validationErr({ msg: "renameColumn must be an object", path: action })
+				)
+				break
+			}
+			errors.push(
+				...validateIdentifier(operand.from, "renameColumn.from"),
+				...validateIdentifier(operand.to, "renameColumn.to")
+			)
+			break
+		default:
+			errors.push(...validateIdentifier(operand, action))
+	}
+
+	return errors
+}
+
+/**
+ * Builds an ALTER TABLE statement
+ * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if the definition is
+ * invalid
+ */
+export function buildAlterTableStatement<T extends DataRow>(
+	def: AlterTableDef<T>
+): string {
+	const errors = validateAlterTableDef(def)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_SCHEMA",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid alter table definition",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const table = `ALTER TABLE ${def.tableName}`
+	if ("addColumn" in def) {
+		const { name, definition } = def.addColumn
+		return `${table} ADD COLUMN ${name} ${String(definition).trim()}`
+	}
+	if ("renameColumn" in def) {
+		const { from, to } = def.renameColumn
+		return `${table} RENAME COLUMN ${from} TO ${to}`
+	}
+	if ("dropColumn" in def) {
+		return `${table} DROP COLUMN ${def.dropColumn}`
+	}
+	return `${table} RENAME TO ${def.renameTo}`
+}
+
+export function validateDropDef(value: unknown): ValidationError[] {
+	if (!value || typeof value !== "object") {
+		return [validationErr({ msg: "Drop definition must be an object" })]
+	}
+
+	const def = value as Record<string, unknown>
+	const errors: ValidationError[] = []
+
+	if (!dropTypes.includes(def.type as string)) {
+		errors.push(
+			validationErr({
+				msg: `Drop type must be one of ${dropTypes.join(", ")}`,
+				path: "type",
+			})
+		)
+	}
+	errors.push(...validateIdentifier(def.name, "name"))
+	if (def.ifExists !== undefined && typeof def.ifExists !== "boolean") {
+		errors.push(
+			validationErr({ msg: "ifExists must be a boolean", path: "ifExists" })
+		)
+	}
+
+	return errors
+}
+
+/**
+ * Builds a DROP TABLE, INDEX, VIEW or TRIGGER statement
+ * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if the definition is
+ * invalid
+ */
+export function buildDropStatement(def: DropDef): string {
+	const errors = validateDropDef(def)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_SCHEMA",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid drop definition",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const ifExists = def.ifExists ? "IF EXISTS " : ""
+	return `DROP ${def.type} ${ifExists}${def.name}`
+}
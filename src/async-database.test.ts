@@ -0,0 +1,308 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { existsSync, mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { AsyncDB } from "#async-database"
+import { DB } from "#database"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+
+type Account = {
+	id: number
+	owner: string
+	balance: number
+	meta: { tags: string[] }
+}
+
+describe("AsyncDB", () => {
+	let db: AsyncDB
+
+	beforeEach(async () => {
+		db = new AsyncDB({ location: ":memory:", environment: "testing" })
+		await db.exec(`
+      CREATE TABLE accounts (
+        id INTEGER PRIMARY KEY,
+        owner TEXT NOT NULL UNIQUE,
+        balance INTEGER NOT NULL CHECK (balance >= 0),
+        meta TEXT
+      );
+    `)
+	})
+
+	afterEach(async () => {
+		await db.close()
+	})
+
+	const insertAccount = (owner: string, balance: number) =>
+		db.sql<Omit<Account, "id">>`
+      INSERT INTO accounts ${{ values: ["$owner", "$balance", "$meta->json"] }}
+    `.run({ owner, balance, meta: { tags: [owner] } })
+
+	const countAccounts = async () =>
+		(await db.sql`SELECT count(*) AS n FROM accounts`.get<{ n: number }>())?.n
+
+	test("runs statements and parses JSON results", async () => {
+		const result = await insertAccount("alice", 100)
+		assert.equal(result.changes, 1)
+		assert.equal(result.lastInsertRowid, 1)
+
+		const rows = await db.sql<{ owner: string }>`
+      SELECT owner, json_extract(meta, '$') AS meta FROM accounts
+      WHERE owner = ${"$owner"}
+    `.all<Pick<Account, "owner" | "meta">>({ owner: "alice" })
+		assert.deepEqual(
+			rows.map(row => ({ ...row })),
+			[{ owner: "alice", meta: { tags: ["alice"] } }]
+		)
+		assert.equal(
+			await db.sql`SELECT * FROM accounts WHERE id = 2`.get(),
+			undefined
+		)
+	})
+
+	test("matches the SQL built by DB", async () => {
+		const sync = new DB({ location: ":memory:" })
+		try {
+			const context = { where: "balance > $balance" as const }
+			assert.equal(
+				db.sql<Account>`SELECT * FROM accounts ${context}`.sourceSQL({
+					balance: 1,
+				} as Account),
+				sync.sql<Account>`SELECT * FROM accounts ${context}`.sql.prepare({
+					balance: 1,
+				} as Account).sql
+			)
+		} finally {
+			sync.close()
+		}
+	})
+
+	test("rejects with the error codes used by DB", async () => {
+		await insertAccount("alice", 100)
+		await assert.rejects(insertAccount("alice", 1), {
+			code: "ERR_SQLITE_MUTATE",
+		})
+		await assert.rejects(db.sql`SELECT * FROM missing`.all(), {
+			code: "ERR_SQLITE_QUERY",
+		})
+		await assert.rejects(db.exec("NOT SQL"), (error: unknown) => {
+			assert.ok(error instanceof NodeSqliteError)
+			assert.equal(error.code, "ERR_SQLITE_EXEC")
+			const cause = error.originalError as Error & {
+				code?: string
+			}
+			assert.equal(cause.code, "ERR_SQLITE_ERROR")
+			return true
+		})
+	})
+
+	test("commits and rolls back transactions", async () => {
+		const result = await db.transaction(async () => {
+			assert.equal(db.inTransaction, true)
+			await insertAccount("alice", 100)
+			return "done"
+		})
+		assert.equal(result, "done")
+		assert.equal(db.inTransaction, false)
+
+		await assert.rejects(
+			db.transaction(async () => {
+				await insertAccount("bob", 50)
+				await insertAccount("carol", -1)
+			}),
+			{ code: "ERR_SQLITE_TRANSACTION" }
+		)
+		assert.equal(await countAccounts(), 1)
+	})
+
+	test("turns nested transactions into savepoints", async () => {
+		await db.transaction(async () => {
+			await insertAccount("alice", 100)
+			await assert.rejects(
+				db.transaction(async () => {
+					await insertAccount("bob", 50)
+					throw new Error("inner")
+				}),
+				{ code: "ERR_SQLITE_TRANSACTION" }
+			)
+		})
+		assert.equal(await countAccounts(), 1)
+	})
+
+	test("queues queries made outside a transaction until it finishes", async () => {
+		let resume = () => {}
+		const paused = new Promise<void>(resolve => {
+			resume = resolve
+		})
+
+		const transaction = db.transaction(async () => {
+			await insertAccount("alice", 100)
+			await paused
+			throw new Error("rollback")
+		})
+		const count = countAccounts()
+		resume()
+
+		await assert.rejects(transaction, { code: "ERR_SQLITE_TRANSACTION" })
+		assert.equal(await count, 0)
+	})
+
+	test("backs up the database", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "sqlitex-async-"))
+		try {
+			await insertAccount("alice", 100)
+			const file = join(dir, "backup.db")
+			await db.backup(file)
+			assert.ok(existsSync(file))
+
+			const copy = new DB({ location: file })
+			assert.equal(
+				copy.sql`SELECT count(*) AS n FROM accounts`.get<{ n: number }>()?.n,
+				1
+			)
+			copy.close()
+
+			await assert.rejects(db.backup(join(dir, "missing", "backup.db")), {
+				code: "ERR_SQLITE_BACKUP",
+			})
+		} finally {
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	// Never runs out of rows
+	const counter = () => db.sql<{ x: number }>`
+      WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c)
+      SELECT x FROM c
+    `
+
+	test("interrupts statements that time out", async () => {
+		await assert.rejects(counter().all(undefined, { timeout: 50 }), {
+			code: "ERR_SQLITE_INTERRUPT",
+		})
+		assert.equal(await countAccounts(), 0)
+	})
+
+	test("interrupts running statements", async () => {
+		const running = counter().all()
+		setTimeout(() => db.interrupt(), 50)
+		await assert.rejects(running, { code: "ERR_SQLITE_INTERRUPT" })
+		assert.equal(await countAccounts(), 0)
+	})
+
+	test("aborts statements through an AbortSignal", async () => {
+		await assert.rejects(
+			counter().all(undefined, { signal: AbortSignal.abort() }),
+			{ code: "ERR_SQLITE_INTERRUPT" }
+		)
+		await assert.rejects(
+			counter().all(undefined, { signal: AbortSignal.timeout(50) }),
+			{ code: "ERR_SQLITE_INTERRUPT" }
+		)
+		// Only answered once the worker has stopped the aborted statement
+		assert.equal(await countAccounts(), 0)
+	})
+
+	// A single step that takes about a second
+	const slowInsert = () => db.sql`
+      WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c WHERE x < 1000000)
+      INSERT INTO accounts (owner, balance) SELECT 'owner' || x, x FROM c
+    `
+	const slowCount = () => db.sql`
+      WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c WHERE x < 3000000)
+      SELECT count(*) AS n FROM c
+    `
+
+	test("times out in the middle of a step", async () => {
+		const started = Date.now()
+		await assert.rejects(slowCount().get(undefined, { timeout: 50 }), {
+			code: "ERR_SQLITE_INTERRUPT",
+			errcode: SqlitePrimaryResultCode.SQLITE_INTERRUPT,
+			message: /timed out after 50ms/,
+		})
+		assert.ok(Date.now() - started < 500)
+
+		await assert.rejects(slowInsert().run(undefined, { timeout: 50 }), {
+			code: "ERR_SQLITE_INTERRUPT",
+		})
+		// The interrupted insert is rolled back, not committed
+		assert.equal(await countAccounts(), 0)
+		await insertAccount("alice", 100)
+		assert.equal(await countAccounts(), 1)
+	})
+
+	test("rolls back an interrupted write to a database file", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "sqlitex-async-"))
+		const file = new AsyncDB({ location: join(dir, "app.db") })
+		try {
+			await file.exec("CREATE TABLE t (x INTEGER)")
+			const insert = file.sql`
+        WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c WHERE x < 2000000)
+        INSERT INTO t SELECT x FROM c
+      `
+			await assert.rejects(insert.run(undefined, { timeout: 50 }), {
+				code: "ERR_SQLITE_INTERRUPT",
+			})
+			const row = await file.sql`SELECT count(*) AS n FROM t`.get<{
+				n: number
+			}>()
+			assert.equal(row?.n, 0)
+		} finally {
+			await file.close()
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+
+	test("aborts running and queued statements", async () => {
+		const first = new AbortController()
+		const second = new AbortController()
+		const running = slowInsert().run(undefined, { signal: first.signal })
+		const queued = insertAccount("alice", 100)
+		const aborted = db.sql`SELECT 1`.get(undefined, { signal: second.signal })
+		setTimeout(() => {
+			first.abort()
+			second.abort()
+		}, 50)
+
+		await assert.rejects(running, { code: "ERR_SQLITE_INTERRUPT" })
+		await assert.rejects(aborted, { code: "ERR_SQLITE_INTERRUPT" })
+		// Requests queued behind the aborted one still run, in order
+		assert.equal((await queued).changes, 1)
+		assert.equal(await countAccounts(), 1)
+	})
+
+	test("rolls back a transaction whose statement is interrupted", async () => {
+		await assert.rejects(
+			db.transaction(async () => {
+				await insertAccount("alice", 100)
+				await assert.rejects(slowInsert().run(undefined, { timeout: 50 }), {
+					code: "ERR_SQLITE_INTERRUPT",
+				})
+				await insertAccount("bob", 50)
+			}),
+			{ code: "ERR_SQLITE_TRANSACTION", message: /interrupted statement/ }
+		)
+		assert.equal(await countAccounts(), 0)
+		assert.equal(db.inTransaction, false)
+	})
+
+	test("rejects after close", async () => {
+		const closed = new AsyncDB()
+		await closed.close({ optimize: true })
+		await assert.rejects(closed.exec("SELECT 1"), { code: "ERR_SQLITE_EXEC" })
+	})
+
+	test("rejects with ERR_SQLITE_OPEN when the database cannot be opened", async () => {
+		const broken = new AsyncDB({
+			location: join(tmpdir(), "sqlitex-missing-dir", "db.sqlite"),
+		})
+		await assert.rejects(broken.sql`SELECT 1`.get(), {
+			code: "ERR_SQLITE_OPEN",
+		})
+		await broken.close()
+	})
+})
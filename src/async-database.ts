@@ -0,0 +1,774 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { randomUUID } from "node:crypto"
+import { extname } from "node:path"
+import { DatabaseSync, type StatementResultingChanges } from "node:sqlite"
+import { fileURLToPath } from "node:url"
+import { Worker } from "node:worker_threads"
+import type {
+	WorkerCommand,
+	WorkerConfig,
+	WorkerError,
+	WorkerRequest,
+	WorkerResponse,
+} from "#async-worker"
+import type { CacheStats } from "#cache"
+import {
+	NodeSqliteError,
+	SqlitePrimaryResultCode,
+	interruptError,
+	isInterruptError,
+} from "#errors"
+import { type Logger, NoopLogger } from "#logger"
+import {
+	type PragmaConfig,
+	PragmaDefaults,
+	getPragmaStatements,
+} from "#pragmas"
+import {
+	Sql,
+	type StatementOptions,
+	type ValuesParam,
+	createErrorMessage,
+	parseJsonColumns,
+} from "#sql"
+import type {
+	CleanupPragmas,
+	DBOptions,
+	DataRow,
+	FormatterConfig,
+	SqlTemplateValues,
+	TransactionOptions,
+} from "#types"
+
+/**
+ * Promise-returning counterpart of XStatementSync. SQL is built on the
+ * calling thread and run on the worker; JSON columns are parsed after the
+ * rows cross the thread boundary. A timeout counts from when the worker
+ * starts the statement, and stops it even in the middle of a step.
+ * @template P Type of parameters object
+ * @template RET Type of returned rows
+ */
+export interface AsyncStatement<P extends DataRow, RET = unknown> {
+	/** Execute query and resolve with all result rows */
+	all<R = RET>(
+		params?: ValuesParam<P>,
+		options?: StatementOptions
+	): Promise<R[]>
+
+	/** Execute query and resolve with the first result row or undefined */
+	get<R = RET>(
+		params?: ValuesParam<P>,
+		options?: StatementOptions
+	): Promise<R | undefined>
+
+	/** Execute query and resolve with statement result info */
+	run(
+		params?: ValuesParam<P>,
+		options?: StatementOptions
+	): Promise<StatementResultingChanges>
+
+	/** Get the SQL sent to the worker for the given parameters */
+	sourceSQL(params?: ValuesParam<P>): string
+
+	readonly sql: Sql<P, RET>
+}
+
+/**
+ * Options for AsyncDB. The logger stays on the calling thread.
+ */
+export interface AsyncDBOptions extends DBOptions {
+	/** Open the database read-only; writes reject with SQLITE_READONLY */
+	readOnly?: boolean
+}
+
+type QueuedRequest = {
+	request: WorkerRequest
+	resolve: (result: unknown) => void
+	reject: (error: WorkerError | NodeSqliteError) => void
+	timeout?: number
+	timer?: NodeJS.Timeout
+	signal?: AbortSignal
+	abort?: () => void
+}
+
+// Rebuilds the node:sqlite error thrown in the worker
+function toError({ message, ...fields }: WorkerError): Error {
+	return Object.assign(new Error(message), fields)
+}
+
+// Requests reject with a WorkerError, or an Error raised on this thread
+function causeOf(error: unknown): Error {
+	return error instanceof Error ? error : toError(error as WorkerError)
+}
+
+// Open failures and interrupts reach callers unwrapped
+function isUnwrapped(error: unknown): error is NodeSqliteError {
+	return (
+		(error instanceof NodeSqliteError && error.code === "ERR_SQLITE_OPEN") ||
+		isInterruptError(error)
+	)
+}
+
+/**
+ * Runs a DatabaseSync connection in a worker thread so queries do not block
+ * the event loop. Mirrors the DB methods for running SQL, returning promises
+ * that reject with the same NodeSqliteError codes.
+ * @example
+ * const db = new AsyncDB({ location: "app.db" })
+ * const users = await db.sql<{ active: number }>`
+ *   SELECT * FROM users WHERE active = ${"$active"}
+ * `.all({ active: 1 })
+ * await db.close()
+ */
+export class AsyncDB {
+	#worker!: Worker
+	readonly #workerUrl: URL
+	readonly #config: WorkerConfig
+	readonly #location: string
+	readonly #logger: Logger
+	readonly #formatConfig?: FormatterConfig | false
+	readonly #opened: Promise<void>
+	// Holds a shared in-memory database open while workers are replaced
+	readonly #keeper?: DatabaseSync
+	// Requests run on the worker one at a time, in order
+	readonly #queue: QueuedRequest[] = []
+	#running?: QueuedRequest
+	// Set while a new worker opens the database
+	#starting = true
+	// Depth of the transaction the current async context runs in
+	readonly #transactions = new AsyncLocalStorage<number>()
+	// Settles when the outermost transactions queued so far have finished
+	#transactionLock: Promise<void> = Promise.resolve()
+	#inTransaction = false
+	// Set when a worker is replaced during a transaction, which rolls it back
+	#transactionLost = false
+	#nextId = 1
+	#closed = false
+
+	/**
+	 * Starts the worker and opens the database in it.
+	 * @param options Database configuration options
+	 */
+	constructor(options: AsyncDBOptions = {}) {
+		const location = options.location ?? ":memory:"
+		const environment = options.environment ?? "development"
+		this.#location = location
+		this.#logger = options.logger ?? new NoopLogger()
+		this.#formatConfig = options.format
+
+		// A private in-memory database would be lost with the worker, so it is
+		// opened as a named shared-cache database that the next worker reopens
+		let workerLocation = location
+		if (location === ":memory:" || location === "") {
+			workerLocation = `file:sqlitex-${randomUUID()}?mode=memory&cache=shared`
+			this.#keeper = new DatabaseSync(workerLocation)
+		}
+
+		const pragmas: PragmaConfig = {
+			...PragmaDefaults[environment],
+			...options.pragma,
+		}
+		this.#config = {
+			location: workerLocation,
+			allowExtension: options.allowExtension ?? false,
+			readOnly: options.readOnly ?? false,
+			pragmas: getPragmaStatements(pragmas),
+			cacheSize: !options.statementCache
+				? 0
+				: typeof options.statementCache === "object"
+					? options.statementCache.maxSize
+					: 1000,
+		}
+		// The worker has the same extension as this module: .ts in source,
+		// .js or .cjs once built
+		const extension = extname(fileURLToPath(import.meta.url))
+		this.#workerUrl = new URL(`./async-worker${extension}`, import.meta.url)
+
+		this.#logger.debug("Starting database worker", { location })
+		this.#opened = this.#spawn().then(
+			() => {
+				this.#logger.info("Database opened successfully", { location })
+			},
+			error => {
+				this.#logger.error("Failed to initialize database", error)
+				throw new NodeSqliteError(
+					"ERR_SQLITE_OPEN",
+					SqlitePrimaryResultCode.SQLITE_CANTOPEN,
+					"Cannot open database",
+					`Failed to open database at ${location}`,
+					causeOf(error)
+				)
+			}
+		)
+		// Rejections surface on the first request
+		this.#opened.catch(() => {})
+	}
+
+	/**
+	 * Starts a worker and opens the database in it. Queued requests are sent
+	 * once it is open and, for an in-memory database, once the previous
+	 * worker has exited and released its locks.
+	 * @returns Settles when the database is open in the new worker
+	 */
+	#spawn(previous?: Promise<unknown>): Promise<void> {
+		const worker = new Worker(this.#workerUrl, { workerData: this.#config })
+		// Only keep the process alive while requests are waiting
+		if (this.#queue.length === 0) {
+			worker.unref()
+		}
+		this.#worker = worker
+		this.#starting = true
+
+		const opened = new Promise<void>((resolve, reject) => {
+			// Events from replaced workers are ignored
+			worker.on("message", (response: WorkerResponse) => {
+				if (worker !== this.#worker) {
+					return
+				}
+				if (response.id === 0) {
+					response.ok ? resolve() : reject(response.error)
+				} else {
+					this.#finish(response)
+				}
+			})
+			worker.on("error", error => {
+				if (worker !== this.#worker) {
+					return
+				}
+				this.#logger.error("Database worker failed", { error })
+				reject(error)
+				this.#fail(error.message)
+			})
+			worker.on("exit", () => {
+				if (worker !== this.#worker) {
+					return
+				}
+				this.#closed = true
+				reject({ message: "database worker exited" })
+				this.#fail("database worker exited")
+			})
+		})
+
+		Promise.all([opened, previous]).then(
+			() => {
+				if (worker === this.#worker) {
+					this.#starting = false
+					this.#pump()
+				}
+			},
+			error => {
+				if (worker === this.#worker) {
+					this.#closed = true
+					this.#fail(causeOf(error).message)
+				}
+			}
+		)
+		return opened
+	}
+
+	// Sends the next queued request once the worker is free
+	#pump(): void {
+		if (this.#running || this.#starting || this.#closed) {
+			return
+		}
+		const entry = this.#queue.shift()
+		if (!entry) {
+			return
+		}
+		this.#running = entry
+		if (entry.timeout !== undefined) {
+			entry.timer = setTimeout(
+				() =>
+					this.#stop(
+						interruptError(`Statement timed out after ${entry.timeout}ms`)
+					),
+				entry.timeout
+			)
+		}
+		this.#worker.postMessage(entry.request)
+	}
+
+	// Settles the running request with the worker's response
+	#finish(response: WorkerResponse): void {
+		const entry = this.#running
+		if (!entry || entry.request.id !== response.id) {
+			return
+		}
+		this.#running = undefined
+		this.#settle(entry)
+		if (response.ok) {
+			entry.resolve(response.result)
+		} else {
+			entry.reject(response.error)
+		}
+		this.#pump()
+	}
+
+	// Stops tracking a request, letting the worker idle once none are left
+	#settle(entry: QueuedRequest): void {
+		clearTimeout(entry.timer)
+		if (entry.abort) {
+			entry.signal?.removeEventListener("abort", entry.abort)
+		}
+		if (!this.#running && this.#queue.length === 0) {
+			this.#worker.unref()
+		}
+	}
+
+	// Rejects every request still waiting for the worker
+	#fail(message: string): void {
+		const entries = this.#queue.splice(0)
+		if (this.#running) {
+			entries.unshift(this.#running)
+			this.#running = undefined
+		}
+		for (const entry of entries) {
+			this.#settle(entry)
+			entry.reject({ message })
+		}
+	}
+
+	/**
+	 * Stops the running request by terminating its worker and starting a new
+	 * one. The connection closes with the worker, which rolls back the
+	 * statement and any transaction it was part of. A statement stuck in a
+	 * single step keeps the old worker busy until the step returns, but its
+	 * result is discarded.
+	 */
+	#stop(error: NodeSqliteError): void {
+		const entry = this.#running
+		if (!entry) {
+			return
+		}
+		this.#logger.debug("Replacing database worker", {
+			location: this.#location,
+		})
+		this.#running = undefined
+		if (this.#inTransaction) {
+			this.#transactionLost = true
+		}
+
+		const previous = this.#worker
+		previous.unref()
+		const exited = previous.terminate()
+		exited.catch(() => {})
+		this.#spawn(this.#keeper ? exited : undefined).catch(() => {})
+
+		this.#settle(entry)
+		entry.reject(error)
+	}
+
+	// Rejects a request whose signal aborted, stopping it if it is running
+	#abort(entry: QueuedRequest): void {
+		const error = interruptError("Statement aborted", entry.signal?.reason)
+		if (entry === this.#running) {
+			this.#stop(error)
+			return
+		}
+		const index = this.#queue.indexOf(entry)
+		if (index !== -1) {
+			this.#queue.splice(index, 1)
+			this.#settle(entry)
+			entry.reject(error)
+		}
+	}
+
+	// Queues a request once the database is open; rejects with the worker error
+	async #send(
+		request: WorkerCommand,
+		{ timeout, signal }: StatementOptions = {}
+	): Promise<unknown> {
+		await this.#opened
+		if (signal?.aborted) {
+			throw interruptError("Statement aborted", signal.reason)
+		}
+		if (this.#closed) {
+			throw { message: "database is not open" } satisfies WorkerError
+		}
+		return new Promise((resolve, reject) => {
+			const entry: QueuedRequest = {
+				request: { ...request, id: this.#nextId++ },
+				resolve,
+				reject,
+				timeout,
+				signal,
+			}
+			if (signal) {
+				entry.abort = () => this.#abort(entry)
+				signal.addEventListener("abort", entry.abort, { once: true })
+			}
+			this.#queue.push(entry)
+			this.#worker.ref()
+			this.#pump()
+		})
+	}
+
+	// Like #send, but waits for open transactions unless called from one
+	async #request(
+		request: WorkerCommand,
+		options?: StatementOptions
+	): Promise<unknown> {
+		if (this.#transactions.getStore() === undefined) {
+			await this.#transactionLock
+		} else if (this.#transactionLost) {
+			throw interruptError(
+				"The transaction was rolled back by an interrupted statement"
+			)
+		}
+		return this.#send(request, options)
+	}
+
+	/**
+	 * Creates a type-safe SQL query builder using template literals.
+	 * @param strings SQL template strings
+	 * @param params SQL template parameters and contexts
+	 * @returns Statement whose methods run on the worker
+	 */
+	sql<P extends DataRow, R = P, J extends DataRow = DataRow>(
+		strings: TemplateStringsArray,
+		...params: SqlTemplateValues<P, R, J>
+	): AsyncStatement<P, R> {
+		const builder = new Sql<P, R>({
+			strings,
+			paramOperators: params,
+			formatterConfig: this.#formatConfig,
+		})
+
+		const query = async (
+			type: "all" | "get" | "run",
+			params: ValuesParam<P>,
+			options?: StatementOptions
+		): Promise<{ result: unknown; hasJsonColumns: boolean }> => {
+			const { sql, namedParams, hasJsonColumns } = builder.prepare(params as P)
+			this.#logger.debug("Running statement on worker", { sql })
+			const result = await this.#request(
+				{ type, sql, params: namedParams },
+				options
+			)
+			return { result, hasJsonColumns }
+		}
+
+		const queryError = (error: unknown, params: ValuesParam<P>) =>
+			isUnwrapped(error)
+				? error
+				: new NodeSqliteError(
+						"ERR_SQLITE_QUERY",
+						SqlitePrimaryResultCode.SQLITE_ERROR,
+						"Query execution failed",
+						createErrorMessage(causeOf(error), params)
+					)
+
+		return {
+			get sql() {
+				return builder
+			},
+
+			async all<T = R>(
+				params: ValuesParam<P> = {} as P,
+				options?: StatementOptions
+			) {
+				try {
+					const { result, hasJsonColumns } = await query("all", params, options)
+					const rows = result as DataRow[]
+					return (hasJsonColumns ? rows.map(parseJsonColumns) : rows) as T[]
+				} catch (error) {
+					throw queryError(error, params)
+				}
+			},
+
+			async get<T = R>(
+				params: ValuesParam<P> = {} as P,
+				options?: StatementOptions
+			) {
+				try {
+					const { result, hasJsonColumns } = await query("get", params, options)
+					const row = result as DataRow | undefined
+					return (row && hasJsonColumns ? parseJsonColumns(row) : row) as
+						| T
+						| undefined
+				} catch (error) {
+					throw queryError(error, params)
+				}
+			},
+
+			async run(params: ValuesParam<P> = {} as P, options?: StatementOptions) {
+				try {
+					const { result } = await query("run", params, options)
+					return result as StatementResultingChanges
+				} catch (error) {
+					if (isUnwrapped(error)) {
+						throw error
+					}
+					throw new NodeSqliteError(
+						"ERR_SQLITE_MUTATE",
+						SqlitePrimaryResultCode.SQLITE_ERROR,
+						"Mutation failed",
+						createErrorMessage(causeOf(error), params)
+					)
+				}
+			},
+
+			sourceSQL(params: ValuesParam<P> = {} as P) {
+				try {
+					return builder.prepare(params as P).sql
+				} catch (error) {
+					throw new NodeSqliteError(
+						"ERR_SQLITE_QUERY",
+						SqlitePrimaryResultCode.SQLITE_ERROR,
+						"Failed to get expanded SQL",
+						createErrorMessage(error, params)
+					)
+				}
+			},
+		}
+	}
+
+	/**
+	 * Executes raw SQL directly.
+	 * @param sql SQL statement to execute
+	 * @throws {NodeSqliteError} If execution fails
+	 */
+	async exec(sql: string): Promise<void> {
+		this.#logger.debug("Executing raw SQL", { sql })
+		try {
+			await this.#request({ type: "exec", sql })
+		} catch (error) {
+			this.#logger.error("Raw SQL execution failed", { sql, error })
+			if (isUnwrapped(error)) {
+				throw error
+			}
+			const cause = causeOf(error)
+			throw new NodeSqliteError(
+				"ERR_SQLITE_EXEC",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Execution failed",
+				cause.message,
+				cause
+			)
+		}
+	}
+
+	/**
+	 * Whether the calling async context runs inside a transaction started by
+	 * {@link AsyncDB.transaction}.
+	 */
+	get inTransaction(): boolean {
+		return this.#transactions.getStore() !== undefined
+	}
+
+	/**
+	 * Runs a function inside a transaction. The transaction commits when the
+	 * function resolves and rolls back when it rejects. Nested calls are turned
+	 * into savepoints. Queries made outside the function wait until the
+	 * transaction finishes, so they never join it by accident. If a statement
+	 * in the transaction is interrupted, the whole transaction is rolled back
+	 * and the remaining queries made in it reject.
+	 * @param fn Function to run; may be async
+	 * @param options Transaction options
+	 * @returns The value resolved by fn
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_TRANSACTION if fn rejects
+	 * or the transaction cannot be started, committed or rolled back
+	 */
+	async transaction<T>(
+		fn: () => T | Promise<T>,
+		options: TransactionOptions = {}
+	): Promise<T> {
+		const depth = this.#transactions.getStore() ?? 0
+		const savepoint = `sqlitex_sp_${depth}`
+		const mode = options.mode ?? "DEFERRED"
+
+		let release = () => {}
+		if (depth === 0) {
+			const previous = this.#transactionLock
+			this.#transactionLock = new Promise(resolve => {
+				release = resolve
+			})
+			await previous
+		}
+
+		try {
+			this.#logger.debug("Starting transaction", { depth, mode })
+			try {
+				await this.#send({
+					type: "exec",
+					sql: depth === 0 ? `BEGIN ${mode}` : `SAVEPOINT ${savepoint}`,
+				})
+			} catch (error) {
+				this.#logger.error("Failed to start transaction", { depth, error })
+				throw this.#transactionError("Failed to start transaction", error)
+			}
+			if (depth === 0) {
+				this.#inTransaction = true
+			}
+
+			try {
+				const result = await this.#transactions.run(depth + 1, fn)
+				if (this.#transactionLost) {
+					throw interruptError(
+						"The transaction was rolled back by an interrupted statement"
+					)
+				}
+				await this.#send({
+					type: "exec",
+					sql: depth === 0 ? "COMMIT" : `RELEASE ${savepoint}`,
+				})
+				this.#logger.debug("Transaction committed", { depth })
+				return result
+			} catch (error) {
+				this.#logger.error("Transaction failed, rolling back", {
+					depth,
+					error,
+				})
+				// The replaced worker's connection already rolled back a lost
+				// transaction
+				try {
+					if (!this.#transactionLost) {
+						await this.#send({
+							type: "exec",
+							sql:
+								depth === 0
+									? "ROLLBACK"
+									: `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`,
+						})
+					}
+				} catch (rollbackError) {
+					this.#logger.error("Rollback failed", { depth, rollbackError })
+				}
+				throw this.#transactionError("Transaction rolled back", error)
+			}
+		} finally {
+			if (depth === 0) {
+				this.#inTransaction = false
+				this.#transactionLost = false
+			}
+			release()
+		}
+	}
+
+	#transactionError(errstr: string, error: unknown): NodeSqliteError {
+		// Errors from nested transactions are already wrapped
+		if (
+			error instanceof NodeSqliteError &&
+			error.code === "ERR_SQLITE_TRANSACTION"
+		) {
+			return error
+		}
+		const cause =
+			typeof error === "object" && error !== null && "message" in error
+				? causeOf(error)
+				: new Error(String(error))
+		return new NodeSqliteError(
+			"ERR_SQLITE_TRANSACTION",
+			error instanceof NodeSqliteError
+				? error.errcode
+				: SqlitePrimaryResultCode.SQLITE_ERROR,
+			errstr,
+			cause.message,
+			cause
+		)
+	}
+
+	/**
+	 * Creates a backup of the database.
+	 * @param filename Path where backup will be saved
+	 * @throws {NodeSqliteError} If backup creation fails
+	 */
+	async backup(filename: string): Promise<void> {
+		this.#logger.info("Starting database backup", { filename })
+		try {
+			await this.#request({ type: "exec", sql: `VACUUM INTO '${filename}'` })
+			this.#logger.info("Database backup completed successfully", {
+				filename,
+			})
+		} catch (error) {
+			this.#logger.error("Backup failed", { filename, error })
+			if (isUnwrapped(error)) {
+				throw error
+			}
+			throw new NodeSqliteError(
+				"ERR_SQLITE_BACKUP",
+				SqlitePrimaryResultCode.SQLITE_CANTOPEN,
+				"Cannot create backup file",
+				`Failed to create backup at ${filename}. Check permissions and ensure directory exists.`,
+				causeOf(error)
+			)
+		}
+	}
+
+	/**
+	 * Interrupts every statement sent to the worker so far, rejecting them with
+	 * ERR_SQLITE_INTERRUPT. Queued statements are dropped, and a running one is
+	 * stopped by replacing the worker, which rolls it back.
+	 */
+	interrupt(): void {
+		this.#logger.debug("Interrupting running statements")
+		for (const entry of this.#queue.splice(0)) {
+			this.#settle(entry)
+			entry.reject(interruptError("Statement interrupted"))
+		}
+		this.#stop(interruptError("Statement interrupted"))
+	}
+
+	/**
+	 * Retrieves prepared statement cache statistics from the worker.
+	 * @returns Cache statistics if caching is enabled, undefined otherwise
+	 */
+	async getCacheStats(): Promise<CacheStats | undefined> {
+		this.#logger.debug("Retrieving cache statistics")
+		try {
+			return (await this.#send({ type: "stats" })) as CacheStats | undefined
+		} catch (error) {
+			if (isUnwrapped(error)) {
+				throw error
+			}
+			const cause = causeOf(error)
+			throw new NodeSqliteError(
+				"ERR_SQLITE_QUERY",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Failed to get cache statistics",
+				cause.message,
+				cause
+			)
+		}
+	}
+
+	/**
+	 * Closes the database, optionally running cleanup pragmas first, and stops
+	 * the worker.
+	 * @param pragmas Optional cleanup operations to perform before closing
+	 */
+	async close(pragmas?: CleanupPragmas): Promise<void> {
+		this.#logger.info("Closing database connection", pragmas)
+		const statements: string[] = []
+		if (pragmas?.optimize) {
+			statements.push("PRAGMA optimize;")
+		}
+		if (pragmas?.shrinkMemory) {
+			statements.push("PRAGMA shrink_memory;")
+		}
+		if (pragmas?.walCheckpoint) {
+			statements.push(`PRAGMA wal_checkpoint(${pragmas.walCheckpoint});`)
+		}
+
+		try {
+			const error = await this.#request({ type: "close", pragmas: statements })
+			if (error) {
+				this.#logger.error("Error executing cleanup pragmas", error)
+			}
+		} catch (error) {
+			// Already closed, or the database never opened
+			this.#logger.debug("Database was not open", { error })
+		} finally {
+			this.#closed = true
+			await this.#worker.terminate()
+			if (this.#keeper?.isOpen) {
+				this.#keeper.close()
+			}
+			this.#logger.info("Database connection closed")
+		}
+	}
+}
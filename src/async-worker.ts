@@ -0,0 +1,222 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+// Worker thread for AsyncDB. SQL is built on the main thread, so this module
+// only runs statements and must not import anything besides node builtins.
+
+import {
+	DatabaseSync,
+	type StatementSync,
+	type SupportedValueType,
+} from "node:sqlite"
+import { parentPort, workerData } from "node:worker_threads"
+import type { CacheStats } from "#cache"
+
+/**
+ * Configuration passed to the worker as workerData
+ */
+export interface WorkerConfig {
+	location: string
+	allowExtension: boolean
+	readOnly: boolean
+	/** PRAGMA statements run after opening the database */
+	pragmas: string[]
+	/** Maximum number of cached prepared statements, 0 disables caching */
+	cacheSize: number
+}
+
+export type WorkerCommand =
+	| {
+			type: "all" | "get" | "run"
+			sql: string
+			params: Record<string, SupportedValueType>
+	  }
+	| { type: "exec"; sql: string }
+	| { type: "stats" }
+	| { type: "close"; pragmas: string[] }
+
+export type WorkerRequest = WorkerCommand & { id: number }
+
+/**
+ * An error thrown in the worker, reduced to the fields node:sqlite sets
+ */
+export interface WorkerError {
+	message: string
+	code?: string
+	errcode?: number
+	errstr?: string
+}
+
+/** Responses use id 0 to report whether the database opened */
+export type WorkerResponse =
+	| { id: number; ok: true; result?: unknown }
+	| { id: number; ok: false; error: WorkerError }
+
+function toWorkerError(error: unknown): WorkerError {
+	if (!(error instanceof Error)) {
+		return { message: String(error) }
+	}
+	const { code, errcode, errstr } = error as WorkerError
+	return { message: error.message, code, errcode, errstr }
+}
+
+// Statements that manage transactions, or cannot run inside one, are not
+// wrapped in the request savepoint
+const unguardedRegex =
+	/(^|;)\s*(BEGIN|COMMIT|END|ROLLBACK|SAVEPOINT|RELEASE|VACUUM|ATTACH|DETACH|PRAGMA)\b/i
+
+function start(config: WorkerConfig): void {
+	const port = parentPort
+	if (!port) {
+		return
+	}
+
+	let db: DatabaseSync
+	try {
+		db = new DatabaseSync(config.location, {
+			open: true,
+			allowExtension: config.allowExtension,
+			readOnly: config.readOnly,
+		})
+		for (const pragma of config.pragmas) {
+			db.exec(pragma)
+		}
+	} catch (error) {
+		port.postMessage({ id: 0, ok: false, error: toWorkerError(error) })
+		port.close()
+		return
+	}
+	port.postMessage({ id: 0, ok: true })
+
+	// Map keeps insertion order, so the first key is the least recently used
+	const cache = new Map<string, StatementSync>()
+	const stats: CacheStats = {
+		hits: 0,
+		misses: 0,
+		size: 0,
+		evictions: 0,
+		totalQueries: 0,
+	}
+	const prepare = (sql: string): StatementSync => {
+		if (config.cacheSize === 0) {
+			return db.prepare(sql)
+		}
+		stats.totalQueries++
+		let stmt = cache.get(sql)
+		if (stmt) {
+			stats.hits++
+			cache.delete(sql)
+		} else {
+			stats.misses++
+			stmt = db.prepare(sql)
+		}
+		cache.set(sql, stmt)
+		if (cache.size > config.cacheSize) {
+			cache.delete(cache.keys().next().value as string)
+			stats.evictions++
+		}
+		stats.size = cache.size
+		return stmt
+	}
+
+	const rollback = () => {
+		try {
+			db.exec("ROLLBACK TO sqlitex_request; RELEASE sqlitex_request")
+		} catch {
+			// The statement already rolled the transaction back
+		}
+	}
+	const release = () => {
+		try {
+			db.exec("RELEASE sqlitex_request")
+		} catch (error) {
+			rollback()
+			throw error
+		}
+	}
+
+	// The calling thread stops a statement by terminating this worker, which
+	// only takes effect between JavaScript calls. Running the statement in a
+	// savepoint that a separate call releases means a statement stopped this
+	// way is rolled back when the connection closes, instead of committing
+	// when its last step returns.
+	const guarded = <T>(sql: string, step: () => T): T => {
+		if (unguardedRegex.test(sql)) {
+			return step()
+		}
+		db.exec("SAVEPOINT sqlitex_request")
+		let result: T
+		try {
+			result = step()
+		} catch (error) {
+			rollback()
+			throw error
+		}
+		release()
+		return result
+	}
+
+	// Steps through the rows so a termination can stop the statement
+	// between them
+	const collectRows = (iterator: Iterator<unknown>) => {
+		const rows: unknown[] = []
+		for (let row = iterator.next(); !row.done; row = iterator.next()) {
+			rows.push(row.value)
+		}
+		return rows
+	}
+
+	port.on("message", (request: WorkerRequest) => {
+		try {
+			let result: unknown
+			switch (request.type) {
+				case "all":
+					result = guarded(request.sql, () =>
+						collectRows(prepare(request.sql).iterate(request.params))
+					)
+					break
+				case "get":
+					result = guarded(request.sql, () =>
+						prepare(request.sql).get(request.params)
+					)
+					break
+				case "run":
+					result = guarded(request.sql, () =>
+						prepare(request.sql).run(request.params)
+					)
+					break
+				case "exec":
+					guarded(request.sql, () => db.exec(request.sql))
+					break
+				case "stats":
+					result = config.cacheSize > 0 ? { ...stats } : undefined
+					break
+				case "close":
+					// Cleanup pragmas are best effort; a failure is returned for logging
+					try {
+						for (const pragma of request.pragmas) {
+							db.exec(pragma)
+						}
+					} catch (error) {
+						result = toWorkerError(error)
+					}
+					cache.clear()
+					db.close()
+					break
+			}
+			port.postMessage({ id: request.id, ok: true, result })
+		} catch (error) {
+			port.postMessage({
+				id: request.id,
+				ok: false,
+				error: toWorkerError(error),
+			})
+		}
+		if (request.type === "close") {
+			port.close()
+		}
+	})
+}
+
+start(workerData as WorkerConfig)
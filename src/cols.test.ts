@@ -4,7 +4,10 @@
 
 import { test, describe } from "node:test"
 import assert from "node:assert/strict"
-import { buildColsStatement } from "#context"
+import { buildColsStatement, validateSqlContext } from "#context"
+import { DB } from "#database"
+import type { ColumnOptions, SelectRow } from "#types"
+import type { IsEqual } from "type-fest"
 
 interface TestUser {
 	id: number
@@ -139,3 +142,164 @@ describe("buildColsStatement complex scenarios", () => {
 		assert.equal(sql, "jsonb(metadata), jsonb(settings), jsonb(stats)")
 	})
 })
+
+interface Product {
+	id: number
+	name: string
+	price: number
+	quantity: number
+	category: string
+}
+
+describe("aliased and expression columns", () => {
+	test("renders aliases, expressions and DISTINCT", () => {
+		assert.equal(
+			buildColsStatement<Product>([
+				"id",
+				"name as label",
+				"p.price AS cost",
+				"price * quantity as amount",
+				"coalesce(category, 'none') as category",
+			]),
+			"id, name as label, p.price AS cost, price * quantity as amount, coalesce(category, 'none') as category"
+		)
+
+		const db = new DB({ location: ":memory:", environment: "testing" })
+		db.exec(`
+      CREATE TABLE products (id INTEGER PRIMARY KEY, name TEXT, price REAL, quantity INTEGER, category TEXT);
+      INSERT INTO products (name, price, quantity, category) VALUES
+        ('pen', 2, 10, 'office'), ('ink', 5, 2, 'office'), ('mug', 8, 1, 'kitchen');
+    `)
+		const columns = [
+			"category as section",
+			"CASE WHEN price > 4 THEN 'premium' ELSE 'basic' END AS tier",
+		] satisfies ColumnOptions<Product>
+		const rows = db.sql<Product, SelectRow<Product, typeof columns>>`
+      SELECT ${{ distinct: true, columns }} FROM products ORDER BY section, tier
+    `.all()
+		db.close()
+
+		const sections: string[] = rows.map(row => row.section)
+		assert.deepEqual(sections, ["kitchen", "office", "office"])
+		assert.deepEqual(
+			rows.map(row => row.tier),
+			["premium", "basic", "premium"]
+		)
+	})
+
+	test("infers result rows from a columns spec", () => {
+		const columns = [
+			"id",
+			"p.name",
+			"name as label",
+			"price * quantity as amount",
+			"count(*) as orders",
+			{
+				fn: "rank()",
+				over: { orderBy: { price: "DESC" } },
+				as: "position" as const,
+			},
+		] satisfies ColumnOptions<Product>
+		type Row = SelectRow<Product, typeof columns>
+
+		const row: Row = {
+			id: 1,
+			name: "pen",
+			label: "pen",
+			amount: 20,
+			orders: 1,
+			position: 1,
+		}
+		const typed: {
+			id: number
+			name: string
+			label: string
+			orders: number
+			position: number
+		} = row
+		assert.equal(typed.label, "pen")
+	})
+
+	test("infers the row type from the template of db.sql<P>()", () => {
+		const db = new DB({ location: ":memory:", environment: "testing" })
+		db.exec(`
+      CREATE TABLE products (id INTEGER PRIMARY KEY, name TEXT, price REAL, quantity INTEGER, category TEXT);
+      INSERT INTO products (name, price, quantity, category) VALUES ('pen', 2, 10, 'office');
+    `)
+		const people = db.sql<Product>()`
+      SELECT ${{ columns: ["id", "name as displayName"] }} FROM products
+      ${{ where: "price > $price" }}
+    `
+		const rows = people.all({ price: 1 } as Product)
+		const ranked = db.sql<Product>()`
+      SELECT ${{
+				columns: [
+					"category",
+					"count(*) as products",
+					{
+						fn: "rank()",
+						over: { orderBy: { price: "DESC" } },
+						as: "position",
+					},
+				],
+			}} FROM products
+    `.all()
+		const all = db.sql<Product>()`SELECT * FROM products`.all()
+		// @ts-expect-error products has no title column
+		db.sql<Product>()`SELECT ${{ columns: ["title"] }} FROM products`
+		db.close()
+
+		const inferred: [
+			IsEqual<typeof rows, { id: number; displayName: string }[]>,
+			IsEqual<
+				typeof ranked,
+				{ category: string; products: number; position: number }[]
+			>,
+			IsEqual<typeof all, Product[]>,
+		] = [true, true, true]
+		assert.deepEqual(inferred, [true, true, true])
+		assert.deepEqual(
+			rows.map(row => ({ ...row })),
+			[{ id: 1, displayName: "pen" }]
+		)
+		assert.equal(ranked[0]?.position, 1)
+	})
+
+	test("rejects unsafe or malformed expressions", () => {
+		const invalid = [
+			"name as",
+			"name label",
+			"upper(name as label",
+			"upper(name)) as label",
+			"price; DROP TABLE products as x",
+			"price -- comment as x",
+			"'unterminated as x",
+			"price as 1abel",
+			"(SELECT max(id) FROM users) as x",
+			"coalesce((SELECT name FROM users), name) as x",
+			"exists(SELECT 1) as x",
+			"load_extension('evil') as x",
+			"my_udf(price) as x",
+			"price * $rate as x",
+		]
+		for (const col of invalid) {
+			assert.notDeepEqual(validateSqlContext({ columns: [col] }), [], col)
+		}
+		assert.deepEqual(
+			validateSqlContext({
+				columns: [
+					"upper('a;b') as x",
+					"a || ' as ' || b as c",
+					"round(sum(price * quantity), 2) as total",
+					"'SELECT' || name as y",
+				],
+			}),
+			[]
+		)
+		assert.notDeepEqual(validateSqlContext({ distinct: true }), [])
+		assert.notDeepEqual(
+			validateSqlContext({ distinct: "yes", columns: ["id"] }),
+			[]
+		)
+	})
+})
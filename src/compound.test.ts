@@ -0,0 +1,234 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { except, intersect, union, unionAll } from "#compound"
+import { validateSqlContext } from "#context"
+import { DB } from "#database"
+import type { CompoundSelect } from "#types"
+
+interface Person {
+	name: string
+	city: string
+}
+
+let db: DB
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec(`
+    CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT, city TEXT);
+    CREATE TABLE suppliers (id INTEGER PRIMARY KEY, name TEXT, city TEXT);
+    INSERT INTO customers (name, city) VALUES
+      ('Ann', 'Oslo'), ('Bob', 'Rome'), ('Cid', 'Oslo');
+    INSERT INTO suppliers (name, city) VALUES
+      ('Bob', 'Rome'), ('Dee', 'Oslo'), ('Eve', 'Lima');
+  `)
+})
+
+afterEach(() => {
+	db.close()
+})
+
+type CityFilter = { city: string }
+type Tags = { tags: string[] }
+
+const names = (rows: { name: string }[]) => rows.map(row => row.name)
+
+describe("compound context", () => {
+	test("combines selects with a trailing ORDER BY and LIMIT", () => {
+		const customers = db.sql<CityFilter & Person, Person>`
+      SELECT ${{ columns: ["name", "city"] }} FROM customers
+    `
+		const suppliers = db.sql<CityFilter & Person, Person>`
+      SELECT ${{ columns: ["name", "city"] }} FROM suppliers
+      ${{ where: "city = $city" }}
+    `
+		const query = db.sql<CityFilter & Person>`${{
+			compound: union(customers, suppliers),
+			orderBy: { name: "DESC" },
+			limit: 3,
+		}}`
+		const params = { city: "Rome" } as CityFilter & Person
+
+		assert.equal(
+			query.sourceSQL(params).replace(/\s+/g, " ").trim(),
+			"SELECT name, city FROM customers UNION SELECT name, city FROM suppliers WHERE city = $city ORDER BY name DESC LIMIT 3"
+		)
+		assert.deepEqual(names(query.all<Person>(params)), ["Cid", "Bob", "Ann"])
+	})
+
+	test("supports every compound operator", () => {
+		const customers = db.sql`SELECT name FROM customers`
+		const suppliers = db.sql`SELECT name FROM suppliers`
+		const run = (query: CompoundSelect) =>
+			names(
+				db.sql<Person>`${{ compound: query, orderBy: { name: "ASC" } }}`.all<Person>()
+			)
+
+		assert.deepEqual(run(unionAll(customers, suppliers)), [
+			"Ann",
+			"Bob",
+			"Bob",
+			"Cid",
+			"Dee",
+			"Eve",
+		])
+		assert.deepEqual(run(intersect(customers, suppliers)), ["Bob"])
+		assert.deepEqual(run(except(customers, suppliers)), ["Ann", "Cid"])
+		assert.deepEqual(
+			run(
+				except(
+					union(customers, suppliers),
+					db.sql`SELECT name FROM customers WHERE city = 'Oslo'`
+				)
+			),
+			["Bob", "Dee", "Eve"]
+		)
+	})
+
+	test("binds the parameters of each select, IN lists included", () => {
+		type Filter = { cities: string[]; supplierCity: string }
+		const customers = db.sql<Filter & Person, Person>`
+      SELECT name FROM customers ${{ where: "city IN $cities" }}
+    `
+		const suppliers = db.sql<Filter & Person, Person>`
+      SELECT name FROM suppliers WHERE city = ${"$supplierCity"}
+    `
+		const params = {
+			cities: ["Oslo", "Rome"],
+			supplierCity: "Lima",
+		} as Filter & Person
+		const rows = db.sql<Filter & Person>`
+      ${{ compound: unionAll(customers, suppliers), orderBy: { name: "ASC" } }}
+    `.all<Person>(params)
+
+		assert.deepEqual(names(rows), ["Ann", "Bob", "Cid", "Eve"])
+	})
+
+	test("binds a parameter shared by several selects to the same value", () => {
+		const customers = db.sql<CityFilter & Person, Person>`
+      SELECT name FROM customers WHERE city = ${"$city"}
+    `
+		const suppliers = db.sql<CityFilter & Person, Person>`
+      SELECT name FROM suppliers ${{ where: "city = $city" }}
+    `
+		const compound = unionAll(customers, suppliers)
+		assert.deepEqual(validateSqlContext({ compound }), [])
+		const rows = db.sql<CityFilter & Person>`
+      ${{ compound, orderBy: { name: "ASC" } }}
+    `.all<Person>({ city: "Oslo" } as CityFilter & Person)
+		assert.deepEqual(names(rows), ["Ann", "Cid", "Dee"])
+	})
+
+	test("rejects parameters that clash with another select's IN list", () => {
+		type Filter = Person & { cities: string[]; cities_0: string }
+		const customers = db.sql<Filter>`
+      SELECT name FROM customers ${{ where: "city IN $cities" }}
+    `
+		const suppliers = db.sql<Filter>`
+      SELECT name FROM suppliers WHERE city = ${"$cities_0"}
+    `
+		assert.throws(
+			() =>
+				db.sql<Filter>`
+          ${{ compound: unionAll(customers, suppliers) }}
+        `.all({ cities: ["Oslo", "Rome"] } as Filter),
+			{
+				code: "ERR_SQLITE_QUERY",
+				message: /\$cities_0 for an IN list of select 1 clashes/,
+			}
+		)
+	})
+
+	test("rejects ORDER BY and LIMIT on its selects", () => {
+		const ordered = db.sql`SELECT name FROM customers ${{ orderBy: { name: "ASC" } }}`
+		const limited = db.sql`SELECT name FROM suppliers ${{ limit: 1 }}`
+		const errors = validateSqlContext({ compound: union(ordered, limited) })
+
+		assert.deepEqual(
+			errors.map(err => err.path),
+			["compound.selects[0].orderBy", "compound.selects[1].limit"]
+		)
+		assert.throws(
+			() => db.sql`${{ compound: union(ordered, limited), limit: 1 }}`.all(),
+			{
+				code: "ERR_SQLITE_QUERY",
+				message: /must be set on the compound select/,
+			}
+		)
+	})
+
+	test("rejects selects with different column counts", () => {
+		const one = db.sql`SELECT ${{ columns: ["name"] }} FROM customers`
+		const two = db.sql`SELECT ${{ columns: ["name", "city"] }} FROM suppliers`
+		// Reads a CTE of the outer query, so it cannot be prepared on its own
+		const unknown = db.sql`SELECT name FROM picked`
+
+		assert.match(
+			validateSqlContext({ compound: union(one, unknown, two) })[0]?.message,
+			/same number of columns, got 1, \?, 2/
+		)
+		assert.deepEqual(validateSqlContext({ compound: union(one, unknown) }), [])
+
+		// SQLite counts the columns of the prepared selects, so * and repeated
+		// columns count, while commas inside calls and strings do not
+		const star = db.sql`SELECT * FROM suppliers`
+		assert.match(
+			validateSqlContext({ compound: union(one, star) })[0]?.message,
+			/same number of columns, got 1, 3/
+		)
+		const repeated = db.sql`SELECT name, name FROM customers`
+		const call = db.sql`
+      SELECT coalesce(name, city, 'a, b') FROM customers WHERE city IN ('Oslo', 'Rome')
+    `
+		assert.match(
+			validateSqlContext({ compound: union(repeated, call) })[0]?.message,
+			/same number of columns, got 2, 1/
+		)
+		assert.deepEqual(validateSqlContext({ compound: union(two, repeated) }), [])
+		assert.deepEqual(
+			validateSqlContext({ compound: union(union(two, repeated), one) }).map(
+				err => err.message
+			),
+			[
+				"Selects of a compound select must return the same number of columns, got 2, 2, 1",
+			]
+		)
+	})
+
+	test("rejects invalid definitions and combinations", () => {
+		const customers = db.sql`SELECT name FROM customers`
+		const invalid = [
+			"SELECT 1",
+			{
+				type: "__x_compound__",
+				operator: "MINUS",
+				selects: [customers, customers],
+			},
+			{ type: "__x_compound__", operator: "UNION", selects: [customers] },
+			union(customers, union(customers, customers) as never),
+			union(
+				db.sql<Tags>`SELECT name FROM customers WHERE city = ${"$tags->json"}`,
+				db.sql<Tags>`SELECT name FROM suppliers WHERE city = ${"$tags"}`
+			),
+		]
+		for (const value of invalid) {
+			assert.notDeepEqual(validateSqlContext({ compound: value }), [])
+		}
+
+		assert.throws(
+			() =>
+				db.sql<Person>`${{
+					compound: union(customers, customers),
+					where: "city = $city",
+				}}`.all({} as Person),
+			{
+				code: "ERR_SQLITE_QUERY",
+				message: /can only be combined with "orderBy"/,
+			}
+		)
+	})
+})
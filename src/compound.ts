@@ -0,0 +1,277 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {
+	statementColumnCount,
+	statementContexts,
+	validateStatementContexts,
+} from "#context"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import {
+	type NestedSql,
+	type XStatementSync,
+	isXStatementSync,
+	mergeNestedSql,
+} from "#sql"
+import {
+	type AnyStatement,
+	COMPOUND_OPERATORS,
+	type CompoundOperator,
+	type CompoundSelect,
+	type DataRow,
+	isCompoundSelect,
+} from "#types"
+import { type ValidationError, validationErr } from "#validate"
+
+type CompoundArgs<R> = [
+	// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+	XStatementSync<any, R> | CompoundSelect<R>,
+	AnyStatement,
+	...AnyStatement[],
+]
+
+function compound<R>(
+	operator: CompoundOperator,
+	selects: CompoundArgs<R>
+): CompoundSelect<R> {
+	return { type: "__x_compound__", operator, selects }
+}
+
+/**
+ * Combines selects, keeping distinct rows
+ * @example
+ * db.sql<Person>`${{ compound: union(customers, suppliers), orderBy: { name: "ASC" } }}`
+ */
+export function union<R>(...selects: CompoundArgs<R>): CompoundSelect<R> {
+	return compound("UNION", selects)
+}
+
+/**
+ * Combines selects, keeping every row
+ */
+export function unionAll<R>(...selects: CompoundArgs<R>): CompoundSelect<R> {
+	return compound("UNION ALL", selects)
+}
+
+/**
+ * Keeps the distinct rows returned by every select
+ */
+export function intersect<R>(...selects: CompoundArgs<R>): CompoundSelect<R> {
+	return compound("INTERSECT", selects)
+}
+
+/**
+ * Keeps the distinct rows of the first select that the others do not return
+ */
+export function except<R>(...selects: CompoundArgs<R>): CompoundSelect<R> {
+	return compound("EXCEPT", selects)
+}
+
+// Clauses SQLite only accepts after the last select of a compound
+const trailingClauses = ["with", "orderBy", "limit", "offset"] as const
+
+// Flattens nested compound selects into their statements, left to right
+function compoundStatements(select: CompoundSelect): AnyStatement[] {
+	const [first, ...rest] = select.selects
+	return [
+		...(isCompoundSelect(first) ? compoundStatements(first) : [first]),
+		...rest,
+	]
+}
+
+function validateCompoundShape(value: unknown): ValidationError[] {
+	if (!isCompoundSelect(value)) {
+		return [
+			validationErr({
+				msg: "compound must be created with union(), unionAll(), intersect() or except()",
+			}),
+		]
+	}
+
+	const errors: ValidationError[] = []
+	if (!COMPOUND_OPERATORS.includes(value.operator)) {
+		errors.push(
+			validationErr({
+				msg: `Invalid compound operator: ${String(value.operator)}`,
+				path: "operator",
+			})
+		)
+	}
+
+	if (!Array.isArray(value.selects) || value.selects.length < 2) {
+		errors.push(
+			validationErr({
+				msg: "A compound select needs at least two selects",
+				path: "selects",
+			})
+		)
+		return errors
+	}
+
+	value.selects.forEach((select, index) => {
+		const path = `selects[${index}]`
+		if (index === 0 && isCompoundSelect(select)) {
+			errors.push(
+				...validateCompoundShape(select).map(err => ({
+					...err,
+					path: `${path}${err.path ? `.${err.path}` : ""}`,
+				}))
+			)
+		} else if (isCompoundSelect(select)) {
+			errors.push(
+				validationErr({
+					msg: "Only the first select of a compound select can be compound",
+					path,
+				})
+			)
+		} else if (!isXStatementSync(select)) {
+			errors.push(
+				validationErr({
+					msg: "Selects must be interpolated SQL statements",
+					path,
+				})
+			)
+		} else {
+			errors.push(...validateSelect(select, path))
+		}
+	})
+
+	return errors
+}
+
+function validateSelect(select: AnyStatement, path: string): ValidationError[] {
+	const errors: ValidationError[] = validateStatementContexts(select).map(
+		err => ({
+			...err,
+			path: `${path}${err.path ? `.${err.path}` : ""}`,
+		})
+	)
+
+	const contexts = statementContexts(select)
+	for (const clause of trailingClauses) {
+		if (contexts.some(context => context[clause] !== undefined)) {
+			errors.push(
+				validationErr({
+					msg: `${clause} must be set on the compound select, not on one of its selects`,
+					path: `${path}.${clause}`,
+				})
+			)
+		}
+	}
+
+	return errors
+}
+
+export function validateCompoundSelect(value: unknown): ValidationError[] {
+	const errors = validateCompoundShape(value)
+	if (errors.length > 0) {
+		return errors
+	}
+
+	const statements = compoundStatements(value as CompoundSelect)
+
+	const counts = statements.map(statementColumnCount)
+	const known = counts.filter(count => count !== undefined)
+	if (new Set(known).size > 1) {
+		errors.push(
+			validationErr({
+				msg: `Selects of a compound select must return the same number of columns, got ${counts.map(count => count ?? "?").join(", ")}`,
+				path: "selects",
+			})
+		)
+	}
+
+	// Selects share one set of parameters, so a name must be bound the same
+	// way in each
+	const bindings = new Map<string, string>()
+	for (const statement of statements) {
+		for (const op of statement.sql.renderNested({}).parameterOperators) {
+			const name = op.split("->")[0]
+			const binding = bindings.get(name)
+			if (binding !== undefined && binding !== op) {
+				errors.push(
+					validationErr({
+						msg: `Parameter ${name} is bound as both ${binding} and ${op}`,
+						path: "selects",
+					})
+				)
+			}
+			bindings.set(name, op)
+		}
+	}
+
+	return errors
+}
+
+// Joins the rendered selects, taken in the order compoundStatements lists them
+function compoundSql(select: CompoundSelect, rendered: string[]): string {
+	const [first, ...rest] = select.selects
+	const head = isCompoundSelect(first)
+		? compoundSql(first, rendered)
+		: rendered.shift()
+	return [head, ...rest.map(() => rendered.shift())].join(
+		`\n${select.operator}\n`
+	)
+}
+
+// The selects bind from one params object, so a name they share binds the
+// same value in each. Only a placeholder one select creates for an IN list,
+// such as $ids_0, can clash: another select using $ids_0 as a parameter would
+// be bound the list's element instead.
+function checkExpandedClashes(rendered: NestedSql[]): void {
+	for (const [index, nested] of rendered.entries()) {
+		for (const placeholder of Object.keys(nested.expandedParams)) {
+			const other = rendered.findIndex(
+				(select, i) =>
+					i !== index &&
+					select.parameterOperators.includes(placeholder) &&
+					!Object.hasOwn(select.expandedParams, placeholder)
+			)
+			if (other !== -1) {
+				throw new NodeSqliteError(
+					"ERR_SQLITE_PARAM",
+					SqlitePrimaryResultCode.SQLITE_ERROR,
+					"Invalid parameter",
+					`Placeholder ${placeholder} for an IN list of select ${index + 1} clashes with parameter ${placeholder} of select ${other + 1}`,
+					undefined
+				)
+			}
+		}
+	}
+}
+
+/**
+ * Builds a compound select. The selects are rendered with the outer
+ * statement's params, and their parameter operators and expanded IN lists
+ * are returned so the outer statement binds them.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_CONTEXT if the selects
+ * cannot be combined, or ERR_SQLITE_PARAM if a placeholder of an expanded
+ * IN list clashes with a parameter of another select
+ */
+export function buildCompoundStatement(
+	select: CompoundSelect,
+	params: DataRow = {}
+): NestedSql {
+	const errors = validateCompoundSelect(select)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_CONTEXT",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid compound select",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const rendered = compoundStatements(select).map(statement =>
+		statement.sql.renderNested(params)
+	)
+	checkExpandedClashes(rendered)
+	const nested = mergeNestedSql(rendered)
+	return {
+		sql: compoundSql(select, nested.sql),
+		parameterOperators: nested.parameterOperators,
+		expandedParams: nested.expandedParams,
+	}
+}
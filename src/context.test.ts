@@ -10,7 +10,8 @@ import {
 	validateSqlContext,
 } from "./context.js"
 import { buildSchema } from "#schema.js"
-import type { Schema, SqlContext } from "#types.js"
+import type { Schema, SqlContext, WhereClause } from "#types.js"
+import { buildWhereStatement, or } from "#where"
 
 type TestUser = {
 	id: number
@@ -300,6 +301,23 @@ describe("Context Combination Validation", () => {
 			"name LIKE $age",
 		])
 	})
+
+	test("groups OR clauses when combining where clauses", () => {
+		const contexts: SqlContext<TestUser>[] = [
+			{ where: ["age != $createdAt", "OR", "name LIKE $age"] },
+			{ where: "age > $age" },
+		]
+		const combined = combineContexts(contexts)
+		assert.deepEqual(combined.where, [
+			or("age != $createdAt", "name LIKE $age"),
+			"AND",
+			"age > $age",
+		])
+		assert.equal(
+			buildWhereStatement(combined.where as WhereClause<TestUser>).sql,
+			"WHERE (age != $createdAt OR name LIKE $age) AND age > $age"
+		)
+	})
 })
 
 describe("Foreign Key Column Definitions", () => {
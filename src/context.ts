@@ -5,14 +5,40 @@
 import { validateSchema } from "#schema.js"
 import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
 import {
+	AGGREGATE_FUNCTIONS,
+	type AnyStatement,
 	type ColumnOptions,
+	FTS_FUNCTIONS,
 	isRawValue,
+	isWindowColumn,
 	type SqlContext,
 	type DataRow,
 	type WhereClause,
 } from "#types"
 import { validationErr, type ValidationError } from "#validate"
-import { validateWhereClause } from "#where"
+import { toWhereExpression, validateWhereClause } from "#where"
+import { validateJoinClause } from "#join"
+import {
+	isAggregateColumn,
+	validateGroupByClause,
+	validateHavingClause,
+} from "#group-by"
+import { validateOnConflictClause } from "#values"
+import { isFtsColumn } from "#fts"
+import { validateWithClause } from "#cte"
+import { validateCompoundSelect } from "#compound"
+import {
+	validateDeleteFrom,
+	validateInsertSelectClause,
+	validateUpdateFromClause,
+} from "#dml"
+import {
+	buildWindowColumn,
+	validateWindowClause,
+	validateWindowColumn,
+	windowNames,
+} from "#window"
+import { isXStatementSync } from "#sql"
 
 export function validateSqlContext<P extends DataRow, R = P>(
 	value: unknown
@@ -27,6 +53,72 @@ export function validateSqlContext<P extends DataRow, R = P>(
 
 	for (const key in context) {
 		switch (key) {
+			case "with": {
+				const withErrors = validateWithClause(context[key])
+				if (withErrors.length > 0) {
+					errors.push(
+						...withErrors.map(err => ({
+							...err,
+							path: `with${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				// The WITH clause starts the statement, ahead of the template text
+				if (Object.keys(context).length > 1) {
+					errors.push(
+						validationErr({
+							msg: "with must be interpolated on its own, before the statement",
+							path: "with",
+						})
+					)
+				}
+				break
+			}
+			case "compound": {
+				const compoundErrors = validateCompoundSelect(context[key])
+				if (compoundErrors.length > 0) {
+					errors.push(
+						...compoundErrors.map(err => ({
+							...err,
+							path: `compound${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
+			case "deleteFrom": {
+				errors.push(
+					...validateDeleteFrom(context[key]).map(err => ({
+						...err,
+						path: "deleteFrom",
+					}))
+				)
+				break
+			}
+			case "insertSelect": {
+				const insertErrors = validateInsertSelectClause(context[key])
+				if (insertErrors.length > 0) {
+					errors.push(
+						...insertErrors.map(err => ({
+							...err,
+							path: `insertSelect${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
+			case "from": {
+				const fromErrors = validateUpdateFromClause(context[key])
+				if (fromErrors.length > 0) {
+					errors.push(
+						...fromErrors.map(err => ({
+							...err,
+							path: `from${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
 			case "values": {
 				const valueErrors = validateInsertOrSetOptions<P>(context[key])
 				if (valueErrors.length > 0) {
@@ -39,6 +131,18 @@ export function validateSqlContext<P extends DataRow, R = P>(
 				}
 				break
 			}
+			case "onConflict": {
+				const conflictErrors = validateOnConflictClause(context[key])
+				if (conflictErrors.length > 0) {
+					errors.push(
+						...conflictErrors.map(err => ({
+							...err,
+							path: `onConflict${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
 			case "set": {
 				const setErrors = validateSetOptions<P>(context[key])
 				if (setErrors.length > 0) {
@@ -51,6 +155,22 @@ export function validateSqlContext<P extends DataRow, R = P>(
 				}
 				break
 			}
+			case "distinct":
+				if (typeof context[key] !== "boolean") {
+					errors.push(
+						validationErr({ msg: "distinct must be a boolean", path: key })
+					)
+				}
+				// DISTINCT is rendered ahead of the columns it applies to
+				if (context.columns === undefined) {
+					errors.push(
+						validationErr({
+							msg: "distinct requires columns in the same context",
+							path: key,
+						})
+					)
+				}
+				break
 			case "columns": {
 				const value = context[key]
 				if (value !== "*" && !Array.isArray(value)) {
@@ -61,17 +181,28 @@ export function validateSqlContext<P extends DataRow, R = P>(
 						})
 					)
 				} else if (Array.isArray(value)) {
-					if (!value.every(item => typeof item === "string")) {
+					if (
+						!value.every(
+							item => typeof item === "string" || isWindowColumn(item)
+						)
+					) {
 						errors.push(
 							validationErr({
-								msg: "columns array must contain only strings",
+								msg: "columns array must contain only strings and window columns",
 								path: "columns",
 							})
 						)
 					}
 					// Validate format of each column spec
 					value.forEach((col, index) => {
-						if (!isValidColumnSpec(col)) {
+						if (isWindowColumn(col)) {
+							errors.push(
+								...validateWindowColumn(col).map(err => ({
+									...err,
+									path: `columns[${index}]${err.path ? `.${err.path}` : ""}`,
+								}))
+							)
+						} else if (typeof col === "string" && !isValidColumnSpec(col)) {
 							errors.push(
 								validationErr({
 									msg: "Invalid column format",
@@ -84,6 +215,19 @@ export function validateSqlContext<P extends DataRow, R = P>(
 				break
 			}
 
+			case "join": {
+				const joinErrors = validateJoinClause(context[key])
+				if (joinErrors.length > 0) {
+					errors.push(
+						...joinErrors.map(err => ({
+							...err,
+							path: `join${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
+
 			case "where": {
 				const whereErrors = validateWhereClause<P>(
 					context[key] as WhereClause<P>
@@ -99,6 +243,45 @@ export function validateSqlContext<P extends DataRow, R = P>(
 				break
 			}
 
+			case "groupBy": {
+				const groupErrors = validateGroupByClause(context[key])
+				if (groupErrors.length > 0) {
+					errors.push(
+						...groupErrors.map(err => ({
+							...err,
+							path: `groupBy${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
+
+			case "having": {
+				const havingErrors = validateHavingClause(context[key])
+				if (havingErrors.length > 0) {
+					errors.push(
+						...havingErrors.map(err => ({
+							...err,
+							path: `having${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
+
+			case "window": {
+				const windowErrors = validateWindowClause(context[key])
+				if (windowErrors.length > 0) {
+					errors.push(
+						...windowErrors.map(err => ({
+							...err,
+							path: `window${err.path ? `.${err.path}` : ""}`,
+						}))
+					)
+				}
+				break
+			}
+
 			case "orderBy": {
 				const orderErrors = validateOrderByClause(context[key])
 				if (orderErrors.length > 0) {
@@ -202,7 +385,163 @@ export function validateSqlContext<P extends DataRow, R = P>(
 	return errors
 }
 
+const aliasedColumnRegex =
+	/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)?\s+(as|AS)\s+[A-Za-z_]\w*$/
+
+const expressionColumnRegex = /^(.+)\s+(as|AS)\s+[A-Za-z_]\w*$/
+
+// Functions an expression column may call: SQLite's built-in scalar, date,
+// math, JSON and aggregate functions, and the FTS5 auxiliary functions
+const expressionFunctions = new Set<string>([
+	...AGGREGATE_FUNCTIONS,
+	...FTS_FUNCTIONS,
+	"abs",
+	"cast",
+	"char",
+	"coalesce",
+	"concat",
+	"concat_ws",
+	"format",
+	"glob",
+	"hex",
+	"ifnull",
+	"iif",
+	"instr",
+	"length",
+	"like",
+	"lower",
+	"ltrim",
+	"nullif",
+	"octet_length",
+	"printf",
+	"quote",
+	"replace",
+	"round",
+	"rtrim",
+	"sign",
+	"soundex",
+	"string_agg",
+	"substr",
+	"substring",
+	"trim",
+	"typeof",
+	"unhex",
+	"unicode",
+	"upper",
+	"date",
+	"time",
+	"datetime",
+	"julianday",
+	"unixepoch",
+	"strftime",
+	"timediff",
+	"acos",
+	"asin",
+	"atan",
+	"atan2",
+	"ceil",
+	"ceiling",
+	"cos",
+	"degrees",
+	"exp",
+	"floor",
+	"ln",
+	"log",
+	"log10",
+	"log2",
+	"mod",
+	"pi",
+	"pow",
+	"power",
+	"radians",
+	"sin",
+	"sqrt",
+	"tan",
+	"trunc",
+	"json",
+	"jsonb",
+	"json_array",
+	"json_array_length",
+	"json_extract",
+	"json_group_object",
+	"json_insert",
+	"json_object",
+	"json_patch",
+	"json_quote",
+	"json_remove",
+	"json_replace",
+	"json_set",
+	"json_type",
+	"json_valid",
+])
+
+// Keywords that would turn an expression into a subquery
+const subqueryKeywords = new Set(["SELECT", "VALUES", "WITH", "EXISTS", "FROM"])
+
+// String literals, numbers, optionally qualified names, operators and
+// parentheses; anything else, such as another quote, a placeholder or a
+// statement separator, ends the match
+const expressionTokenRegex =
+	/\s+|'(?:[^']|'')*'|\d+(?:\.\d+)?|[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)?|\|\||<=|>=|<>|!=|==|[-+*/%(),<>=]/y
+
+// Checks an aliased expression such as "upper(name) as label". It may only
+// call known functions, and cannot hold subqueries, placeholders or
+// comments.
+function isExpressionColumn(value: string): boolean {
+	const expression = expressionColumnRegex.exec(value)?.[1]
+	if (!expression || /--|\/\*/.test(expression.replace(/'([^']|'')*'/g, ""))) {
+		return false
+	}
+
+	const tokens: string[] = []
+	expressionTokenRegex.lastIndex = 0
+	while (expressionTokenRegex.lastIndex < expression.length) {
+		const match = expressionTokenRegex.exec(expression)
+		if (!match) {
+			return false
+		}
+		if (match[0].trim()) {
+			tokens.push(match[0])
+		}
+	}
+
+	let depth = 0
+	for (const [index, token] of tokens.entries()) {
+		if (token === "(") {
+			depth++
+		} else if (token === ")") {
+			depth--
+			if (depth < 0) {
+				return false
+			}
+		} else if (/^[A-Za-z_]/.test(token)) {
+			const known =
+				tokens[index + 1] === "("
+					? expressionFunctions.has(token.toLowerCase())
+					: !subqueryKeywords.has(token.toUpperCase())
+			if (!known) {
+				return false
+			}
+		}
+	}
+
+	return (
+		depth === 0 &&
+		(tokens.includes("(") ||
+			/\s(\+|-|\*|\/|%|\|\|)\s/.test(expression) ||
+			/^CASE\s[\s\S]*\sEND$/.test(expression))
+	)
+}
+
 function isValidColumnSpec(value: string): boolean {
+	if (
+		isAggregateColumn(value) ||
+		isFtsColumn(value) ||
+		aliasedColumnRegex.test(value) ||
+		isExpressionColumn(value)
+	) {
+		return true
+	}
 	return (
 		!value.includes(" ") && // No spaces allowed
 		(value.endsWith("->json") ||
@@ -292,7 +631,7 @@ function validateInsertOrSetOptions<P extends DataRow>(
 	return errors
 }
 
-function validateOrderByClause(value: unknown): ValidationError[] {
+export function validateOrderByClause(value: unknown): ValidationError[] {
 	if (typeof value !== "object" || value === null) {
 		return [
 			validationErr({
@@ -335,6 +674,19 @@ type ContextValidationError = {
 	clauses?: string[]
 }
 
+// Clauses a compound select can be combined with
+const compoundClauses = new Set([
+	"with",
+	"compound",
+	"orderBy",
+	"limit",
+	"offset",
+])
+
+// Clauses a DELETE or INSERT ... SELECT statement can be combined with
+const deleteClauses = new Set(["with", "deleteFrom", "where", "returning"])
+const insertSelectClauses = new Set(["with", "insertSelect", "returning"])
+
 export function validateContextCombination<P extends DataRow, R = P>(
 	contexts: SqlContext<P, R>[]
 ): ContextValidationError[] {
@@ -345,17 +697,31 @@ export function validateContextCombination<P extends DataRow, R = P>(
 
 	// These clauses can only appear once
 	const uniqueClauses = new Set([
+		"with",
+		"compound",
+		"deleteFrom",
+		"insertSelect",
 		"values",
+		"onConflict",
 		"set",
+		"from",
 		"returning",
 		"limit",
 		"offset",
+		"groupBy",
+		"having",
+		"window",
 	])
 
 	// Track clause combinations that don't make sense together
 	const incompatiblePairs = new Map([
-		["values", new Set(["set"])],
-		["set", new Set(["values"])],
+		["values", new Set(["set", "join", "groupBy", "having"])],
+		["set", new Set(["values", "onConflict", "groupBy", "having"])],
+		["onConflict", new Set(["set"])],
+		["join", new Set(["values"])],
+		["groupBy", new Set(["values", "set"])],
+		["having", new Set(["values", "set"])],
+		["window", new Set(["values", "set"])],
 	])
 
 	// Check for duplicate clauses and track what we've seen
@@ -394,9 +760,144 @@ export function validateContextCombination<P extends DataRow, R = P>(
 		}
 	}
 
+	if (seenClauses.has("having") && !seenClauses.has("groupBy")) {
+		errors.push({
+			type: "INVALID_COMBINATION",
+			message: 'Clause "having" requires a "groupBy" clause',
+			clauses: ["having", "groupBy"],
+		})
+	}
+
+	if (seenClauses.has("onConflict") && !seenClauses.has("values")) {
+		errors.push({
+			type: "INVALID_COMBINATION",
+			message: 'Clause "onConflict" requires a "values" clause',
+			clauses: ["onConflict", "values"],
+		})
+	}
+
+	if (seenClauses.has("from") && !seenClauses.has("set")) {
+		errors.push({
+			type: "INVALID_COMBINATION",
+			message: 'Clause "from" requires a "set" clause',
+			clauses: ["from", "set"],
+		})
+	}
+
+	const windows = windowNames(contexts)
+	const undefinedWindows = [...windows.referenced].filter(
+		name => !windows.defined.has(name)
+	)
+	if (undefinedWindows.length > 0) {
+		errors.push({
+			type: "INVALID_COMBINATION",
+			message: `Windows not defined in a "window" clause: ${undefinedWindows.join(", ")}`,
+			clauses: ["columns", "window"],
+		})
+	}
+
+	// A compound select is a whole statement; only its trailing clauses follow
+	if (seenClauses.has("compound")) {
+		const clauses = [...seenClauses].filter(
+			clause => !compoundClauses.has(clause)
+		)
+		if (clauses.length > 0) {
+			errors.push({
+				type: "INVALID_COMBINATION",
+				message: `Clause "compound" can only be combined with "orderBy", "limit" and "offset", not "${clauses.join('", "')}"`,
+				clauses: ["compound", ...clauses],
+			})
+		}
+	}
+
+	// DELETE and INSERT ... SELECT are whole statements that take few clauses
+	for (const [statement, allowed] of [
+		["deleteFrom", deleteClauses],
+		["insertSelect", insertSelectClauses],
+	] as const) {
+		if (!seenClauses.has(statement)) {
+			continue
+		}
+		const clauses = [...seenClauses].filter(clause => !allowed.has(clause))
+		if (clauses.length > 0) {
+			const others = [...allowed].filter(
+				clause => clause !== "with" && clause !== statement
+			)
+			errors.push({
+				type: "INVALID_COMBINATION",
+				message: `Clause "${statement}" can only be combined with "${others.join('" and "')}", not "${clauses.join('", "')}"`,
+				clauses: [statement, ...clauses],
+			})
+		}
+	}
+
 	return errors
 }
 
+/**
+ * Returns the contexts interpolated into a statement
+ */
+export function statementContexts(
+	statement: AnyStatement
+): SqlContext<DataRow>[] {
+	return [...statement.sql.paramOperators].filter(
+		(op): op is SqlContext<DataRow> =>
+			typeof op === "object" &&
+			!Array.isArray(op) &&
+			!isRawValue(op) &&
+			!isXStatementSync(op)
+	)
+}
+
+// A result column name that is not an expression's text
+const resultNameRegex = /^[A-Za-z_]\w*$/
+
+/**
+ * Returns the result columns of a select as SQLite reports them once it is
+ * prepared: the name of each column, or undefined for an expression without
+ * an alias. Returns undefined when the select cannot be prepared on its own,
+ * such as one reading a CTE of the query it is part of.
+ */
+export function statementResultColumns(
+	statement: AnyStatement
+): (string | undefined)[] | undefined {
+	try {
+		return statement
+			.columns()
+			.map(({ name }) => (resultNameRegex.test(name) ? name : undefined))
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Returns the number of result columns of a select, and undefined when it
+ * cannot be prepared on its own
+ */
+export function statementColumnCount(
+	statement: AnyStatement
+): number | undefined {
+	return statementResultColumns(statement)?.length
+}
+
+/**
+ * Validates the contexts of a statement nested in a context, such as a CTE.
+ * They belong to the nested statement, so they are checked against each
+ * other but not against the outer query's.
+ */
+export function validateStatementContexts(
+	statement: AnyStatement
+): ValidationError[] {
+	const contexts = statementContexts(statement)
+	const errors = contexts.flatMap(context => validateSqlContext(context))
+	if (errors.length > 0) {
+		return errors
+	}
+	return validateContextCombination(contexts).map(err =>
+		validationErr({ msg: err.message })
+	)
+}
+
 export function combineContexts<P extends DataRow, R = P>(
 	contexts: SqlContext<P, R>[]
 ): SqlContext<P, R> {
@@ -424,11 +925,36 @@ export function combineContexts<P extends DataRow, R = P>(
 			return clause1
 		}
 
-		const clause1Array = Array.isArray(clause1) ? clause1 : [clause1]
-		const clause2Array = Array.isArray(clause2) ? clause2 : [clause2]
+		// Plain AND chains are spliced together; anything else is wrapped as a
+		// single grouped expression so OR keeps its meaning
+		const toConditions = (clause: WhereClause<P>): unknown[] =>
+			Array.isArray(clause) && clause[1] === "AND" && !clause.includes("OR")
+				? clause
+				: [toWhereExpression(clause)]
 
-		// Ensure we're not exceeding the maximum allowed conditions
-		return [...clause1Array, "AND", ...clause2Array] as WhereClause<P>
+		return [
+			...toConditions(clause1),
+			"AND",
+			...toConditions(clause2),
+		] as WhereClause<P>
+	}
+
+	// Joins accumulate in the order the contexts were given
+	const combineJoinClauses = (
+		join1: SqlContext<P, R>["join"],
+		join2: SqlContext<P, R>["join"]
+	): SqlContext<P, R>["join"] => {
+		if (!join1) {
+			return join2
+		}
+		if (!join2) {
+			return join1
+		}
+
+		return [
+			...(Array.isArray(join1) ? join1 : [join1]),
+			...(Array.isArray(join2) ? join2 : [join2]),
+		]
 	}
 
 	// Helper function to combine orderBy clauses safely
@@ -456,21 +982,46 @@ export function combineContexts<P extends DataRow, R = P>(
 
 			// Assign values from combined if they exist
 			// sourcery skip: use-braces
+			if (combined.with !== undefined) result.with = combined.with
+			if (combined.compound !== undefined) result.compound = combined.compound
+			if (combined.deleteFrom !== undefined)
+				result.deleteFrom = combined.deleteFrom
+			if (combined.insertSelect !== undefined)
+				result.insertSelect = combined.insertSelect
 			if (combined.values !== undefined) result.values = combined.values
+			if (combined.onConflict !== undefined)
+				result.onConflict = combined.onConflict
 			if (combined.set !== undefined) result.set = combined.set
+			if (combined.from !== undefined) result.from = combined.from
 			if (combined.limit !== undefined) result.limit = combined.limit
 			if (combined.offset !== undefined) result.offset = combined.offset
 			if (combined.returning !== undefined)
 				result.returning = combined.returning
+			if (combined.groupBy !== undefined) result.groupBy = combined.groupBy
+			if (combined.having !== undefined) result.having = combined.having
+			if (combined.window !== undefined) result.window = combined.window
 
 			// Assign values from current if they exist
+			if (current.with !== undefined) result.with = current.with
+			if (current.compound !== undefined) result.compound = current.compound
+			if (current.deleteFrom !== undefined)
+				result.deleteFrom = current.deleteFrom
+			if (current.insertSelect !== undefined)
+				result.insertSelect = current.insertSelect
 			if (current.values !== undefined) result.values = current.values
+			if (current.onConflict !== undefined)
+				result.onConflict = current.onConflict
 			if (current.set !== undefined) result.set = current.set
+			if (current.from !== undefined) result.from = current.from
 			if (current.limit !== undefined) result.limit = current.limit
 			if (current.offset !== undefined) result.offset = current.offset
 			if (current.returning !== undefined) result.returning = current.returning
+			if (current.groupBy !== undefined) result.groupBy = current.groupBy
+			if (current.having !== undefined) result.having = current.having
+			if (current.window !== undefined) result.window = current.window
 
 			// Handle special cases with combine functions
+			result.join = combineJoinClauses(combined.join, current.join)
 			result.where = combineWhereClauses(combined.where, current.where)
 			result.orderBy = combineOrderByClauses(combined.orderBy, current.orderBy)
 
@@ -489,18 +1040,22 @@ export function buildColsStatement<P extends DataRow>(
 
 	// Handle array of column specifications
 	if (Array.isArray(cols)) {
-		// Remove duplicates while preserving order
-		const seen = new Set<string>()
+		// Remove duplicates while preserving order; window columns are objects,
+		// so only the same object is a duplicate
+		const seen = new Set<unknown>()
 		return cols
 			.filter(col => {
-				const colStr = String(col)
-				if (seen.has(colStr)) {
+				const key = isWindowColumn(col) ? col : String(col)
+				if (seen.has(key)) {
 					return false
 				}
-				seen.add(colStr)
+				seen.add(key)
 				return true
 			})
 			.map(col => {
+				if (isWindowColumn<P>(col)) {
+					return buildWindowColumn(col)
+				}
 				if (typeof col === "string") {
 					if (col.endsWith("->json")) {
 						const columnName = col.slice(0, -6)
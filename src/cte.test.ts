@@ -0,0 +1,161 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { validateSqlContext } from "#context"
+import type { CteParams } from "#types"
+
+interface Category {
+	id: number
+	parentId: number | null
+	name: string
+}
+
+interface Order {
+	id: number
+	userId: number
+	total: number
+}
+
+let db: DB
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec(`
+    CREATE TABLE categories (id INTEGER PRIMARY KEY, parentId INTEGER, name TEXT NOT NULL);
+    INSERT INTO categories VALUES
+      (1, NULL, 'root'), (2, 1, 'books'), (3, 2, 'novels'), (4, NULL, 'other');
+    CREATE TABLE orders (id INTEGER PRIMARY KEY, userId INTEGER NOT NULL, total REAL NOT NULL);
+    INSERT INTO orders (userId, total) VALUES (1, 10), (1, 30), (2, 5), (3, 50);
+  `)
+})
+
+afterEach(() => {
+	db.close()
+})
+
+describe("with context", () => {
+	test("walks a tree with a recursive CTE", () => {
+		const tree = db.sql<{ rootId: number }, Category>`
+      SELECT * FROM categories WHERE id = ${"$rootId"}
+      UNION ALL
+      SELECT c.* FROM categories c JOIN tree ON c.parentId = tree.id
+    `
+		type TreeQuery = CteParams<typeof tree> & { skip: string }
+		const descendants = db.sql<TreeQuery>`
+      ${{ with: { name: "tree", as: tree, recursive: true } }}
+      SELECT ${{ columns: ["id", "name"] }} FROM tree
+      ${{ where: "name != $skip", orderBy: { id: "ASC" } }}
+    `
+		const params = (skip: string) => ({ rootId: 1, skip }) as TreeQuery
+
+		assert.match(
+			descendants.sourceSQL(params("")),
+			/^WITH RECURSIVE tree AS \(/
+		)
+		assert.deepEqual(
+			descendants.all(params("books")).map(row => row.name),
+			["root", "novels"]
+		)
+	})
+
+	test("defines several CTEs that build on each other", () => {
+		type Filter = { min: number }
+		type Spender = { userId: number; spent: number }
+		const big = db.sql<Filter & Order, Order>`
+      SELECT * FROM orders ${{ where: "total >= $min", orderBy: { total: "DESC" }, limit: 3 }}
+    `
+		const spenders = db.sql<Spender>`
+      SELECT userId, sum(total) FROM big GROUP BY userId
+    `
+		const rows = db.sql<CteParams<typeof big | typeof spenders>>`
+      ${{
+				with: [
+					{ name: "big", as: big, materialized: true },
+					{ name: "spenders", as: spenders, columns: ["userId", "spent"] },
+				],
+			}}
+      SELECT * FROM spenders ${{ orderBy: { spent: "DESC" }, limit: 2 }}
+    `.all<Spender>({ min: 10 } as CteParams<typeof big | typeof spenders>)
+
+		assert.deepEqual(
+			rows.map(row => ({ ...row })),
+			[
+				{ userId: 3, spent: 50 },
+				{ userId: 1, spent: 40 },
+			]
+		)
+	})
+
+	test("binds parameters of statements nested in a CTE", () => {
+		const userIds = db.sql<{ userId: number }>`
+      SELECT ${"$userId"}
+    `
+		const mine = db.sql<{ userId: number }, Order>`
+      SELECT * FROM orders WHERE userId IN (${userIds})
+    `
+		type Filter = CteParams<typeof mine> & { min: number }
+		const count = db.sql<Filter>`
+      ${{ with: { name: "mine", as: mine } }}
+      SELECT count(*) AS n FROM mine ${{ where: "total > $min" }}
+    `.get<{ n: number }>({ userId: 1, min: 15 } as Filter)
+		assert.equal(count?.n, 1)
+	})
+
+	test("expands IN lists inside a CTE with the outer params", () => {
+		const picked = db.sql<Order & { ids: number[] }, Order>`
+      SELECT * FROM orders ${{ where: "id IN $ids" }}
+    `
+		type Picked = CteParams<typeof picked>
+		const query = db.sql<Picked>`
+      ${{ with: { name: "picked", as: picked } }}
+      SELECT sum(total) AS total FROM picked
+    `
+		const params = { ids: [1, 3, 4] } as Picked
+
+		assert.match(query.sourceSQL(params), /id IN \(\$ids_0, \$ids_1, \$ids_2\)/)
+		assert.equal(query.get<{ total: number }>(params)?.total, 65)
+	})
+
+	test("must be interpolated on its own", () => {
+		const all = db.sql`SELECT * FROM orders`
+		assert.equal(
+			validateSqlContext({ with: { name: "o", as: all }, limit: 1 })[0]?.path,
+			"with"
+		)
+		assert.throws(
+			() =>
+				db.sql`SELECT ${{ with: { name: "o", as: all }, columns: ["id"] }} FROM o`.all(),
+			{ code: "ERR_SQLITE_QUERY", message: /interpolated on its own/ }
+		)
+	})
+
+	test("rejects invalid definitions", () => {
+		const all = db.sql`SELECT * FROM orders`
+		const invalid = [
+			{ name: "bad name", as: all },
+			{ name: "o", as: "SELECT 1" },
+			{ name: "o", as: all, columns: [] },
+			{ name: "o", as: all, recursive: "yes" },
+			[],
+			[
+				{ name: "o", as: all },
+				{ name: "o", as: all },
+			],
+			{
+				name: "o",
+				as: db.sql`SELECT * FROM orders ${{ limit: "1" as unknown as number }}`,
+			},
+		]
+		for (const value of invalid) {
+			assert.notDeepEqual(
+				validateSqlContext({ with: value }),
+				[],
+				JSON.stringify(value)
+			)
+		}
+	})
+})
@@ -0,0 +1,151 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { validateStatementContexts } from "#context"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { type NestedSql, isXStatementSync, renderNestedStatements } from "#sql"
+import type { CommonTableExpression, DataRow, WithClause } from "#types"
+import { type ValidationError, validationErr } from "#validate"
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+function validateSingleCte(cte: unknown): ValidationError[] {
+	if (typeof cte !== "object" || cte === null || Array.isArray(cte)) {
+		return [validationErr({ msg: "Common table expression must be an object" })]
+	}
+
+	const errors: ValidationError[] = []
+	const { name, as, columns, recursive, materialized } = cte as Record<
+		string,
+		unknown
+	>
+
+	if (typeof name !== "string" || !identifierRegex.test(name)) {
+		errors.push(
+			validationErr({
+				msg: "CTE name must be a valid identifier",
+				path: "name",
+			})
+		)
+	}
+
+	if (!isXStatementSync(as)) {
+		errors.push(
+			validationErr({
+				msg: "CTE 'as' must be an interpolated SQL statement",
+				path: "as",
+			})
+		)
+	} else {
+		errors.push(
+			...validateStatementContexts(as).map(err => ({
+				...err,
+				path: `as${err.path ? `.${err.path}` : ""}`,
+			}))
+		)
+	}
+
+	if (
+		columns !== undefined &&
+		(!Array.isArray(columns) ||
+			columns.length === 0 ||
+			!columns.every(
+				col => typeof col === "string" && identifierRegex.test(col)
+			))
+	) {
+		errors.push(
+			validationErr({
+				msg: "CTE columns must be a non-empty array of identifiers",
+				path: "columns",
+			})
+		)
+	}
+
+	for (const [flag, value] of Object.entries({ recursive, materialized })) {
+		if (value !== undefined && typeof value !== "boolean") {
+			errors.push(
+				validationErr({ msg: `${flag} must be a boolean`, path: flag })
+			)
+		}
+	}
+
+	return errors
+}
+
+export function validateWithClause(value: unknown): ValidationError[] {
+	if (!Array.isArray(value)) {
+		return validateSingleCte(value)
+	}
+
+	if (value.length === 0) {
+		return [validationErr({ msg: "with array must not be empty" })]
+	}
+
+	const errors: ValidationError[] = value.flatMap((cte, index) =>
+		validateSingleCte(cte).map(err => ({
+			...err,
+			path: `[${index}]${err.path ? `.${err.path}` : ""}`,
+		}))
+	)
+
+	const names = value.map(cte => (cte as CommonTableExpression).name)
+	const duplicates = names.filter(
+		(name, index) => names.indexOf(name) !== index
+	)
+	if (duplicates.length > 0) {
+		errors.push(
+			validationErr({
+				msg: `Duplicate CTE names: ${duplicates.join(", ")}`,
+			})
+		)
+	}
+
+	return errors
+}
+
+/**
+ * Builds a WITH clause. The CTE statements are rendered with the outer
+ * statement's params, and their parameter operators and expanded IN lists
+ * are returned so the outer statement binds them.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_CONTEXT if the clause is
+ * invalid
+ */
+export function buildWithStatement(
+	clause: WithClause,
+	params: DataRow = {}
+): NestedSql {
+	const errors = validateWithClause(clause)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_CONTEXT",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid with clause",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const ctes = Array.isArray(clause) ? clause : [clause]
+	const nested = renderNestedStatements(
+		ctes.map(cte => cte.as),
+		params
+	)
+	const definitions = ctes.map((cte, index) => {
+		const columns = cte.columns ? `(${cte.columns.join(", ")})` : ""
+		const materialized =
+			cte.materialized === undefined
+				? ""
+				: cte.materialized
+					? "MATERIALIZED "
+					: "NOT MATERIALIZED "
+		return `${cte.name}${columns} AS ${materialized}(\n${nested.sql[index]}\n)`
+	})
+
+	const recursive = ctes.some(cte => cte.recursive) ? "RECURSIVE " : ""
+	return {
+		sql: `WITH ${recursive}${definitions.join(",\n")}`,
+		parameterOperators: nested.parameterOperators,
+		expandedParams: nested.expandedParams,
+	}
+}
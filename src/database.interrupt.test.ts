@@ -0,0 +1,151 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import type { StatementOptions } from "#sql"
+
+let db: DB
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec("CREATE TABLE events (id INTEGER PRIMARY KEY, name TEXT NOT NULL)")
+})
+
+afterEach(() => {
+	db.close()
+})
+
+const isInterrupt = (message: RegExp) => (error: unknown) =>
+	error instanceof NodeSqliteError &&
+	error.code === "ERR_SQLITE_INTERRUPT" &&
+	error.getPrimaryResultCode() === SqlitePrimaryResultCode.SQLITE_INTERRUPT &&
+	message.test(error.message)
+
+// Never runs out of rows
+const counter = () => db.sql<{ x: number }>`
+  WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c)
+  SELECT x FROM c
+`
+
+const countEvents = () =>
+	db.sql`SELECT count(*) AS n FROM events`.get<{ n: number }>()?.n
+
+describe("statement timeouts", () => {
+	test("stops all() between rows once the timeout passes", () => {
+		assert.throws(
+			() => counter().all(undefined, { timeout: 20 }),
+			isInterrupt(/timed out after 20ms/)
+		)
+	})
+
+	test("rejects timeouts on get() and run(), which cannot be stopped mid-step", () => {
+		const insert = db.sql<{ name: string }>`
+      INSERT INTO events ${{ values: ["$name"] }}
+    `
+		// The types reject a timeout too; only a caller without them gets here
+		const options: StatementOptions = { timeout: 1000 }
+		assert.throws(() => insert.run({ name: "late" }, options), {
+			code: "ERR_SQLITE_MUTATE",
+			errcode: SqlitePrimaryResultCode.SQLITE_MISUSE,
+			message: /use AsyncDB/,
+		})
+		assert.throws(() => counter().get(undefined, options), {
+			code: "ERR_SQLITE_QUERY",
+			errcode: SqlitePrimaryResultCode.SQLITE_MISUSE,
+		})
+		assert.equal(countEvents(), 0)
+
+		const signal = AbortSignal.abort()
+		assert.throws(
+			() => insert.run({ name: "aborted" }, { signal }),
+			isInterrupt(/aborted/)
+		)
+		insert.run({ name: "on time" }, { signal: new AbortController().signal })
+		assert.equal(countEvents(), 1)
+	})
+
+	test("returns every row when the statement finishes in time", () => {
+		assert.deepEqual(
+			db.sql<{ x: number }>`
+          WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c WHERE x < 3)
+          SELECT x FROM c
+        `
+				.all(undefined, { timeout: 1000 })
+				.map(row => row.x),
+			[1, 2, 3]
+		)
+	})
+})
+
+describe("AbortSignal", () => {
+	test("rejects statements whose signal has already aborted", () => {
+		const signal = AbortSignal.abort(new Error("cancelled"))
+		assert.throws(
+			() => counter().all(undefined, { signal }),
+			(error: unknown) => {
+				assert.ok(isInterrupt(/aborted/)(error))
+				assert.equal(
+					(error as NodeSqliteError).originalError?.message,
+					"cancelled"
+				)
+				return true
+			}
+		)
+	})
+
+	test("stops an iterator that awaits between rows", async () => {
+		const controller = new AbortController()
+		const seen: number[] = []
+		await assert.rejects(
+			async () => {
+				for (const { x } of counter().iter(undefined, {
+					signal: controller.signal,
+				})) {
+					seen.push(x)
+					if (x === 3) {
+						setImmediate(() => controller.abort())
+					}
+					await new Promise(resolve => setImmediate(resolve))
+				}
+			},
+			isInterrupt(/aborted/)
+		)
+		assert.ok(seen.length >= 3 && seen.length < 10)
+	})
+})
+
+describe("DB.interrupt", () => {
+	test("stops statements being iterated", () => {
+		const seen: number[] = []
+		assert.throws(
+			() => {
+				for (const { x } of counter().rows()) {
+					seen.push(x)
+					if (x === 3) {
+						db.interrupt()
+					}
+				}
+			},
+			isInterrupt(/interrupted/)
+		)
+		assert.deepEqual(seen, [1, 2, 3])
+	})
+
+	test("does not affect statements started afterwards", () => {
+		db.interrupt()
+		const events = db.sql<{ name: string }>`
+      INSERT INTO events ${{ values: ["$name"] }}
+    `
+		events.run({ name: "after" })
+		assert.deepEqual(
+			[...db.sql<{ name: string }>`SELECT name FROM events`.iter()].map(
+				row => row.name
+			),
+			["after"]
+		)
+	})
+})
@@ -0,0 +1,175 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { NodeSqliteError } from "#errors"
+
+let db: DB
+
+type Account = { id: number; owner: string; balance: number }
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec(`
+    CREATE TABLE accounts (
+      id INTEGER PRIMARY KEY,
+      owner TEXT NOT NULL,
+      balance INTEGER NOT NULL CHECK (balance >= 0)
+    );
+  `)
+})
+
+afterEach(() => {
+	db.close()
+})
+
+const insertAccount = (owner: string, balance: number) =>
+	db.sql<Omit<Account, "id">>`
+    INSERT INTO accounts ${{ values: ["$owner", "$balance"] }}
+  `.run({ owner, balance })
+
+const countAccounts = () =>
+	db.sql`SELECT count(*) AS n FROM accounts`.get<{ n: number }>()?.n
+
+describe("DB.transaction", () => {
+	test("commits when the function returns", () => {
+		const result = db.transaction(() => {
+			insertAccount("alice", 100)
+			insertAccount("bob", 50)
+			return "done"
+		})
+
+		assert.equal(result, "done")
+		assert.equal(countAccounts(), 2)
+		assert.equal(db.inTransaction, false)
+	})
+
+	test("rolls back when the function throws", () => {
+		assert.throws(
+			() =>
+				db.transaction(() => {
+					insertAccount("alice", 100)
+					throw new Error("boom")
+				}),
+			(error: unknown) =>
+				error instanceof NodeSqliteError &&
+				error.code === "ERR_SQLITE_TRANSACTION" &&
+				error.message === "boom" &&
+				error.originalError?.message === "boom"
+		)
+
+		assert.equal(countAccounts(), 0)
+		assert.equal(db.inTransaction, false)
+	})
+
+	test("preserves the original cause of constraint failures", () => {
+		assert.throws(
+			() =>
+				db.transaction(() => {
+					insertAccount("alice", 100)
+					insertAccount("bob", -1)
+				}),
+			(error: unknown) =>
+				error instanceof NodeSqliteError &&
+				error.code === "ERR_SQLITE_TRANSACTION" &&
+				error.originalError instanceof NodeSqliteError &&
+				error.originalError.code === "ERR_SQLITE_MUTATE"
+		)
+
+		assert.equal(countAccounts(), 0)
+	})
+
+	test("supports IMMEDIATE and EXCLUSIVE modes", () => {
+		for (const mode of ["DEFERRED", "IMMEDIATE", "EXCLUSIVE"] as const) {
+			db.transaction(() => insertAccount(mode, 1), { mode })
+		}
+		assert.equal(countAccounts(), 3)
+	})
+
+	test("nested calls release savepoints on success", () => {
+		db.transaction(() => {
+			insertAccount("alice", 100)
+			db.transaction(() => {
+				insertAccount("bob", 50)
+				assert.equal(db.inTransaction, true)
+			})
+		})
+
+		assert.equal(countAccounts(), 2)
+	})
+
+	test("nested failure only rolls back to its savepoint", () => {
+		db.transaction(() => {
+			insertAccount("alice", 100)
+			assert.throws(() =>
+				db.transaction(() => {
+					insertAccount("bob", 50)
+					throw new Error("inner failure")
+				})
+			)
+			insertAccount("carol", 25)
+		})
+
+		const owners = db.sql`SELECT owner FROM accounts ORDER BY owner`
+			.all<{ owner: string }>()
+			.map(row => row.owner)
+		assert.deepEqual(owners, ["alice", "carol"])
+	})
+
+	test("unhandled nested failure rolls back the outer transaction without double wrapping", () => {
+		assert.throws(
+			() =>
+				db.transaction(() => {
+					insertAccount("alice", 100)
+					db.transaction(() => {
+						throw new Error("deep")
+					})
+				}),
+			(error: unknown) =>
+				error instanceof NodeSqliteError &&
+				error.code === "ERR_SQLITE_TRANSACTION" &&
+				!(error.originalError instanceof NodeSqliteError)
+		)
+
+		assert.equal(countAccounts(), 0)
+	})
+
+	test("rejects async transaction functions", () => {
+		assert.throws(
+			() =>
+				db.transaction(async () => {
+					insertAccount("alice", 100)
+				}),
+			(error: unknown) =>
+				error instanceof NodeSqliteError &&
+				error.code === "ERR_SQLITE_TRANSACTION" &&
+				error.errstr === "Transaction function returned a promise"
+		)
+
+		assert.equal(countAccounts(), 0)
+	})
+
+	test("handles the promise of a rejecting async transaction function", async () => {
+		const unhandled: unknown[] = []
+		const onUnhandled = (reason: unknown) => unhandled.push(reason)
+		process.on("unhandledRejection", onUnhandled)
+		try {
+			assert.throws(
+				() =>
+					db.transaction(async () => {
+						await new Promise(resolve => setTimeout(resolve, 5))
+						throw new Error("late failure")
+					}),
+				{ code: "ERR_SQLITE_TRANSACTION" }
+			)
+			await new Promise(resolve => setTimeout(resolve, 20))
+		} finally {
+			process.off("unhandledRejection", onUnhandled)
+		}
+		assert.deepEqual(unhandled, [])
+		assert.equal(db.inTransaction, false)
+	})
+})
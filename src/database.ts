@@ -26,16 +26,57 @@ import {
 import { tmpdir } from "node:os"
 import { accessSync, renameSync, unlinkSync } from "node:fs"
 import { type Logger, NoopLogger } from "#logger"
-import { createXStatementSync, Sql } from "#sql"
+import { createXStatementSync, Sql, type XStatementSync } from "#sql"
 import type {
 	CleanupPragmas,
 	DataRow,
 	DBOptions,
 	FormatterConfig,
+	Schema,
+	SqlTag,
 	SqlTemplateValues,
+	TransactionOptions,
 } from "#types"
 import { buildIndexStatement, type IndexDef } from "#idx.js"
+import { buildFtsStatements, type FtsTableDef } from "#fts"
+import {
+	type ApplyChangesetOptions,
+	changesetError,
+	Session,
+	type SessionOptions,
+	toNodeApplyOptions,
+} from "#session"
+import {
+	type AlterTableDef,
+	buildAlterTableStatement,
+	buildDropStatement,
+	type DropDef,
+} from "#alter"
+import { createTable, type Table, type TableOptions } from "#table"
+import { introspectDatabase, type DatabaseInfo } from "#introspect"
+import {
+	syncSchema,
+	type SchemaDiff,
+	type SyncSchemaOptions,
+	type TableDefinition,
+} from "#diff"
 import stringify from "#stringify.js"
+import {
+	createAggregateFunction,
+	createScalarFunction,
+	type AggregateDef,
+	type FunctionOptions,
+	type FunctionRegistration,
+	type SqlReturnValue,
+} from "#functions"
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as PromiseLike<unknown>).then === "function"
+	)
+}
 
 /**
  * Type-safe SQLite database wrapper with prepared statement caching, SQL template literals,
@@ -47,6 +88,11 @@ export class DB {
 	readonly #location: string
 	readonly #logger: Logger
 	readonly #formatConfig?: FormatterConfig | false
+	readonly #environment: NonNullable<DBOptions["environment"]>
+	#transactionDepth = 0
+	#interrupts = 0
+	// Re-registered when restore() reopens the connection
+	readonly #functions = new Map<string, FunctionRegistration>()
 	/**
 	 * Creates a new database connection with optional configuration.
 	 * @param options Database configuration options
@@ -58,6 +104,7 @@ export class DB {
 		this.#location = location
 		this.#logger = options.logger ?? new NoopLogger()
 		this.#formatConfig = options.format
+		this.#environment = options.environment ?? "development"
 
 		this.#logger.debug("Initializing database", { location })
 
@@ -161,15 +208,32 @@ export class DB {
 		}
 	}
 	/**
-	 * Creates a type-safe SQL query builder using template literals.
+	 * Creates a type-safe SQL query builder using template literals. Called
+	 * without a template, returns a tag that infers the row type from the
+	 * columns context of its template.
 	 * @param strings SQL template strings
 	 * @param params SQL template parameters and contexts
-	 * @returns Type-safe statement executor
+	 * @returns Type-safe statement executor, or the tag
+	 * @example
+	 * db.sql<User>()`SELECT ${{ columns: ["id", "name as displayName"] }} FROM users`
+	 *   .all() // { id: number; displayName: string }[]
 	 */
-	sql<P extends DataRow, R = P>(
+	sql<P extends DataRow, J extends DataRow = DataRow>(): SqlTag<P, J>
+	sql<P extends DataRow, R = P, J extends DataRow = DataRow>(
 		strings: TemplateStringsArray,
-		...params: SqlTemplateValues<P, R>
-	) {
+		...params: SqlTemplateValues<P, R, J>
+	): XStatementSync<P, R>
+	sql<P extends DataRow, R = P, J extends DataRow = DataRow>(
+		strings?: TemplateStringsArray,
+		...params: SqlTemplateValues<P, R, J>
+	): XStatementSync<P, R> | SqlTag<P, J> {
+		if (strings === undefined) {
+			// The inferred row type only exists for the type checker
+			return ((
+				strings: TemplateStringsArray,
+				...params: SqlTemplateValues<P, P, J>
+			) => this.sql<P, P, J>(strings, ...params)) as SqlTag<P, J>
+		}
 		const builder = new Sql<P, R>({
 			strings,
 			paramOperators: params,
@@ -184,11 +248,67 @@ export class DB {
 
 				return { stmt, namedParams, hasJsonColumns }
 			},
-			prepare: sql => this.prepareStatement(sql),
+			prepare: sql => this.#db.prepare(sql),
 			sql: builder,
+			interrupts: () => this.#interrupts,
 		})
 	}
 
+	/**
+	 * Returns a typed handle for a table with insert, update, delete and find
+	 * helpers built on the SqlContext builders.
+	 * @param name Table name
+	 * @param schema Column definitions, used by create() and to select columns
+	 * @param options Table configuration such as JSON columns
+	 * @returns Table handle
+	 * @throws {NodeSqliteError} If the table name is not a valid identifier
+	 */
+	table<T extends DataRow>(
+		name: string,
+		schema: Schema<T>,
+		options?: TableOptions<T>
+	): Table<T> {
+		return createTable<T>(this, name, schema, options)
+	}
+
+	/**
+	 * Reads the structure of every user table and view. Table schemas and
+	 * indexes use the same shapes accepted by buildSchema and createIndex.
+	 * @returns Tables with their columns, indexes and foreign keys, and views
+	 */
+	introspect(): DatabaseInfo {
+		return introspectDatabase(this)
+	}
+
+	/**
+	 * Alters tables to match their definitions, rebuilding a table when
+	 * ALTER TABLE cannot express the change. Only available outside the
+	 * production environment; use migrations there.
+	 * @param tables Desired table definitions
+	 * @param options Column renames and dry-run flag
+	 * @returns The plan for each table
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA in production or
+	 * if a plan fails to apply
+	 */
+	syncSchema<T extends DataRow[]>(
+		tables: [...{ [K in keyof T]: TableDefinition<T[K]> }],
+		options?: SyncSchemaOptions
+	): SchemaDiff[] {
+		if (this.#environment === "production") {
+			throw new NodeSqliteError(
+				"ERR_SQLITE_SCHEMA",
+				SqlitePrimaryResultCode.SQLITE_MISUSE,
+				"Schema sync disabled",
+				"syncSchema is not available in the production environment",
+				undefined
+			)
+		}
+		this.#logger.debug("Syncing schema", {
+			tables: tables.map(t => t.name),
+		})
+		return syncSchema<T>(this, tables, options)
+	}
+
 	createIndex<T extends DataRow>(def: IndexDef<T>): void {
 		this.#logger.debug("Creating index", stringify(def))
 		const stmt = buildIndexStatement(def)
@@ -196,6 +316,184 @@ export class DB {
 		this.#logger.info("Index created successfully", stringify(def))
 	}
 
+	/**
+	 * Creates an FTS5 table and, for an external content table, the triggers
+	 * keeping it in sync. See {@link buildFtsStatements}.
+	 * @param def FTS5 table definition
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if the definition
+	 * is invalid
+	 * @example
+	 * db.createFtsTable<Post>({
+	 *   name: "posts_fts",
+	 *   columns: ["title", "body"],
+	 *   content: "posts",
+	 *   contentRowid: "id",
+	 * })
+	 */
+	createFtsTable<T extends DataRow>(def: FtsTableDef<T>): void {
+		this.#logger.debug("Creating FTS table", stringify(def))
+		const statements = buildFtsStatements(def)
+		this.exec(statements.join(";\n"))
+		this.#logger.info("FTS table created successfully", stringify(def))
+	}
+
+	/**
+	 * Registers a scalar SQL function. Redefining a function with the same
+	 * name and argument count replaces it.
+	 * @param name Function name used in SQL
+	 * @param fn Implementation; see SqlReturnValue for how results are stored
+	 * @param options SQLite function flags and JSON argument parsing
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_FUNCTION if the definition
+	 * is invalid or cannot be registered
+	 * @example
+	 * db.defineFunction("slug", (title: string) => title.toLowerCase(), {
+	 *   deterministic: true,
+	 * })
+	 */
+	defineFunction<A extends unknown[], R extends SqlReturnValue>(
+		name: string,
+		fn: (...args: A) => R,
+		options?: FunctionOptions
+	): void {
+		this.#logger.debug("Defining function", { name, ...options })
+		this.#registerFunction(name, createScalarFunction(name, fn, options))
+		this.#logger.info("Function defined successfully", { name })
+	}
+
+	/**
+	 * Registers an aggregate SQL function, which is also usable as a window
+	 * function when it has an inverse.
+	 * @param name Function name used in SQL
+	 * @param def Start state, step, inverse and result functions, and flags
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_FUNCTION if the definition
+	 * is invalid or cannot be registered
+	 * @example
+	 * db.defineAggregate("median", {
+	 *   start: () => [] as number[],
+	 *   step: (values, value: number) => [...values, value],
+	 *   result: values => values.sort((a, b) => a - b)[values.length >> 1],
+	 * })
+	 */
+	defineAggregate<S, A extends unknown[], R extends SqlReturnValue>(
+		name: string,
+		def: AggregateDef<S, A, R>
+	): void {
+		this.#logger.debug("Defining aggregate", { name })
+		this.#registerFunction(name, createAggregateFunction(name, def))
+		this.#logger.info("Aggregate defined successfully", { name })
+	}
+
+	#registerFunction(name: string, fn: FunctionRegistration): void {
+		try {
+			fn.register(this.#db)
+		} catch (error) {
+			this.#logger.error("Failed to define function", { name, error })
+			throw new NodeSqliteError(
+				"ERR_SQLITE_FUNCTION",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Cannot define function",
+				error instanceof Error ? error.message : String(error),
+				error instanceof Error ? error : undefined
+			)
+		}
+		this.#functions.set(fn.key, fn)
+	}
+
+	/**
+	 * Starts recording the changes made through this connection.
+	 * @param options Table and attached database to record; all tables of the
+	 * main database by default
+	 * @returns The session; close it when done
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SESSION if the session
+	 * cannot be created
+	 * @example
+	 * const session = db.session({ table: "notes" })
+	 * // ...edit notes...
+	 * const changes = session.changeset()
+	 * session.close()
+	 */
+	session(options: SessionOptions = {}): Session {
+		this.#logger.debug("Starting session", { ...options })
+		try {
+			return new Session(this.#db.createSession(options))
+		} catch (error) {
+			this.#logger.error("Failed to start session", { ...options, error })
+			throw new NodeSqliteError(
+				"ERR_SQLITE_SESSION",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Cannot start session",
+				error instanceof Error ? error.message : String(error),
+				error instanceof Error ? error : undefined
+			)
+		}
+	}
+
+	/**
+	 * Applies a changeset or patchset in a single transaction. Conflicting
+	 * changes are resolved by onConflict, which aborts by default.
+	 * @param changeset Output of Session.changeset(), Session.patchset() or
+	 * invertChangeset()
+	 * @param options Conflict resolution and table filter
+	 * @returns false if a conflict aborted the changeset and every change was
+	 * rolled back, true otherwise
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_CHANGESET if the
+	 * changeset is malformed or onConflict throws; nothing is applied
+	 * @example
+	 * db.applyChangeset(changes, {
+	 *   onConflict: conflict => (conflict === "data" ? "replace" : "omit"),
+	 * })
+	 */
+	applyChangeset(
+		changeset: Uint8Array,
+		options?: ApplyChangesetOptions
+	): boolean {
+		this.#logger.debug("Applying changeset", { bytes: changeset.length })
+		try {
+			const applied = this.#db.applyChangeset(
+				changeset,
+				toNodeApplyOptions(options)
+			)
+			this.#logger.info(
+				applied ? "Changeset applied successfully" : "Changeset aborted",
+				{ bytes: changeset.length }
+			)
+			return applied
+		} catch (error) {
+			this.#logger.error("Failed to apply changeset", { error })
+			throw changesetError(
+				error instanceof Error ? error.message : String(error),
+				(error as { errcode?: number }).errcode,
+				error
+			)
+		}
+	}
+
+	/**
+	 * Runs a single ALTER TABLE operation.
+	 * @param def Column to add, rename or drop, or the new table name
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if the definition
+	 * is invalid
+	 */
+	alterTable<T extends DataRow>(def: AlterTableDef<T>): void {
+		this.#logger.debug("Altering table", stringify(def))
+		const stmt = buildAlterTableStatement(def)
+		this.exec(stmt)
+		this.#logger.info("Table altered successfully", stringify(def))
+	}
+
+	/**
+	 * Drops a table, index, view or trigger.
+	 * @param def Object type, name and IF EXISTS flag
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if the definition
+	 * is invalid
+	 */
+	drop(def: DropDef): void {
+		this.#logger.debug("Dropping schema object", stringify(def))
+		const stmt = buildDropStatement(def)
+		this.exec(stmt)
+		this.#logger.info("Schema object dropped successfully", stringify(def))
+	}
+
 	/**
 	 * Creates a backup of the database.
 	 * @param filename Path where backup will be saved
@@ -268,6 +566,13 @@ export class DB {
 				this.#db = new DatabaseSync(this.#location, { open: true })
 				this.#logger.debug("Opened restored database")
 
+				for (const fn of this.#functions.values()) {
+					fn.register(this.#db)
+				}
+				this.#logger.debug("Re-registered functions", {
+					count: this.#functions.size,
+				})
+
 				unlinkSync(tempBackup)
 				this.#logger.debug("Removed temporary backup")
 
@@ -317,6 +622,93 @@ export class DB {
 		}
 	}
 
+	/**
+	 * Whether a transaction started by {@link DB.transaction} is currently open.
+	 */
+
+	get inTransaction(): boolean {
+		return this.#transactionDepth > 0
+	}
+
+	/**
+	 * Runs a function inside a transaction. The transaction commits when the
+	 * function returns and rolls back when it throws. Nested calls are turned
+	 * into savepoints, so helpers that open their own transaction compose safely.
+	 * @param fn Function to run; must be synchronous
+	 * @param options Transaction options
+	 * @returns The value returned by fn
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_TRANSACTION if fn throws or
+	 * the transaction cannot be started, committed or rolled back
+	 */
+
+	transaction<T>(fn: () => T, options: TransactionOptions = {}): T {
+		const depth = this.#transactionDepth
+		const savepoint = `sqlitex_sp_${depth}`
+		const mode = options.mode ?? "DEFERRED"
+
+		this.#logger.debug("Starting transaction", { depth, mode })
+		try {
+			this.#db.exec(depth === 0 ? `BEGIN ${mode}` : `SAVEPOINT ${savepoint}`)
+		} catch (error) {
+			this.#logger.error("Failed to start transaction", { depth, error })
+			throw this.#transactionError("Failed to start transaction", error)
+		}
+
+		this.#transactionDepth++
+		try {
+			const result = fn()
+			if (isThenable(result)) {
+				// The transaction is rolled back below, so a later rejection of
+				// the promise must not go unhandled
+				Promise.resolve(result).catch(() => {})
+				throw new NodeSqliteError(
+					"ERR_SQLITE_TRANSACTION",
+					SqlitePrimaryResultCode.SQLITE_MISUSE,
+					"Transaction function returned a promise",
+					"Transaction functions must be synchronous; the transaction would close before the promise settles",
+					undefined
+				)
+			}
+			this.#db.exec(depth === 0 ? "COMMIT" : `RELEASE ${savepoint}`)
+			this.#logger.debug("Transaction committed", { depth })
+			return result
+		} catch (error) {
+			this.#logger.error("Transaction failed, rolling back", { depth, error })
+			try {
+				this.#db.exec(
+					depth === 0
+						? "ROLLBACK"
+						: `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`
+				)
+			} catch (rollbackError) {
+				this.#logger.error("Rollback failed", { depth, rollbackError })
+			}
+			throw this.#transactionError("Transaction rolled back", error)
+		} finally {
+			this.#transactionDepth--
+		}
+	}
+
+	#transactionError(errstr: string, error: unknown): NodeSqliteError {
+		// Errors from nested transactions are already wrapped
+		if (
+			error instanceof NodeSqliteError &&
+			error.code === "ERR_SQLITE_TRANSACTION"
+		) {
+			return error
+		}
+		const cause = error instanceof Error ? error : new Error(String(error))
+		return new NodeSqliteError(
+			"ERR_SQLITE_TRANSACTION",
+			error instanceof NodeSqliteError
+				? error.errcode
+				: SqlitePrimaryResultCode.SQLITE_ERROR,
+			errstr,
+			cause.message,
+			cause
+		)
+	}
+
 	/**
 	 * Retrieves prepared statement cache statistics.
 	 * @returns Cache statistics if caching is enabled, undefined otherwise
@@ -339,6 +731,20 @@ export class DB {
 		}
 	}
 
+	/**
+	 * Interrupts every statement running on this connection. Statements stop
+	 * before their next row with ERR_SQLITE_INTERRUPT. A statement in the
+	 * middle of a step, including any get() or run(), cannot be stopped:
+	 * node:sqlite has no way to interrupt SQLite, and queries block the
+	 * thread, so this only reaches statements paused between rows, such as an
+	 * iter() loop that awaits. Use AsyncDB for statements that must be
+	 * stoppable.
+	 */
+	interrupt(): void {
+		this.#logger.debug("Interrupting running statements")
+		this.#interrupts++
+	}
+
 	/**
 	 * Closes database connection and optionally runs cleanup pragmas.
 	 * @param pragmas Optional cleanup operations to perform before closing
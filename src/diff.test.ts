@@ -0,0 +1,435 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { diffSchema } from "#diff"
+import type { NodeSqliteError } from "#errors"
+import type { TableInfo } from "#introspect"
+import type { Schema } from "#types"
+
+type User = {
+	id: number
+	email: string
+	name: string | null
+	age: number | null
+}
+
+type Post = {
+	id: number
+	user_id: number | null
+	title: string | null
+}
+
+const userSchema: Schema<User> = {
+	id: "INTEGER PRIMARY KEY",
+	email: "TEXT NOT NULL UNIQUE",
+	name: "TEXT",
+}
+
+describe("diffSchema", () => {
+	let db: DB
+
+	const current = (name: string): TableInfo | undefined =>
+		db.introspect().tables.find(t => t.name === name)
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT
+      );
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("plans CREATE TABLE for missing tables", () => {
+		const plan = diffSchema(undefined, {
+			name: "accounts",
+			schema: userSchema,
+			indexes: [
+				{ name: "idx_accounts_name", tableName: "accounts", columns: ["name"] },
+			],
+		})
+		assert.equal(plan.rebuild, false)
+		assert.deepEqual(
+			plan.changes.map(c => c.type),
+			["createTable", "createIndex"]
+		)
+		assert.deepEqual(plan.statements, [
+			"CREATE TABLE accounts (\n  id INTEGER PRIMARY KEY,\n  email TEXT NOT NULL UNIQUE,\n  name TEXT\n)",
+			"CREATE INDEX idx_accounts_name ON accounts (name)",
+		])
+	})
+
+	test("reports no changes for a matching table", () => {
+		const plan = diffSchema(current("users"), {
+			name: "users",
+			schema: userSchema,
+		})
+		assert.deepEqual(plan.changes, [])
+		assert.deepEqual(plan.statements, [])
+	})
+
+	test("ignores declared type spelling with the same affinity", () => {
+		db.exec("CREATE TABLE notes (id INTEGER PRIMARY KEY, body VARCHAR(200))")
+		const plan = diffSchema<{ id: number; body: string }>(current("notes"), {
+			name: "notes",
+			schema: { id: "INTEGER PRIMARY KEY", body: "TEXT" },
+		})
+		assert.deepEqual(plan.changes, [])
+	})
+
+	test("uses ALTER TABLE to add, drop and rename columns", () => {
+		const plan = diffSchema<User & { full_name: string | null }>(
+			current("users"),
+			{
+				name: "users",
+				schema: {
+					id: "INTEGER PRIMARY KEY",
+					email: "TEXT NOT NULL UNIQUE",
+					full_name: "TEXT",
+					age: "INTEGER DEFAULT 0",
+				},
+			},
+			{ renames: { full_name: "name" } }
+		)
+		assert.equal(plan.rebuild, false)
+		assert.deepEqual(plan.statements, [
+			"ALTER TABLE users RENAME COLUMN name TO full_name",
+			"ALTER TABLE users ADD COLUMN age INTEGER DEFAULT 0",
+		])
+
+		const dropped = diffSchema<User>(current("users"), {
+			name: "users",
+			schema: { id: "INTEGER PRIMARY KEY", email: "TEXT NOT NULL UNIQUE" },
+		})
+		assert.deepEqual(dropped.statements, ["ALTER TABLE users DROP COLUMN name"])
+	})
+
+	test("rebuilds when a column cannot be added or changed in place", () => {
+		const notNull = diffSchema(current("users"), {
+			name: "users",
+			schema: { ...userSchema, age: "INTEGER NOT NULL" },
+		})
+		assert.equal(notNull.rebuild, true)
+
+		const changed = diffSchema(current("users"), {
+			name: "users",
+			schema: { ...userSchema, name: "TEXT NOT NULL DEFAULT ''" },
+		})
+		assert.equal(changed.rebuild, true)
+		assert.deepEqual(changed.changes, [
+			{ type: "alterColumn", table: "users", column: "name" },
+		])
+		assert.deepEqual(changed.statements, [
+			"CREATE TABLE new_users (\n  id INTEGER PRIMARY KEY,\n  email TEXT NOT NULL UNIQUE,\n  name TEXT NOT NULL DEFAULT ''\n)",
+			"INSERT INTO new_users (id, email, name) SELECT id, email, name FROM users",
+			"DROP TABLE users",
+			"PRAGMA legacy_alter_table = ON",
+			"ALTER TABLE new_users RENAME TO users",
+			"PRAGMA legacy_alter_table = OFF",
+		])
+	})
+
+	test("rebuilds when dropping a unique column", () => {
+		const plan = diffSchema<User>(current("users"), {
+			name: "users",
+			schema: { id: "INTEGER PRIMARY KEY", name: "TEXT" },
+		})
+		assert.equal(plan.rebuild, true)
+		assert.equal(
+			plan.statements[1],
+			"INSERT INTO new_users (id, name) SELECT id, name FROM users"
+		)
+	})
+
+	test("compares foreign keys and indexes", () => {
+		db.exec(`
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER REFERENCES users (id),
+        title TEXT
+      );
+      CREATE INDEX idx_posts_title ON posts (title);
+    `)
+		const schema: Schema<Post> = {
+			id: "INTEGER PRIMARY KEY",
+			user_id: "INTEGER",
+			title: "TEXT",
+		}
+
+		const same = diffSchema<Post>(current("posts"), {
+			name: "posts",
+			schema: {
+				...schema,
+				$$foreignKeys: [
+					{ key: "user_id", references: { table: "users", columns: ["id"] } },
+				],
+			},
+		})
+		assert.deepEqual(same.changes, [])
+
+		const cascade = diffSchema<Post>(current("posts"), {
+			name: "posts",
+			schema: {
+				...schema,
+				$$foreignKeys: [
+					{
+						key: "user_id",
+						references: { table: "users", columns: ["id"] },
+						onDelete: "CASCADE",
+					},
+				],
+			},
+		})
+		assert.equal(cascade.rebuild, true)
+		assert.ok(
+			cascade.statements.includes(
+				"CREATE INDEX idx_posts_title ON posts (title)"
+			)
+		)
+
+		const indexes = diffSchema<Post>(current("posts"), {
+			name: "posts",
+			schema: {
+				...schema,
+				user_id: "INTEGER FOREIGN KEY REFERENCES users (id)",
+			},
+			indexes: [
+				{
+					name: "idx_posts_title",
+					tableName: "posts",
+					columns: ["title DESC"],
+				},
+			],
+		})
+		assert.equal(indexes.rebuild, false)
+		assert.deepEqual(indexes.statements, [
+			"DROP INDEX idx_posts_title",
+			"CREATE INDEX idx_posts_title ON posts (title DESC)",
+		])
+	})
+
+	test("rebuilds when table constraints or options change", () => {
+		db.exec(`
+      CREATE TABLE members (
+        team_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        PRIMARY KEY (team_id, user_id)
+      );
+    `)
+		const schema: Schema<{ team_id: number; user_id: number }> = {
+			team_id: "INTEGER NOT NULL",
+			user_id: "INTEGER NOT NULL",
+			$$primaryKey: ["team_id", "user_id"],
+		}
+		assert.deepEqual(
+			diffSchema(current("members"), { name: "members", schema }).changes,
+			[]
+		)
+
+		const plan = diffSchema(current("members"), {
+			name: "members",
+			schema: { ...schema, $$options: { strict: true } },
+		})
+		assert.equal(plan.rebuild, true)
+		assert.deepEqual(plan.changes, [{ type: "alterTable", table: "members" }])
+		assert.match(plan.statements[0], /\) STRICT$/)
+	})
+
+	test("rejects renames of unknown columns", () => {
+		assert.throws(
+			() =>
+				diffSchema(
+					current("users"),
+					{ name: "users", schema: { ...userSchema, age: "INTEGER" } },
+					{ renames: { age: "years" } }
+				),
+			(error: NodeSqliteError) => error.code === "ERR_SQLITE_SCHEMA"
+		)
+	})
+})
+
+describe("DB.syncSchema", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT
+      );
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users (id),
+        title TEXT
+      );
+      CREATE INDEX idx_users_name ON users (name);
+      CREATE TABLE audit (entry TEXT);
+      CREATE TRIGGER users_audit AFTER INSERT ON users BEGIN
+        INSERT INTO audit (entry) VALUES (new.name);
+      END;
+      CREATE VIEW user_emails AS SELECT email FROM users;
+      INSERT INTO users (email, name) VALUES ('a@example.com', 'alice'), ('b@example.com', NULL);
+      INSERT INTO posts (user_id, title) VALUES (1, 'hello');
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("creates missing tables and applies ALTER TABLE changes", () => {
+		const plans = db.syncSchema<[User, { id: number; label: string }]>([
+			{
+				name: "users",
+				schema: { ...userSchema, age: "INTEGER" },
+			},
+			{
+				name: "tags",
+				schema: { id: "INTEGER PRIMARY KEY", label: "TEXT NOT NULL" },
+			},
+		])
+		assert.deepEqual(
+			plans.map(p => p.changes.map(c => c.type)),
+			[["addColumn"], ["createTable"]]
+		)
+		const tables = db.introspect().tables
+		assert.ok(tables.some(t => t.name === "tags"))
+		assert.equal(tables.find(t => t.name === "users")?.schema.age, "INTEGER")
+	})
+
+	test("rebuilds tables keeping rows, indexes, triggers and views", () => {
+		const [plan] = db.syncSchema(
+			[
+				{
+					name: "users",
+					schema: {
+						id: "INTEGER PRIMARY KEY",
+						email: "TEXT NOT NULL UNIQUE",
+						display_name: "TEXT CHECK (length(display_name) > 0)",
+					},
+				},
+			],
+			{ renames: { users: { display_name: "name" } } }
+		)
+		assert.equal(plan.rebuild, true)
+
+		assert.deepEqual(
+			db.sql`SELECT id, email, display_name FROM users ORDER BY id`
+				.all()
+				.map(row => ({ ...(row as object) })),
+			[
+				{ id: 1, email: "a@example.com", display_name: "alice" },
+				{ id: 2, email: "b@example.com", display_name: null },
+			]
+		)
+
+		const users = db.introspect().tables.find(t => t.name === "users")
+		assert.deepEqual(users?.indexes[0].columns, ["display_name"])
+		assert.equal(users?.triggers[0].name, "users_audit")
+
+		db.exec(
+			"INSERT INTO users (email, display_name) VALUES ('c@example.com', 'carol')"
+		)
+		assert.equal(
+			db.sql`SELECT count(*) AS n FROM audit`.get<{ n: number }>()?.n,
+			3
+		)
+		assert.equal(
+			db.sql`SELECT count(*) AS n FROM user_emails`.get<{ n: number }>()?.n,
+			3
+		)
+		assert.equal(
+			db.sql`SELECT count(*) AS n FROM posts`.get<{ n: number }>()?.n,
+			1
+		)
+	})
+
+	test("rolls back a failed rebuild", () => {
+		assert.throws(
+			() =>
+				db.syncSchema<[User]>([
+					{
+						name: "users",
+						schema: { ...userSchema, name: "TEXT NOT NULL" },
+					},
+				]),
+			(error: NodeSqliteError) =>
+				error.code === "ERR_SQLITE_SCHEMA" && /NOT NULL/.test(error.message)
+		)
+		const users = db.introspect().tables.find(t => t.name === "users")
+		assert.equal(users?.schema.name, "TEXT")
+		assert.equal(users?.indexes.length, 1)
+		assert.equal(users?.triggers.length, 1)
+	})
+
+	test("rejects rebuilds that leave foreign key violations", () => {
+		assert.throws(
+			() =>
+				db.syncSchema<[Post]>([
+					{
+						name: "posts",
+						schema: {
+							id: "INTEGER PRIMARY KEY",
+							user_id: "INTEGER NOT NULL",
+							title: "TEXT",
+							$$foreignKeys: [
+								{
+									key: "user_id",
+									references: { table: "users", columns: ["email"] },
+								},
+							],
+						},
+					},
+				]),
+			(error: NodeSqliteError) => error.code === "ERR_SQLITE_SCHEMA"
+		)
+		const posts = db.introspect().tables.find(t => t.name === "posts")
+		assert.deepEqual(posts?.foreignKeys[0].references, {
+			table: "users",
+			columns: ["id"],
+		})
+		assert.equal(
+			db.sql`PRAGMA foreign_keys`.get<{ foreign_keys: number }>()?.foreign_keys,
+			1
+		)
+	})
+
+	test("supports dry runs and refuses production databases", () => {
+		const [plan] = db.syncSchema<[User]>(
+			[{ name: "users", schema: { ...userSchema, age: "INTEGER" } }],
+			{ dryRun: true }
+		)
+		assert.deepEqual(plan.statements, [
+			"ALTER TABLE users ADD COLUMN age INTEGER",
+		])
+		assert.equal(
+			db.introspect().tables.find(t => t.name === "users")?.schema.age,
+			undefined
+		)
+
+		const production = new DB({
+			location: ":memory:",
+			environment: "production",
+		})
+		try {
+			assert.throws(
+				() => production.syncSchema([{ name: "users", schema: userSchema }]),
+				(error: NodeSqliteError) => error.code === "ERR_SQLITE_SCHEMA"
+			)
+		} finally {
+			production.close()
+		}
+	})
+})
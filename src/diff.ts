@@ -0,0 +1,494 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {
+	buildAlterTableStatement,
+	buildDropStatement,
+	validateAlterTableDef,
+} from "#alter"
+import type { DB } from "#database"
+import { causedError, type NodeSqliteError } from "#errors"
+import type { ForeignKeyDef } from "#fk"
+import { buildIndexStatement, type IndexDef } from "#idx"
+import { type TableInfo, typeAffinity } from "#introspect"
+import {
+	buildSchema,
+	type ColumnDefinition,
+	columnEntries,
+	generatedColumns,
+	parseColumnDef,
+	parseCreateTable,
+} from "#schema"
+import type { DataRow, Schema, ValidColumnTypeMap } from "#types"
+
+/**
+ * The desired state of a table
+ */
+export interface TableDefinition<T extends DataRow = DataRow> {
+	name: string
+	schema: Schema<T>
+	/** Indexes the table should have; existing indexes are kept when omitted */
+	indexes?: IndexDef<T>[]
+}
+
+export interface DiffOptions {
+	/** Renamed columns as { newName: oldName } */
+	renames?: Record<string, string>
+}
+
+export interface SyncSchemaOptions {
+	/** Renamed columns per table as { table: { newName: oldName } } */
+	renames?: Record<string, Record<string, string>>
+	/** Return the plans without changing the database */
+	dryRun?: boolean
+}
+
+export type SchemaChange =
+	| { type: "createTable"; table: string }
+	| { type: "addColumn"; table: string; column: string }
+	| { type: "dropColumn"; table: string; column: string }
+	| { type: "renameColumn"; table: string; from: string; to: string }
+	| { type: "alterColumn"; table: string; column: string }
+	| { type: "alterForeignKeys"; table: string }
+	/** Composite keys, table constraints or table options changed */
+	| { type: "alterTable"; table: string }
+	| { type: "createIndex"; table: string; index: string }
+	| { type: "dropIndex"; table: string; index: string }
+
+/**
+ * Migration plan for a single table
+ */
+export interface SchemaDiff {
+	table: string
+	changes: SchemaChange[]
+	/**
+	 * True when the change cannot be made with ALTER TABLE and the table is
+	 * rebuilt. A rebuild must run with foreign key enforcement disabled.
+	 * @see https://www.sqlite.org/lang_altertable.html#otheralter
+	 */
+	rebuild: boolean
+	/** Statements to run in a single transaction */
+	statements: string[]
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+function schemaError(
+	errstr: string,
+	message: string,
+	error?: unknown
+): NodeSqliteError {
+	return causedError("ERR_SQLITE_SCHEMA", errstr, message, error)
+}
+
+function mentions(sql: string, column: string): boolean {
+	return new RegExp(`\\b${column}\\b`).test(sql)
+}
+
+function normalize(sql: string | undefined): string | undefined {
+	return sql?.replace(/\s+/g, " ").trim()
+}
+
+function sameColumn(a: ColumnDefinition, b: ColumnDefinition): boolean {
+	return (
+		typeAffinity(a.type) === typeAffinity(b.type) &&
+		a.primaryKey === b.primaryKey &&
+		a.autoincrement === b.autoincrement &&
+		a.notNull === b.notNull &&
+		a.unique === b.unique &&
+		normalize(a.defaultValue) === normalize(b.defaultValue) &&
+		(a.collate ?? "BINARY") === (b.collate ?? "BINARY") &&
+		a.checks.map(normalize).sort().join("\n") ===
+			b.checks.map(normalize).sort().join("\n") &&
+		normalize(a.generated?.expression) === normalize(b.generated?.expression) &&
+		a.generated?.storage === b.generated?.storage &&
+		JSON.stringify(a.onConflict ?? {}) === JSON.stringify(b.onConflict ?? {})
+	)
+}
+
+/**
+ * Checks the restrictions SQLite places on ALTER TABLE DROP COLUMN
+ * @see https://www.sqlite.org/lang_altertable.html#alter_table_drop_column
+ */
+function canDropColumn(
+	current: TableInfo,
+	def: ColumnDefinition,
+	column: string,
+	constraints: string[]
+): boolean {
+	const info = current.columns.find(col => col.name === column)
+	return !(
+		info?.primaryKey ||
+		def.unique ||
+		def.references ||
+		current.indexes.some(index => mentions(JSON.stringify(index), column)) ||
+		current.foreignKeys.some(fk =>
+			String(fk.key)
+				.split(",")
+				.some(key => key.trim() === column)
+		) ||
+		current.triggers.some(trigger => mentions(trigger.sql, column)) ||
+		constraints.some(constraint => mentions(constraint, column))
+	)
+}
+
+function foreignKeyId(
+	fk: ForeignKeyDef<DataRow>,
+	rename = (key: string) => key
+) {
+	const key = String(fk.key)
+		.split(",")
+		.map(k => rename(k.trim()))
+		.join(",")
+	return [
+		key,
+		fk.references.table,
+		fk.references.columns.join(","),
+		fk.onDelete ?? "NO ACTION",
+		fk.onUpdate ?? "NO ACTION",
+	].join("|")
+}
+
+function indexId(index: IndexDef<DataRow>): string {
+	return buildIndexStatement({
+		...index,
+		options: { unique: index.options?.unique },
+	})
+		.replace(/\s+ASC\b/gi, "")
+		.replace(/\s+/g, " ")
+		.toLowerCase()
+}
+
+// Table constraints and options compared as text, with column names mapped
+// through `rename`
+function tableConstraintsId(
+	schema: Schema<DataRow>,
+	rename = (column: string) => column
+): string {
+	const columns = (list: string[]) => list.map(rename).join(",")
+	return JSON.stringify([
+		columns(schema.$$primaryKey ?? []),
+		(schema.$$unique ?? []).map(columns).sort(),
+		(schema.$$checks ?? []).map(check => normalize(check)).sort(),
+		Boolean(schema.$$options?.strict),
+		Boolean(schema.$$options?.withoutRowid),
+	])
+}
+
+/**
+ * Compares a table against its desired schema and plans the statements that
+ * migrate it. Columns are added, dropped and renamed with ALTER TABLE where
+ * SQLite allows it; other changes rebuild the table with the 12-step
+ * procedure, copying rows and recreating indexes and triggers.
+ * @param current Introspected table, or undefined if it does not exist yet
+ * @param desired Desired table definition
+ * @param options Column renames
+ * @returns The migration plan
+ * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if a rename refers to
+ * an unknown column
+ * @example
+ * const current = db.introspect().tables.find(t => t.name === "users")
+ * const plan = diffSchema(current, { name: "users", schema }, {
+ *   renames: { full_name: "name" },
+ * })
+ */
+export function diffSchema<T extends DataRow>(
+	current: TableInfo | undefined,
+	desired: TableDefinition<T>,
+	options: DiffOptions = {}
+): SchemaDiff {
+	const table = desired.name
+	if (!identifierRegex.test(table)) {
+		throw schemaError(
+			"Invalid table name",
+			`Table name must be a valid identifier: ${table}`
+		)
+	}
+
+	const schemaSql = buildSchema(desired.schema)
+	const desiredIndexes = (desired.indexes ?? []) as IndexDef<DataRow>[]
+
+	if (!current) {
+		return {
+			table,
+			changes: [
+				{ type: "createTable", table },
+				...desiredIndexes.map(index => ({
+					type: "createIndex" as const,
+					table,
+					index: index.name,
+				})),
+			],
+			rebuild: false,
+			statements: [
+				`CREATE TABLE ${table} ${schemaSql}`,
+				...desiredIndexes.map(buildIndexStatement),
+			],
+		}
+	}
+
+	const renames = options.renames ?? {}
+	const sourceOf = (column: string) => renames[column] ?? column
+	const targetOf = (column: string) =>
+		Object.keys(renames).find(key => renames[key] === column) ?? column
+
+	const parsed = parseCreateTable(current.sql)
+	const currentDef = (column: string) =>
+		parseColumnDef(parsed.columns[column] ?? "")
+	const currentNames = current.columns.map(col => col.name)
+	const desiredColumns = columnEntries(desired.schema)
+
+	const changes: SchemaChange[] = []
+	let rebuild = false
+
+	const added: [string, string][] = []
+	const renamed: [string, string][] = []
+	for (const [column, def] of desiredColumns) {
+		const source = sourceOf(column)
+		if (!currentNames.includes(source)) {
+			if (source !== column) {
+				throw schemaError(
+					"Invalid rename",
+					`Cannot rename ${source} to ${column}: ${table}.${source} does not exist`
+				)
+			}
+			changes.push({ type: "addColumn", table, column })
+			added.push([column, def])
+			// Covers SQLite's ADD COLUMN restrictions and STRICT-only type names
+			rebuild ||=
+				validateAlterTableDef({
+					tableName: table,
+					addColumn: { name: column, definition: def },
+				}).length > 0
+			continue
+		}
+
+		if (source !== column) {
+			changes.push({ type: "renameColumn", table, from: source, to: column })
+			renamed.push([source, column])
+		}
+		if (!sameColumn(currentDef(source), parseColumnDef(def))) {
+			changes.push({ type: "alterColumn", table, column })
+			rebuild = true
+		}
+	}
+
+	const dropped = currentNames.filter(
+		name => !desiredColumns.some(([column]) => sourceOf(column) === name)
+	)
+	for (const column of dropped) {
+		changes.push({ type: "dropColumn", table, column })
+		rebuild ||= !canDropColumn(
+			current,
+			currentDef(column),
+			column,
+			parsed.constraints
+		)
+	}
+
+	// Inline REFERENCES constraints are reported as foreign keys too
+	const desiredForeignKeys = [
+		...(desired.schema.$$foreignKeys ?? []),
+		...desiredColumns.flatMap(([column, def]) => {
+			const { references } = parseColumnDef(def)
+			return references ? [{ key: column, references }] : []
+		}),
+	] as ForeignKeyDef<DataRow>[]
+	const currentFkIds = current.foreignKeys
+		.map(fk => foreignKeyId(fk, targetOf))
+		.sort()
+	const desiredFkIds = desiredForeignKeys.map(fk => foreignKeyId(fk)).sort()
+	if (currentFkIds.join("\n") !== desiredFkIds.join("\n")) {
+		changes.push({ type: "alterForeignKeys", table })
+		rebuild = true
+	}
+
+	const desiredConstraints = tableConstraintsId(
+		desired.schema as Schema<DataRow>
+	)
+	if (tableConstraintsId(current.schema, targetOf) !== desiredConstraints) {
+		changes.push({ type: "alterTable", table })
+		rebuild = true
+	}
+
+	// Without explicit indexes the current ones are kept, minus those on
+	// dropped columns
+	const keptIndexes = desired.indexes
+		? desiredIndexes
+		: current.indexes.filter(
+				index =>
+					!dropped.some(column => mentions(JSON.stringify(index), column))
+			)
+	const droppedIndexes = current.indexes.filter(index => {
+		const kept = keptIndexes.find(k => k.name === index.name)
+		return !kept || (desired.indexes && indexId(kept) !== indexId(index))
+	})
+	const createdIndexes = keptIndexes.filter(index => {
+		const existing = current.indexes.find(c => c.name === index.name)
+		return !existing || droppedIndexes.includes(existing)
+	})
+	for (const index of droppedIndexes) {
+		changes.push({ type: "dropIndex", table, index: index.name })
+	}
+	for (const index of createdIndexes) {
+		changes.push({ type: "createIndex", table, index: index.name })
+	}
+
+	if (!rebuild) {
+		return {
+			table,
+			changes,
+			rebuild,
+			statements: [
+				...droppedIndexes.map(index =>
+					buildDropStatement({ type: "INDEX", name: index.name })
+				),
+				...renamed.map(([from, to]) =>
+					buildAlterTableStatement<DataRow>({
+						tableName: table,
+						renameColumn: { from, to },
+					})
+				),
+				...dropped.map(column =>
+					buildAlterTableStatement<DataRow>({
+						tableName: table,
+						dropColumn: column,
+					})
+				),
+				...added.map(([name, definition]) =>
+					buildAlterTableStatement<DataRow>({
+						tableName: table,
+						addColumn: {
+							name,
+							definition: definition as ValidColumnTypeMap<unknown>,
+						},
+					})
+				),
+				...createdIndexes.map(buildIndexStatement),
+			],
+		}
+	}
+
+	// Indexes and triggers read from the table still name the old columns
+	const renameColumns = (sql: string) =>
+		renamed.reduce(
+			(result, [from, to]) =>
+				result.replace(new RegExp(`\\b${from}\\b`, "g"), to),
+			sql
+		)
+	const keptIndex = (index: IndexDef<DataRow>): IndexDef<DataRow> =>
+		desired.indexes
+			? index
+			: {
+					...index,
+					columns: index.columns.map(
+						renameColumns
+					) as IndexDef<DataRow>["columns"],
+					...(index.where && {
+						where: renameColumns(index.where) as IndexDef<DataRow>["where"],
+					}),
+				}
+
+	// Generated columns are recomputed instead of copied
+	const generated = generatedColumns(desired.schema) as string[]
+	const copied = desiredColumns
+		.map(([column]) => column)
+		.filter(
+			column =>
+				currentNames.includes(sourceOf(column)) && !generated.includes(column)
+		)
+	const temp = `new_${table}`
+
+	return {
+		table,
+		changes,
+		rebuild,
+		statements: [
+			`CREATE TABLE ${temp} ${schemaSql}`,
+			...(copied.length > 0
+				? [
+						`INSERT INTO ${temp} (${copied.join(", ")}) SELECT ${copied.map(sourceOf).join(", ")} FROM ${table}`,
+					]
+				: []),
+			buildDropStatement({ type: "TABLE", name: table }),
+			// Keep views that reference the table from being re-checked mid-rebuild
+			"PRAGMA legacy_alter_table = ON",
+			buildAlterTableStatement<DataRow>({ tableName: temp, renameTo: table }),
+			"PRAGMA legacy_alter_table = OFF",
+			...keptIndexes.map(index => buildIndexStatement(keptIndex(index))),
+			...current.triggers.map(trigger => renameColumns(trigger.sql)),
+		],
+	}
+}
+
+/**
+ * Brings tables in line with their definitions. Intended for development,
+ * use migrations to change production databases.
+ * @param db Database to change
+ * @param tables Desired table definitions, each typed by its own row type
+ * @param options Column renames and dry-run flag
+ * @returns The plan for each table
+ * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if a plan fails to
+ * apply or leaves foreign key violations
+ */
+export function syncSchema<T extends DataRow[]>(
+	db: DB,
+	tables: [...{ [K in keyof T]: TableDefinition<T[K]> }],
+	options: SyncSchemaOptions = {}
+): SchemaDiff[] {
+	const { tables: current } = db.introspect()
+	const plans = tables.map(table =>
+		diffSchema(
+			current.find(t => t.name === table.name),
+			table,
+			{ renames: options.renames?.[table.name] }
+		)
+	)
+
+	if (options.dryRun) {
+		return plans
+	}
+
+	for (const plan of plans.filter(p => p.statements.length > 0)) {
+		const foreignKeys =
+			plan.rebuild &&
+			db.sql`PRAGMA foreign_keys`.get<{ foreign_keys: number }>()
+				?.foreign_keys === 1
+
+		// foreign_keys cannot change inside a transaction
+		if (foreignKeys) {
+			db.exec("PRAGMA foreign_keys = OFF")
+		}
+		try {
+			db.transaction(() => {
+				for (const statement of plan.statements) {
+					db.exec(statement)
+				}
+				if (foreignKeys) {
+					const violations = db.sql<{ table: string }>`
+            SELECT * FROM pragma_foreign_key_check(${"$table"})
+          `.all({ table: plan.table })
+					if (violations.length > 0) {
+						throw schemaError(
+							"Foreign key violation",
+							`Rebuilding ${plan.table} left ${violations.length} foreign key violation(s)`
+						)
+					}
+				}
+			})
+		} catch (error) {
+			throw schemaError(
+				"Schema sync failed",
+				`Failed to sync table ${plan.table}`,
+				error
+			)
+		} finally {
+			if (foreignKeys) {
+				db.exec("PRAGMA foreign_keys = ON")
+			}
+		}
+	}
+
+	return plans
+}
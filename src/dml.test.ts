@@ -0,0 +1,262 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { validateContextCombination, validateSqlContext } from "#context"
+import { DB } from "#database"
+import { raw } from "#sql"
+
+interface Order {
+	id: number
+	userId: number
+	total: number
+}
+
+interface User {
+	id: number
+	name: string
+	spent: number
+}
+
+let db: DB
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec(`
+    CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, spent REAL DEFAULT 0);
+    CREATE TABLE orders (id INTEGER PRIMARY KEY, userId INTEGER, total REAL);
+    CREATE TABLE archive (id INTEGER PRIMARY KEY, userId INTEGER, total REAL);
+    INSERT INTO users (name) VALUES ('Ann'), ('Bob'), ('Cid');
+    INSERT INTO orders (userId, total) VALUES (1, 10), (1, 30), (2, 5), (2, 25);
+  `)
+})
+
+afterEach(() => {
+	db.close()
+})
+
+const flat = (sql: string) => sql.replace(/\s+/g, " ").trim()
+
+describe("DELETE, INSERT ... SELECT and UPDATE ... FROM contexts", () => {
+	test("deletes rows with where and returning", () => {
+		const query = db.sql<Order>`${{
+			deleteFrom: "orders",
+			where: "total < $total",
+			returning: ["id", "total"],
+		}}`
+		const params = { total: 20 } as Order
+
+		assert.equal(
+			flat(query.sourceSQL(params)),
+			"DELETE FROM orders WHERE total < $total RETURNING id, total"
+		)
+		assert.deepEqual(
+			query.all<Pick<Order, "id" | "total">>(params).map(row => ({ ...row })),
+			[
+				{ id: 1, total: 10 },
+				{ id: 3, total: 5 },
+			]
+		)
+		assert.deepEqual(
+			db.sql`SELECT id FROM orders ORDER BY id`.all().map(row => ({ ...row })),
+			[{ id: 2 }, { id: 4 }]
+		)
+	})
+
+	test("inserts the rows of an interpolated select", () => {
+		const bigOrders = db.sql<Order>`
+      SELECT ${{ columns: ["id", "userId", "total"] }} FROM orders
+      ${{ where: "total >= $total" }}
+    `
+		const query = db.sql<Order>`${{
+			insertSelect: {
+				into: "archive",
+				columns: ["id", "userId", "total"],
+				select: bigOrders,
+			},
+			returning: ["id"],
+		}}`
+		const params = { total: 20 } as Order
+
+		assert.equal(
+			flat(query.sourceSQL(params)),
+			"INSERT INTO archive (id, userId, total) SELECT id, userId, total FROM orders WHERE total >= $total RETURNING id"
+		)
+		assert.deepEqual(
+			query.all<Pick<Order, "id">>(params).map(row => row.id),
+			[2, 4]
+		)
+	})
+
+	test("expands IN lists in the select with the outer params", () => {
+		type Params = Order & { ids: number[] }
+		const picked = db.sql<Params>`
+      SELECT ${{ columns: ["id", "userId", "total"] }} FROM orders
+      ${{ where: "id IN $ids" }}
+    `
+		const insert = db.sql<Params>`${{
+			insertSelect: {
+				into: "archive",
+				columns: ["id", "userId", "total"],
+				select: picked,
+			},
+		}}`
+		const params = { ids: [1, 3] } as Params
+
+		assert.match(insert.sourceSQL(params), /id IN \(\$ids_0, \$ids_1\)/)
+		assert.equal(insert.run(params).changes, 2)
+
+		const totals = db.sql<Params>`
+      SELECT ${{ columns: ["userId", "sum(total) as total"] }} FROM orders
+      ${{ where: "id IN $ids", groupBy: ["userId"] }}
+    `
+		const update = db.sql<User & { ids: number[] }>`
+      UPDATE users
+      ${{
+				set: { spent: raw`totals.total` },
+				from: { select: totals, as: "totals" },
+				where: ["users.id", "=", raw`totals.userId`],
+			}}
+    `
+		update.run({ ids: [2, 4] } as User & { ids: number[] })
+		assert.deepEqual(
+			db.sql`SELECT spent FROM users ORDER BY id`.all().map(row => row.spent),
+			[30, 25, 0]
+		)
+	})
+
+	test("checks the select's columns against the target columns", () => {
+		const select = db.sql<Order>`
+      SELECT ${{ columns: ["id", "userId", "total"] }} FROM orders
+    `
+		const errors = validateSqlContext<Order>({
+			insertSelect: { into: "archive", columns: ["id", "total"], select },
+		})
+		assert.deepEqual(
+			errors.map(err => err.path),
+			["insertSelect.select"]
+		)
+		assert.match(errors[0].message, /returns 3 columns but 2 target columns/)
+
+		assert.throws(
+			() =>
+				db.sql<Order>`${{
+					insertSelect: { into: "archive", columns: ["id", "total"], select },
+				}}`.run(),
+			{ code: "ERR_SQLITE_MUTATE", message: /target columns/ }
+		)
+
+		const swapped = db.sql<Order>`
+      SELECT ${{ columns: ["id", "total", "userId"] }} FROM orders
+    `
+		assert.deepEqual(
+			validateSqlContext<Order>({
+				insertSelect: {
+					into: "archive",
+					columns: ["id", "userId", "total"],
+					select: swapped,
+				},
+			}).map(err => err.message),
+			[
+				"select column 2 is total but its target column is userId; alias it as userId",
+				"select column 3 is userId but its target column is total; alias it as total",
+			]
+		)
+
+		const renamed = db.sql`SELECT o.id, userId AS total, total + 1 FROM orders o`
+		assert.deepEqual(
+			validateSqlContext<Order>({
+				insertSelect: {
+					into: "archive",
+					columns: ["id", "total", "userId"],
+					select: renamed,
+				},
+			}),
+			[]
+		)
+
+		assert.deepEqual(
+			validateSqlContext({
+				insertSelect: {
+					into: "archive",
+					columns: ["id", "id"],
+					select: "SELECT id FROM orders",
+				},
+			}).map(err => err.path),
+			["insertSelect.columns", "insertSelect.select"]
+		)
+	})
+
+	test("updates rows from a correlated select", () => {
+		const totals = db.sql<Order>`
+      SELECT ${{ columns: ["userId", "sum(total) as total"] }} FROM orders
+      ${{ groupBy: ["userId"] }}
+    `
+		const query = db.sql<User>`
+      UPDATE users
+      ${{
+				set: { spent: raw`totals.total` },
+				from: { select: totals, as: "totals" },
+				where: ["users.id", "=", raw`totals.userId`],
+				returning: ["id", "spent"],
+			}}
+    `
+
+		assert.equal(
+			flat(query.sourceSQL({} as User)),
+			"UPDATE users SET spent = totals.total FROM ( SELECT userId, sum(total) AS total FROM orders GROUP BY userId ) AS totals WHERE users.id = totals.userId RETURNING id, spent"
+		)
+		query.run()
+		assert.deepEqual(
+			db.sql`SELECT name, spent FROM users ORDER BY id`
+				.all()
+				.map(row => ({ ...row })),
+			[
+				{ name: "Ann", spent: 40 },
+				{ name: "Bob", spent: 30 },
+				{ name: "Cid", spent: 0 },
+			]
+		)
+	})
+
+	test("rejects clauses the statement forms do not take", () => {
+		const select = db.sql`SELECT id FROM orders`
+		const messages = (
+			contexts: Parameters<typeof validateContextCombination>[0]
+		) => validateContextCombination(contexts).map(err => err.message)
+
+		assert.deepEqual(
+			messages([{ deleteFrom: "orders" }, { where: "id = $id", limit: 1 }]),
+			[
+				'Clause "deleteFrom" can only be combined with "where" and "returning", not "limit"',
+			]
+		)
+		assert.deepEqual(
+			messages([
+				{ insertSelect: { into: "archive", columns: ["id"], select } },
+				{ where: "id = $id" },
+			]),
+			[
+				'Clause "insertSelect" can only be combined with "returning", not "where"',
+			]
+		)
+		assert.deepEqual(messages([{ from: "orders", where: "id = $id" }]), [
+			'Clause "from" requires a "set" clause',
+		])
+		assert.deepEqual(
+			validateSqlContext({
+				set: { spent: "$spent" },
+				from: { select },
+			}).map(err => err.path),
+			["from.as"]
+		)
+		assert.deepEqual(
+			validateSqlContext({ deleteFrom: "orders; DROP TABLE users" }).map(
+				err => err.path
+			),
+			["deleteFrom"]
+		)
+	})
+})
@@ -0,0 +1,280 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {
+	statementContexts,
+	statementResultColumns,
+	validateStatementContexts,
+} from "#context"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { type NestedSql, isXStatementSync, renderNestedStatements } from "#sql"
+import type {
+	AnyStatement,
+	DataRow,
+	InsertSelectClause,
+	UpdateFromClause,
+} from "#types"
+import { type ValidationError, validationErr } from "#validate"
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+// A table name, optionally qualified by its schema, e.g. "main.users"
+const tableRegex = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)?$/
+
+// Clauses that make a statement something other than a select
+const nonSelectClauses = [
+	"deleteFrom",
+	"insertSelect",
+	"values",
+	"set",
+	"returning",
+] as const
+
+const prefixPath = (errors: ValidationError[], path: string) =>
+	errors.map(err => ({
+		...err,
+		path: `${path}${err.path ? `.${err.path}` : ""}`,
+	}))
+
+function validateTable(value: unknown, path?: string): ValidationError[] {
+	if (typeof value !== "string" || !tableRegex.test(value)) {
+		return [
+			validationErr({ msg: `Invalid table name: ${String(value)}`, path }),
+		]
+	}
+	return []
+}
+
+function validateSelect(value: unknown, path: string): ValidationError[] {
+	if (!isXStatementSync(value)) {
+		return [
+			validationErr({
+				msg: "select must be an interpolated SQL statement",
+				path,
+			}),
+		]
+	}
+
+	const errors: ValidationError[] = prefixPath(
+		validateStatementContexts(value),
+		path
+	)
+	const contexts = statementContexts(value)
+	for (const clause of nonSelectClauses) {
+		if (contexts.some(context => context[clause] !== undefined)) {
+			errors.push(
+				validationErr({
+					msg: `select must be a SELECT statement, not use ${clause}`,
+					path: `${path}.${clause}`,
+				})
+			)
+		}
+	}
+	return errors
+}
+
+export function validateDeleteFrom(value: unknown): ValidationError[] {
+	return validateTable(value)
+}
+
+export function validateInsertSelectClause(value: unknown): ValidationError[] {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return [validationErr({ msg: "insertSelect must be an object" })]
+	}
+
+	const { into, columns, select, ...rest } = value as Record<string, unknown>
+	const errors: ValidationError[] = Object.keys(rest).map(key =>
+		validationErr({ msg: `Unknown insertSelect property: ${key}`, path: key })
+	)
+
+	errors.push(...validateTable(into, "into"))
+
+	if (
+		!Array.isArray(columns) ||
+		columns.length === 0 ||
+		!columns.every(col => typeof col === "string" && identifierRegex.test(col))
+	) {
+		errors.push(
+			validationErr({
+				msg: "columns must be a non-empty array of identifiers",
+				path: "columns",
+			})
+		)
+	} else {
+		const duplicates = columns.filter(
+			(col, index) => columns.indexOf(col) !== index
+		)
+		if (duplicates.length > 0) {
+			errors.push(
+				validationErr({
+					msg: `Duplicate target columns: ${duplicates.join(", ")}`,
+					path: "columns",
+				})
+			)
+		}
+	}
+
+	const selectErrors = validateSelect(select, "select")
+	errors.push(...selectErrors)
+
+	// Rows are inserted by position, so the select must return one value for
+	// each target column, and a named result column must be named after its
+	// target so a misordered select is caught
+	const resultColumns =
+		selectErrors.length === 0
+			? statementResultColumns(select as AnyStatement)
+			: undefined
+	if (!resultColumns || !Array.isArray(columns)) {
+		return errors
+	}
+	if (resultColumns.length !== columns.length) {
+		errors.push(
+			validationErr({
+				msg: `select returns ${resultColumns.length} columns but ${columns.length} target columns are listed`,
+				path: "select",
+			})
+		)
+		return errors
+	}
+	for (const [index, name] of resultColumns.entries()) {
+		const target = String(columns[index])
+		if (name !== undefined && name.toLowerCase() !== target.toLowerCase()) {
+			errors.push(
+				validationErr({
+					msg: `select column ${index + 1} is ${name} but its target column is ${target}; alias it as ${target}`,
+					path: "select",
+				})
+			)
+		}
+	}
+
+	return errors
+}
+
+export function validateUpdateFromClause(value: unknown): ValidationError[] {
+	if (typeof value === "string") {
+		return validateTable(value)
+	}
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return [
+			validationErr({
+				msg: "from must be a table name or an object with a table or select",
+			}),
+		]
+	}
+
+	const { table, select, as, ...rest } = value as Record<string, unknown>
+	const errors: ValidationError[] = Object.keys(rest).map(key =>
+		validationErr({ msg: `Unknown from property: ${key}`, path: key })
+	)
+
+	if ((table === undefined) === (select === undefined)) {
+		errors.push(
+			validationErr({ msg: "from must have exactly one of table and select" })
+		)
+	} else if (table !== undefined) {
+		errors.push(...validateTable(table, "table"))
+	} else {
+		errors.push(...validateSelect(select, "select"))
+	}
+
+	// SQLite requires a subquery in FROM to be named for the where clause to
+	// refer to its columns
+	if (select !== undefined && as === undefined) {
+		errors.push(validationErr({ msg: "A select needs an alias", path: "as" }))
+	} else if (
+		as !== undefined &&
+		(typeof as !== "string" || !identifierRegex.test(as))
+	) {
+		errors.push(
+			validationErr({ msg: "as must be a valid identifier", path: "as" })
+		)
+	}
+
+	return errors
+}
+
+function throwInvalid(what: string, errors: ValidationError[]): never {
+	throw new NodeSqliteError(
+		"ERR_SQLITE_CONTEXT",
+		SqlitePrimaryResultCode.SQLITE_ERROR,
+		`Invalid ${what}`,
+		errors.map(e => e.message).join("\n"),
+		undefined
+	)
+}
+
+/**
+ * Builds the head of a DELETE statement, e.g. "DELETE FROM users"
+ * @throws {NodeSqliteError} With code ERR_SQLITE_CONTEXT if the table name
+ * is invalid
+ */
+export function buildDeleteFromStatement(table: string): string {
+	const errors = validateDeleteFrom(table)
+	if (errors.length > 0) {
+		throwInvalid("deleteFrom", errors)
+	}
+	return `DELETE FROM ${table}`
+}
+
+/**
+ * Builds an INSERT ... SELECT statement. The select is rendered with the
+ * params of the outer statement, which binds its placeholders and expanded
+ * IN lists.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_CONTEXT if the clause is
+ * invalid or the select's columns do not match the target columns
+ */
+export function buildInsertSelectStatement<P extends DataRow>(
+	clause: InsertSelectClause<P>,
+	params: DataRow = {}
+): NestedSql {
+	const errors = validateInsertSelectClause(clause)
+	if (errors.length > 0) {
+		throwInvalid("insertSelect", errors)
+	}
+
+	const {
+		sql: [select],
+		...nested
+	} = renderNestedStatements([clause.select], params)
+	return {
+		sql: `INSERT INTO ${clause.into} (${clause.columns.join(", ")})\n${select}`,
+		...nested,
+	}
+}
+
+/**
+ * Builds the FROM clause of an UPDATE ... FROM statement. A select is
+ * rendered with the params of the outer statement, which binds its
+ * placeholders and expanded IN lists.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_CONTEXT if the clause is
+ * invalid
+ */
+export function buildUpdateFromStatement(
+	clause: UpdateFromClause,
+	params: DataRow = {}
+): NestedSql {
+	const errors = validateUpdateFromClause(clause)
+	if (errors.length > 0) {
+		throwInvalid("from", errors)
+	}
+
+	if (typeof clause === "string") {
+		return { sql: `FROM ${clause}`, parameterOperators: [], expandedParams: {} }
+	}
+	if ("table" in clause) {
+		const alias = clause.as ? ` AS ${clause.as}` : ""
+		return {
+			sql: `FROM ${clause.table}${alias}`,
+			parameterOperators: [],
+			expandedParams: {},
+		}
+	}
+
+	const {
+		sql: [select],
+		...nested
+	} = renderNestedStatements([clause.select], params)
+	return { sql: `FROM (\n${select}\n) AS ${clause.as}`, ...nested }
+}
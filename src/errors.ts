@@ -128,3 +128,57 @@ export function isNodeSqliteError(error: unknown): error is NodeSqliteError {
 			error.code === "ERR_SQLITE_ERROR")
 	)
 }
+
+/**
+ * Creates an error with the given code for a failed operation. Transaction
+ * errors are unwrapped so the cause points at the failing statement, and the
+ * cause's message and result code are carried over.
+ */
+export function causedError(
+	code: string,
+	errstr: string,
+	message: string,
+	error?: unknown
+): NodeSqliteError {
+	const cause =
+		error instanceof NodeSqliteError &&
+		error.code === "ERR_SQLITE_TRANSACTION" &&
+		error.originalError
+			? error.originalError
+			: error instanceof Error
+				? error
+				: undefined
+
+	return new NodeSqliteError(
+		code,
+		cause instanceof NodeSqliteError
+			? cause.errcode
+			: SqlitePrimaryResultCode.SQLITE_ERROR,
+		errstr,
+		cause ? `${message}: ${cause.message}` : message,
+		cause
+	)
+}
+
+/**
+ * Creates the error raised when a statement is stopped by a timeout, an
+ * AbortSignal or an interrupt() call
+ */
+export function interruptError(
+	message: string,
+	cause?: unknown
+): NodeSqliteError {
+	return new NodeSqliteError(
+		"ERR_SQLITE_INTERRUPT",
+		SqlitePrimaryResultCode.SQLITE_INTERRUPT,
+		"Statement interrupted",
+		message,
+		cause instanceof Error ? cause : undefined
+	)
+}
+
+export function isInterruptError(error: unknown): error is NodeSqliteError {
+	return (
+		error instanceof NodeSqliteError && error.code === "ERR_SQLITE_INTERRUPT"
+	)
+}
@@ -0,0 +1,232 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { validateSqlContext } from "#context"
+import { DB } from "#database"
+import { bm25, buildFtsStatements, highlight, snippet } from "#fts"
+import { validateWhereClause } from "#where"
+
+interface Post {
+	id: number
+	title: string
+	body: string
+}
+
+type Search = Post & { rowid: number; query: string; rank: number }
+
+describe("buildFtsStatements", () => {
+	test("builds the table with tokenizer, prefix and content options", () => {
+		const [create, ...rest] = buildFtsStatements<Post>({
+			name: "posts_fts",
+			columns: ["title", "body", "id UNINDEXED"],
+			tokenize: "porter unicode61",
+			prefix: [2, 3],
+			content: "",
+		})
+		assert.equal(
+			create,
+			"CREATE VIRTUAL TABLE posts_fts USING fts5(title, body, id UNINDEXED, tokenize = 'porter unicode61', prefix = '2 3', content = '')"
+		)
+		assert.deepEqual(rest, [])
+	})
+
+	test("adds sync triggers and a rebuild for external content", () => {
+		const statements = buildFtsStatements<Post>({
+			name: "posts_fts",
+			columns: ["title", "body"],
+			content: "posts",
+			contentRowid: "id",
+		})
+		assert.equal(statements.length, 5)
+		assert.match(
+			statements[1],
+			/^CREATE TRIGGER posts_fts_ai AFTER INSERT ON posts/
+		)
+		assert.match(
+			statements[2],
+			/VALUES \('delete', old\.id, old\.title, old\.body\)/
+		)
+		assert.equal(
+			statements[4],
+			"INSERT INTO posts_fts (posts_fts) VALUES ('rebuild')"
+		)
+
+		const withoutTriggers = buildFtsStatements<Post>({
+			name: "posts_fts",
+			columns: ["title"],
+			content: "posts",
+			triggers: false,
+			ifNotExists: true,
+		})
+		assert.deepEqual(withoutTriggers, [
+			"CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(title, content = 'posts')",
+		])
+	})
+
+	test("rejects invalid definitions", () => {
+		const invalid = [
+			{ name: "posts fts", columns: ["title"] },
+			{ name: "posts_fts", columns: [] },
+			{ name: "posts_fts", columns: ["title; DROP TABLE posts"] },
+			{ name: "posts_fts", columns: ["title"], tokenize: "icu" },
+			{ name: "posts_fts", columns: ["title"], prefix: 0 },
+			{ name: "posts_fts", columns: ["title"], contentRowid: "id" },
+		]
+		for (const def of invalid) {
+			assert.throws(
+				() =>
+					buildFtsStatements(def as Parameters<typeof buildFtsStatements>[0]),
+				{ code: "ERR_SQLITE_SCHEMA" }
+			)
+		}
+	})
+})
+
+describe("FTS column helpers", () => {
+	test("build auxiliary function calls", () => {
+		assert.equal(bm25("posts_fts"), "bm25(posts_fts)")
+		assert.equal(
+			bm25("posts_fts", { weights: [10, 1.5], as: "score" }),
+			"bm25(posts_fts, 10, 1.5) AS score"
+		)
+		assert.equal(
+			highlight("posts_fts", { column: 0, open: "[", close: "]" }),
+			"highlight(posts_fts, 0, '[', ']')"
+		)
+		assert.equal(
+			snippet("posts_fts", { column: 1, ellipsis: "…", tokens: 8, as: "s" }),
+			"snippet(posts_fts, 1, '<b>', '</b>', '…', 8) AS s"
+		)
+		assert.equal(
+			highlight("posts_fts", { column: 0, open: "<a title='x'>" }),
+			"highlight(posts_fts, 0, '<a title=''x''>', '</b>')"
+		)
+	})
+
+	test("reject names that are not identifiers", () => {
+		assert.throws(() => bm25("posts_fts) --"), { code: "ERR_SQLITE_PARAM" })
+		assert.throws(() => highlight("posts_fts", { column: 0, as: "a b" }), {
+			code: "ERR_SQLITE_PARAM",
+		})
+	})
+
+	test("are accepted in the columns context and MATCH in where", () => {
+		assert.deepEqual(
+			validateSqlContext<Post>({
+				columns: ["id", bm25("posts_fts"), snippet("posts_fts", { column: 1 })],
+			}),
+			[]
+		)
+		assert.equal(
+			validateSqlContext<Post>({ columns: ["bm25(posts_fts); --"] })[0]?.path,
+			"columns[0]"
+		)
+		assert.deepEqual(validateWhereClause<Search>("posts_fts MATCH $query"), [])
+		assert.equal(
+			validateWhereClause<Search>("posts_fts MATCH 'x'" as "title MATCH $query")
+				.length,
+			1
+		)
+	})
+})
+
+describe("DB.createFtsTable", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:", environment: "testing" })
+		db.exec(`
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        body TEXT NOT NULL
+      );
+      INSERT INTO posts (title, body) VALUES
+        ('Hello world', 'The first post on this blog'),
+        ('Cooking pasta', 'Boil water, add salt and pasta');
+    `)
+		db.createFtsTable<Post>({
+			name: "posts_fts",
+			columns: ["title", "body"],
+			content: "posts",
+			contentRowid: "id",
+			tokenize: "porter unicode61",
+			prefix: 2,
+		})
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	const search = (query: string) =>
+		db.sql<Search>`
+      SELECT ${{
+				columns: [
+					"rowid",
+					bm25("posts_fts", { weights: [10, 1], as: "score" }),
+					highlight("posts_fts", {
+						column: 0,
+						open: "[",
+						close: "]",
+						as: "title",
+					}),
+				],
+			}}
+      FROM posts_fts
+      ${{ where: "posts_fts MATCH $query", orderBy: { rank: "ASC" } }}
+    `
+			.all<{ rowid: number; score: number; title: string }>({
+				query,
+			} as Search)
+			.map(row => ({ ...row }))
+
+	test("indexes rows already in the content table", () => {
+		const [hit] = search("hello")
+		assert.equal(hit.rowid, 1)
+		assert.equal(hit.title, "[Hello] world")
+		assert.ok(hit.score < 0)
+		assert.deepEqual(
+			search("boiling").map(row => row.rowid),
+			[2]
+		)
+	})
+
+	test("keeps the index in sync with the content table", () => {
+		db.exec(`
+      INSERT INTO posts (title, body) VALUES ('Hello again', 'A second greeting');
+      UPDATE posts SET title = 'Goodbye world' WHERE id = 1;
+      DELETE FROM posts WHERE id = 2;
+    `)
+		assert.deepEqual(
+			search("hello").map(row => row.title),
+			["[Hello] again"]
+		)
+		assert.deepEqual(search("pasta"), [])
+		assert.deepEqual(
+			search("goo*").map(row => row.rowid),
+			[1]
+		)
+	})
+
+	test("matches a single column and builds snippets", () => {
+		const rows = db.sql<Search>`
+      SELECT ${{ columns: [snippet("posts_fts", { column: 1, tokens: 3, as: "excerpt" })] }}
+      FROM posts_fts
+      ${{ where: "body MATCH $query" }}
+    `.all<{ excerpt: string }>({ query: "salt" } as Search)
+		assert.deepEqual(
+			rows.map(row => row.excerpt),
+			["...add <b>salt</b> and..."]
+		)
+		assert.deepEqual(
+			db.sql<Search>`SELECT rowid FROM posts_fts ${{ where: "title MATCH $query" }}`.all(
+				{ query: "first" } as Search
+			),
+			[]
+		)
+	})
+})
@@ -0,0 +1,328 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { type DataRow, FTS_FUNCTIONS, type FtsColumn } from "#types"
+import { type ValidationError, validationErr } from "#validate"
+
+type BaseTokenizer = "unicode61" | "ascii" | "trigram"
+
+/**
+ * FTS5 tokenizer, optionally followed by its arguments. porter wraps another
+ * tokenizer, unicode61 by default.
+ * @see https://www.sqlite.org/fts5.html#tokenizers
+ * @example
+ * const tokenize: FtsTokenizer = "porter unicode61 remove_diacritics 2"
+ */
+export type FtsTokenizer =
+	| BaseTokenizer
+	| `${BaseTokenizer} ${string}`
+	| "porter"
+	| `porter ${BaseTokenizer}${"" | ` ${string}`}`
+
+/**
+ * An FTS5 column. UNINDEXED columns are stored but not searchable.
+ */
+export type FtsColumnDef<T extends DataRow> =
+	| (keyof T & string)
+	| `${keyof T & string} UNINDEXED`
+
+/**
+ * Definition of an FTS5 virtual table.
+ *
+ * With an external content table the index only stores tokens; column values
+ * are read from the content table, whose columns must have the same names.
+ * Triggers keeping the index in sync with the content table are created
+ * unless `triggers` is false.
+ * @see https://www.sqlite.org/fts5.html
+ * @example
+ * const def: FtsTableDef<Post> = {
+ *   name: "posts_fts",
+ *   columns: ["title", "body"],
+ *   content: "posts",
+ *   contentRowid: "id",
+ *   tokenize: "porter unicode61",
+ *   prefix: [2, 3],
+ * }
+ */
+export type FtsTableDef<T extends DataRow> = {
+	name: string
+	columns: FtsColumnDef<T>[]
+	tokenize?: FtsTokenizer
+	/** Prefix lengths to build extra indexes for, speeding up `term*` queries */
+	prefix?: number | number[]
+	/** External content table, or "" for a contentless table */
+	content?: string
+	/** INTEGER PRIMARY KEY of the content table, defaults to rowid */
+	contentRowid?: string
+	/** Create sync triggers on the content table, defaults to true */
+	triggers?: boolean
+	ifNotExists?: boolean
+}
+
+/**
+ * Options for {@link bm25}
+ */
+export type Bm25Options = {
+	/** Weight of each column in table order; missing columns weigh 1 */
+	weights?: number[]
+	as?: string
+}
+
+/**
+ * Options for {@link highlight}
+ */
+export type HighlightOptions = {
+	/** Index of the column in the FTS5 table, starting at 0 */
+	column: number
+	/** Text inserted before each match, defaults to "<b>" */
+	open?: string
+	/** Text inserted after each match, defaults to "</b>" */
+	close?: string
+	as?: string
+}
+
+/**
+ * Options for {@link snippet}
+ */
+export type SnippetOptions = HighlightOptions & {
+	/** Text marking text left out, defaults to "..." */
+	ellipsis?: string
+	/** Maximum number of tokens in the snippet, from 1 to 64; defaults to 16 */
+	tokens?: number
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const ftsColumnRegex = /^[A-Za-z_]\w*(\s+UNINDEXED)?$/
+
+const tokenizerRegex = /^(unicode61|ascii|trigram|porter)(\s+[\w.:-]+)*$/
+
+const ftsArgumentPattern = String.raw`(-?\d+(\.\d+)?|'([^']|'')*')`
+
+const ftsCallRegex = new RegExp(
+	String.raw`^(${FTS_FUNCTIONS.join("|")})\([A-Za-z_]\w*(\s*,\s*${ftsArgumentPattern})*\)(\s+(as|AS)\s+[A-Za-z_]\w*)?$`
+)
+
+/**
+ * Checks whether a column spec is an FTS5 auxiliary function call such as
+ * "bm25(posts_fts) AS rank"
+ */
+export function isFtsColumn(value: string): boolean {
+	return ftsCallRegex.test(value)
+}
+
+const quote = (text: string) => `'${text.replaceAll("'", "''")}'`
+
+function ftsCall(fn: string, args: (string | number)[], as?: string) {
+	const call = `${fn}(${args.join(", ")})`
+	if (!isFtsColumn(as ? `${call} AS ${as}` : call)) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_PARAM",
+			SqlitePrimaryResultCode.SQLITE_MISUSE,
+			`Invalid ${fn}() call`,
+			`Cannot build ${fn}() from table ${args[0]}${as ? ` as ${as}` : ""}`,
+			undefined
+		)
+	}
+	return (as ? `${call} AS ${as}` : call) as FtsColumn
+}
+
+/**
+ * Builds a bm25() column ranking matches; better matches have lower values.
+ * @example
+ * db.sql`SELECT ${{ columns: ["rowid", bm25("posts_fts", { weights: [10, 1], as: "score" })] }}
+ *   FROM posts_fts WHERE ${{ where: "posts_fts MATCH $query" }}`
+ */
+export function bm25(table: string, options: Bm25Options = {}): FtsColumn {
+	return ftsCall("bm25", [table, ...(options.weights ?? [])], options.as)
+}
+
+/**
+ * Builds a highlight() column returning the full column text with every
+ * match wrapped in the open and close markers.
+ */
+export function highlight(table: string, options: HighlightOptions): FtsColumn {
+	const { column, open = "<b>", close = "</b>", as } = options
+	return ftsCall("highlight", [table, column, quote(open), quote(close)], as)
+}
+
+/**
+ * Builds a snippet() column returning a short fragment of the column text
+ * around the matches, with every match wrapped in the markers.
+ */
+export function snippet(table: string, options: SnippetOptions): FtsColumn {
+	const {
+		column,
+		open = "<b>",
+		close = "</b>",
+		ellipsis = "...",
+		tokens = 16,
+		as,
+	} = options
+	return ftsCall(
+		"snippet",
+		[table, column, quote(open), quote(close), quote(ellipsis), tokens],
+		as
+	)
+}
+
+function validateIdentifier(value: unknown, path: string): ValidationError[] {
+	return typeof value === "string" && identifierRegex.test(value)
+		? []
+		: [validationErr({ msg: `Invalid identifier: ${String(value)}`, path })]
+}
+
+export function validateFtsTableDef(value: unknown): ValidationError[] {
+	if (!value || typeof value !== "object") {
+		return [validationErr({ msg: "FTS table definition must be an object" })]
+	}
+
+	const def = value as Record<string, unknown>
+	const errors = validateIdentifier(def.name, "name")
+
+	if (!Array.isArray(def.columns) || def.columns.length === 0) {
+		errors.push(
+			validationErr({
+				msg: "FTS table must have at least one column",
+				path: "columns",
+			})
+		)
+	} else {
+		def.columns.forEach((col, index) => {
+			if (typeof col !== "string" || !ftsColumnRegex.test(col)) {
+				errors.push(
+					validationErr({
+						msg: `Invalid FTS column: ${String(col)}`,
+						path: `columns[${index}]`,
+					})
+				)
+			}
+		})
+	}
+
+	if (
+		def.tokenize !== undefined &&
+		(typeof def.tokenize !== "string" || !tokenizerRegex.test(def.tokenize))
+	) {
+		errors.push(
+			validationErr({
+				msg: `Invalid tokenizer: ${String(def.tokenize)}`,
+				path: "tokenize",
+			})
+		)
+	}
+
+	if (def.prefix !== undefined) {
+		const prefixes = Array.isArray(def.prefix) ? def.prefix : [def.prefix]
+		if (
+			prefixes.length === 0 ||
+			!prefixes.every(p => Number.isInteger(p) && p >= 1 && p <= 999)
+		) {
+			errors.push(
+				validationErr({
+					msg: "prefix must be one or more integers from 1 to 999",
+					path: "prefix",
+				})
+			)
+		}
+	}
+
+	if (def.content !== undefined && def.content !== "") {
+		errors.push(...validateIdentifier(def.content, "content"))
+	}
+
+	if (def.contentRowid !== undefined) {
+		errors.push(...validateIdentifier(def.contentRowid, "contentRowid"))
+		if (!def.content) {
+			errors.push(
+				validationErr({
+					msg: "contentRowid requires an external content table",
+					path: "contentRowid",
+				})
+			)
+		}
+	}
+
+	for (const flag of ["triggers", "ifNotExists"]) {
+		if (def[flag] !== undefined && typeof def[flag] !== "boolean") {
+			errors.push(
+				validationErr({ msg: `${flag} must be a boolean`, path: flag })
+			)
+		}
+	}
+
+	return errors
+}
+
+function buildSyncTriggers<T extends DataRow>(def: FtsTableDef<T>): string[] {
+	const { name, content } = def
+	const rowid = def.contentRowid ?? "rowid"
+	const columns = def.columns.map(col => col.replace(/\s+UNINDEXED$/, ""))
+	const targets = ["rowid", ...columns].join(", ")
+	const values = (row: "new" | "old") =>
+		[rowid, ...columns].map(col => `${row}.${col}`).join(", ")
+	const ifNotExists = def.ifNotExists ? "IF NOT EXISTS " : ""
+
+	const insert = `INSERT INTO ${name} (${targets}) VALUES (${values("new")});`
+	const remove = `INSERT INTO ${name} (${name}, ${targets}) VALUES ('delete', ${values("old")});`
+
+	return [
+		`CREATE TRIGGER ${ifNotExists}${name}_ai AFTER INSERT ON ${content} BEGIN\n  ${insert}\nEND`,
+		`CREATE TRIGGER ${ifNotExists}${name}_ad AFTER DELETE ON ${content} BEGIN\n  ${remove}\nEND`,
+		`CREATE TRIGGER ${ifNotExists}${name}_au AFTER UPDATE ON ${content} BEGIN\n  ${remove}\n  ${insert}\nEND`,
+	]
+}
+
+/**
+ * Builds the statements creating an FTS5 table: CREATE VIRTUAL TABLE and,
+ * for an external content table, the sync triggers (named after the FTS
+ * table with _ai, _ad and _au suffixes) and a rebuild indexing the rows
+ * already in the content table. The rebuild is left out with ifNotExists.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_SCHEMA if the definition is
+ * invalid
+ */
+export function buildFtsStatements<T extends DataRow>(
+	def: FtsTableDef<T>
+): string[] {
+	const errors = validateFtsTableDef(def)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_SCHEMA",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid FTS table definition",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const args: string[] = [...def.columns]
+	if (def.tokenize) {
+		args.push(`tokenize = ${quote(def.tokenize)}`)
+	}
+	if (def.prefix !== undefined) {
+		const prefixes = Array.isArray(def.prefix) ? def.prefix : [def.prefix]
+		args.push(`prefix = '${prefixes.join(" ")}'`)
+	}
+	if (def.content !== undefined) {
+		args.push(`content = ${quote(def.content)}`)
+	}
+	if (def.contentRowid) {
+		args.push(`content_rowid = ${quote(def.contentRowid)}`)
+	}
+
+	const ifNotExists = def.ifNotExists ? "IF NOT EXISTS " : ""
+	const statements = [
+		`CREATE VIRTUAL TABLE ${ifNotExists}${def.name} USING fts5(${args.join(", ")})`,
+	]
+
+	if (def.content && def.triggers !== false) {
+		statements.push(...buildSyncTriggers(def))
+	}
+	if (def.content && !def.ifNotExists) {
+		statements.push(`INSERT INTO ${def.name} (${def.name}) VALUES ('rebuild')`)
+	}
+
+	return statements
+}
@@ -0,0 +1,182 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { DB } from "#database"
+import { toSqlValue } from "#functions"
+
+let db: DB
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec(`
+    CREATE TABLE scores (player TEXT NOT NULL, points INTEGER NOT NULL);
+    INSERT INTO scores VALUES ('ann', 3), ('bob', 5), ('ann', 7), ('bob', 1);
+  `)
+})
+
+afterEach(() => {
+	db.close()
+})
+
+const value = (sql: TemplateStringsArray) =>
+	db.sql(sql).get<{ v: unknown }>()?.v
+
+describe("toSqlValue", () => {
+	test("maps JavaScript values to SQLite values", () => {
+		assert.equal(toSqlValue(true), 1)
+		assert.equal(toSqlValue(false), 0)
+		assert.equal(toSqlValue(undefined), null)
+		assert.equal(toSqlValue(10n), 10n)
+		assert.equal(toSqlValue(new Date(0)), "1970-01-01T00:00:00.000Z")
+		assert.equal(toSqlValue({ a: [1, 2] }), '{"a":[1,2]}')
+		assert.throws(() => toSqlValue(() => 1), TypeError)
+	})
+})
+
+describe("DB.defineFunction", () => {
+	test("registers a typed scalar function", () => {
+		db.defineFunction("shout", (text: string) => `${text.toUpperCase()}!`)
+		assert.equal(value`SELECT shout('hi') AS v`, "HI!")
+	})
+
+	test("maps results and parses JSON arguments", () => {
+		db.defineFunction("is_even", (n: number) => n % 2 === 0)
+		db.defineFunction("wrap", (n: number) => ({ n }))
+		db.defineFunction("tag_count", (tags: string[]) => tags.length, {
+			json: true,
+		})
+		assert.equal(value`SELECT is_even(4) AS v`, 1)
+		assert.equal(value`SELECT wrap(2) AS v`, '{"n":2}')
+		assert.equal(value`SELECT tag_count('["a","b"]') AS v`, 2)
+	})
+
+	test("checks the argument count unless varargs is set", () => {
+		db.defineFunction("pair", (a: number, b: number) => a + b)
+		db.defineFunction("total", (...values: number[]) => values.length, {
+			varargs: true,
+		})
+		assert.throws(() => value`SELECT pair(1) AS v`, {
+			code: "ERR_SQLITE_QUERY",
+		})
+		assert.equal(value`SELECT total(1, 2, 3) AS v`, 3)
+	})
+
+	test("passes deterministic and directOnly to SQLite", () => {
+		db.defineFunction("double", (n: number) => n * 2, { deterministic: true })
+		db.defineFunction("jitter", (n: number) => n + Math.random())
+		db.exec("CREATE INDEX double_idx ON scores (double(points))")
+		assert.throws(
+			() => db.exec("CREATE INDEX jitter_idx ON scores (jitter(points))"),
+			{ code: "ERR_SQLITE_EXEC" }
+		)
+
+		db.defineFunction("secret", () => 42, { directOnly: true })
+		db.exec("CREATE VIEW secrets AS SELECT secret() AS v")
+		assert.equal(value`SELECT secret() AS v`, 42)
+		assert.throws(() => value`SELECT v FROM secrets`, {
+			code: "ERR_SQLITE_QUERY",
+		})
+	})
+
+	test("reports errors thrown by the function", () => {
+		db.defineFunction("fail", (): number => {
+			throw new Error("no luck")
+		})
+		assert.throws(() => value`SELECT fail() AS v`, {
+			code: "ERR_SQLITE_QUERY",
+			message: /no luck/,
+		})
+	})
+
+	test("rejects invalid definitions", () => {
+		assert.throws(() => db.defineFunction("bad name", () => 1), {
+			code: "ERR_SQLITE_FUNCTION",
+		})
+		assert.throws(
+			() =>
+				db.defineFunction("flagged", () => 1, {
+					deterministic: "yes" as unknown as boolean,
+				}),
+			{ code: "ERR_SQLITE_FUNCTION" }
+		)
+	})
+})
+
+describe("DB.defineAggregate", () => {
+	test("keeps object state in JavaScript", () => {
+		db.defineAggregate("average", {
+			start: () => ({ sum: 0, count: 0 }),
+			step: (state, points: number) => {
+				state.sum += points
+				state.count++
+				return state
+			},
+			result: state => state.sum / state.count,
+		})
+		assert.deepEqual(
+			db.sql`SELECT player, average(points) AS avg FROM scores GROUP BY player ORDER BY player`
+				.all()
+				.map(row => ({ ...row })),
+			[
+				{ player: "ann", avg: 5 },
+				{ player: "bob", avg: 3 },
+			]
+		)
+	})
+
+	test("stores the state as JSON without a result function", () => {
+		db.defineAggregate("collect", {
+			start: () => [] as string[],
+			step: (players, player: string) => [...players, player],
+		})
+		assert.equal(
+			value`SELECT collect(player) AS v FROM (SELECT DISTINCT player FROM scores ORDER BY player)`,
+			'["ann","bob"]'
+		)
+	})
+
+	test("runs as a window function with an inverse", () => {
+		db.defineAggregate("running", {
+			start: 0,
+			step: (sum, points: number) => sum + points,
+			inverse: (sum, points: number) => sum - points,
+		})
+		assert.deepEqual(
+			db.sql`SELECT running(points) OVER (ROWS 1 PRECEDING) AS v FROM scores`
+				.all<{ v: number }>()
+				.map(row => row.v),
+			[3, 8, 12, 8]
+		)
+	})
+
+	test("requires a step function", () => {
+		assert.throws(
+			() =>
+				db.defineAggregate("broken", {
+					start: 0,
+				} as unknown as Parameters<DB["defineAggregate"]>[1]),
+			{ code: "ERR_SQLITE_FUNCTION" }
+		)
+	})
+})
+
+test("re-registers functions after restore()", () => {
+	const dir = mkdtempSync(join(tmpdir(), "sqlitex-functions-"))
+	const fileDb = new DB({ location: join(dir, "app.db") })
+	try {
+		fileDb.exec("CREATE TABLE t (x INTEGER)")
+		fileDb.defineFunction("triple", (n: number) => n * 3)
+		fileDb.backup(join(dir, "backup.db"))
+		fileDb.restore(join(dir, "backup.db"))
+		assert.equal(fileDb.sql`SELECT triple(2) AS v`.get<{ v: number }>()?.v, 6)
+	} finally {
+		fileDb.close()
+		rmSync(dir, { recursive: true, force: true })
+	}
+})
@@ -0,0 +1,248 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type {
+	DatabaseSync,
+	SQLInputValue,
+	SupportedValueType,
+} from "node:sqlite"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { looksLikeJSON } from "#sql"
+import stringify from "#stringify"
+import { type ValidationError, validationErr } from "#validate"
+
+/**
+ * Values SQLite passes to user-defined functions
+ */
+export type SqlArgument = SupportedValueType
+
+/**
+ * Values user-defined functions may return. Dates are stored as ISO 8601
+ * text, other objects and arrays as JSON text, booleans as 1 or 0 and
+ * undefined as NULL.
+ */
+export type SqlReturnValue = SQLInputValue | boolean | undefined | object
+
+/**
+ * Options for DB.defineFunction and DB.defineAggregate
+ * @see https://www.sqlite.org/c3ref/c_deterministic.html
+ */
+export interface FunctionOptions {
+	/** Always returns the same result for the same arguments */
+	deterministic?: boolean
+
+	/** Accepts any number of arguments instead of exactly as many as declared */
+	varargs?: boolean
+
+	/** Cannot be called from views, triggers or schema definitions */
+	directOnly?: boolean
+
+	/** Parses string arguments holding a JSON object or array */
+	json?: boolean
+}
+
+/**
+ * Aggregate function definition. Without inverse the function can only be
+ * used as a plain aggregate; with it, also as a window function.
+ * @template S Type of the running state
+ * @template A Types of the arguments after the state
+ * @template R Type of the result
+ */
+export interface AggregateDef<
+	S,
+	A extends unknown[] = SqlArgument[],
+	R extends SqlReturnValue = SqlReturnValue,
+> extends FunctionOptions {
+	/** Initial state, or a function creating it; use one for object states */
+	start: S | (() => S)
+
+	/** Adds a row to the state and returns the new state */
+	step: (state: S, ...args: A) => S
+
+	/** Removes a row that left the window and returns the new state */
+	inverse?: (state: S, ...args: A) => S
+
+	/** Turns the final state into the result, defaults to the state itself */
+	result?: (state: S) => R
+}
+
+/**
+ * A user-defined function ready to be registered on a connection
+ */
+export interface FunctionRegistration {
+	/** Name and argument count; SQLite keeps one function per pair */
+	key: string
+	register(db: DatabaseSync): void
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const flagOptions = ["deterministic", "varargs", "directOnly", "json"] as const
+
+/**
+ * Converts a value returned by a user-defined function to one SQLite stores
+ */
+export function toSqlValue(value: unknown): SQLInputValue {
+	if (value === undefined || value === null) {
+		return null
+	}
+	if (typeof value === "boolean") {
+		return value ? 1 : 0
+	}
+	if (
+		typeof value === "number" ||
+		typeof value === "bigint" ||
+		typeof value === "string" ||
+		ArrayBuffer.isView(value)
+	) {
+		return value as SQLInputValue
+	}
+	if (value instanceof Date) {
+		return value.toISOString()
+	}
+	if (typeof value === "object") {
+		return stringify(value)
+	}
+	throw new TypeError(`Cannot return a ${typeof value} to SQLite`)
+}
+
+function parseArgument(value: SqlArgument): unknown {
+	if (!looksLikeJSON(value)) {
+		return value
+	}
+	try {
+		return JSON.parse(value)
+	} catch {
+		return value
+	}
+}
+
+// SQLite takes the argument count from length unless varargs is set, and
+// rest parameters do not count towards it
+function withLength<F extends (...args: never[]) => unknown>(
+	fn: F,
+	length: number
+): F {
+	return Object.defineProperty(fn, "length", { value: length })
+}
+
+function validateFunctionDef(
+	name: unknown,
+	required: Record<string, unknown>,
+	optional: Record<string, unknown>,
+	options: FunctionOptions
+): ValidationError[] {
+	const errors: ValidationError[] = []
+	if (typeof name !== "string" || !identifierRegex.test(name)) {
+		errors.push(
+			validationErr({
+				msg: `Invalid function name: ${String(name)}`,
+				path: "name",
+			})
+		)
+	}
+	for (const [path, fn] of Object.entries({ ...required, ...optional })) {
+		if (typeof fn !== "function" && (path in required || fn !== undefined)) {
+			errors.push(validationErr({ msg: `${path} must be a function`, path }))
+		}
+	}
+	for (const flag of flagOptions) {
+		if (options[flag] !== undefined && typeof options[flag] !== "boolean") {
+			errors.push(
+				validationErr({ msg: `${flag} must be a boolean`, path: flag })
+			)
+		}
+	}
+	return errors
+}
+
+function assertValid(errors: ValidationError[]): void {
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_FUNCTION",
+			SqlitePrimaryResultCode.SQLITE_MISUSE,
+			"Invalid function definition",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+}
+
+const functionKey = (name: string, argCount: number, varargs?: boolean) =>
+	`${name.toLowerCase()}/${varargs ? "*" : argCount}`
+
+/**
+ * Wraps a scalar function so its arguments and result are mapped between
+ * SQLite and JavaScript values.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_FUNCTION if the definition
+ * is invalid
+ */
+export function createScalarFunction<
+	A extends unknown[],
+	R extends SqlReturnValue,
+>(
+	name: string,
+	fn: (...args: A) => R,
+	options: FunctionOptions = {}
+): FunctionRegistration {
+	assertValid(validateFunctionDef(name, { fn }, {}, options))
+	const { json = false, ...flags } = options
+
+	const wrapper = withLength(
+		(...args: SqlArgument[]) =>
+			toSqlValue(fn(...((json ? args.map(parseArgument) : args) as A))),
+		fn.length
+	)
+
+	return {
+		key: functionKey(name, fn.length, options.varargs),
+		register: db => db.function(name, flags, wrapper),
+	}
+}
+
+/**
+ * Wraps an aggregate function so its arguments and result are mapped between
+ * SQLite and JavaScript values. The state never leaves JavaScript.
+ * @throws {NodeSqliteError} With code ERR_SQLITE_FUNCTION if the definition
+ * is invalid
+ */
+export function createAggregateFunction<
+	S,
+	A extends unknown[],
+	R extends SqlReturnValue,
+>(name: string, def: AggregateDef<S, A, R>): FunctionRegistration {
+	assertValid(
+		validateFunctionDef(
+			name,
+			{ step: def.step },
+			{ inverse: def.inverse, result: def.result },
+			def
+		)
+	)
+	const { start, step, inverse, result, json = false, ...flags } = def
+	const argCount = Math.max(step.length - 1, 0)
+	const args = (values: SqlArgument[]) =>
+		(json ? values.map(parseArgument) : values) as A
+
+	return {
+		key: functionKey(name, argCount, def.varargs),
+		register: db =>
+			db.aggregate(name, {
+				...flags,
+				// node:sqlite types the state as a SQLite value, but keeps it in
+				// JavaScript until result() converts it
+				start: start as SQLInputValue | (() => SQLInputValue),
+				step: withLength(
+					(state: SQLInputValue, ...values: SqlArgument[]) =>
+						step(state as S, ...args(values)) as SQLInputValue,
+					step.length
+				),
+				inverse:
+					inverse &&
+					((state, ...values) =>
+						inverse(state as S, ...args(values)) as SQLInputValue),
+				result: state => toSqlValue(result ? result(state as S) : state),
+			}),
+	}
+}
@@ -0,0 +1,235 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import {
+	buildGroupByStatement,
+	buildHavingStatement,
+	isAggregateColumn,
+	validateGroupByClause,
+	validateHavingClause,
+} from "#group-by"
+import { validateContextCombination, validateSqlContext } from "#context"
+import { DB } from "#database"
+import { NodeSqliteError } from "#errors"
+import type { AggregateResult, SqlContext } from "#types"
+
+type Order = {
+	id: number
+	customer: string
+	status: string
+	total: number
+	minOrders: number
+}
+
+describe("aggregate columns", () => {
+	test("recognizes aggregate calls with optional aliases", () => {
+		const valid = [
+			"count(*)",
+			"count(id)",
+			"count(DISTINCT customer)",
+			"sum(total)",
+			"avg(orders.total) as average",
+			"min(total) AS smallest",
+			"json_group_array(id) as ids",
+			"group_concat(customer)",
+		]
+		for (const col of valid) {
+			assert.ok(isAggregateColumn(col), `Expected aggregate: ${col}`)
+		}
+	})
+
+	test("rejects unknown functions and malformed specs", () => {
+		const invalid = [
+			"sum(*)",
+			"median(total)",
+			"sum(total) as",
+			"sum(total) as two words",
+			"count(*); DROP TABLE orders",
+		]
+		for (const col of invalid) {
+			assert.ok(!isAggregateColumn(col), `Expected rejection: ${col}`)
+		}
+	})
+
+	test("are accepted in the columns context", () => {
+		const context: SqlContext<Order> = {
+			columns: ["status", "count(*) as orders", "sum(total) as revenue"],
+		}
+		assert.deepEqual(validateSqlContext<Order>(context), [])
+		assert.equal(
+			validateSqlContext<Order>({ columns: ["median(total) as m"] })[0]?.path,
+			"columns[0]"
+		)
+		assert.equal(
+			validateSqlContext<Order>({ columns: ["sum(total) as total revenue"] })[0]
+				?.path,
+			"columns[0]"
+		)
+	})
+})
+
+describe("validateGroupByClause", () => {
+	test("accepts plain and qualified columns", () => {
+		assert.deepEqual(validateGroupByClause(["status", "orders.customer"]), [])
+	})
+
+	test("rejects empty arrays and invalid columns", () => {
+		assert.equal(validateGroupByClause([]).length, 1)
+		assert.equal(validateGroupByClause("status").length, 1)
+		const errors = validateGroupByClause(["status", "1; DROP"])
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].path, "[1]")
+	})
+
+	test("builds GROUP BY", () => {
+		assert.equal(
+			buildGroupByStatement(["status", "customer"]),
+			"GROUP BY status, customer"
+		)
+		assert.throws(() => buildGroupByStatement([]), NodeSqliteError)
+	})
+})
+
+describe("validateHavingClause", () => {
+	test("accepts aggregate comparisons against parameters and numbers", () => {
+		assert.deepEqual(validateHavingClause("count(*) > $minOrders"), [])
+		assert.deepEqual(validateHavingClause("sum(total) >= 100.5"), [])
+		assert.deepEqual(
+			validateHavingClause(["count(*) > 1", "AND", "avg(total) < $max"]),
+			[]
+		)
+	})
+
+	test("rejects non-aggregate and malformed conditions", () => {
+		assert.equal(validateHavingClause("status = $status").length, 1)
+		assert.equal(validateHavingClause(["count(*) > 1", "AND"]).length, 1)
+		const errors = validateHavingClause(["count(*) > 1", "XOR", "sum(id) = 2"])
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].path, "[1]")
+	})
+
+	test("builds HAVING and collects parameters", () => {
+		const result = buildHavingStatement<Order>([
+			"count(*) > $minOrders",
+			"OR",
+			"sum(total) > 100",
+		])
+		assert.equal(result.sql, "HAVING count(*) > $minOrders OR sum(total) > 100")
+		assert.deepEqual(result.parameterOperators, ["$minOrders"])
+	})
+})
+
+describe("groupBy context combination", () => {
+	test("requires groupBy when having is used", () => {
+		const errors = validateContextCombination<Order>([
+			{ having: "count(*) > 1" },
+		])
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].type, "INVALID_COMBINATION")
+	})
+
+	test("rejects grouping in INSERT and UPDATE contexts", () => {
+		const errors = validateContextCombination<Order>([
+			{ set: { status: "$status" } },
+			{ groupBy: ["status"] },
+		])
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].type, "INCOMPATIBLE_CLAUSE")
+	})
+})
+
+describe("grouped queries", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        customer TEXT NOT NULL,
+        status TEXT NOT NULL,
+        total REAL NOT NULL
+      );
+      INSERT INTO orders (customer, status, total) VALUES
+        ('alice', 'paid', 10),
+        ('alice', 'paid', 30),
+        ('bob', 'paid', 5),
+        ('bob', 'open', 7),
+        ('carol', 'open', 100);
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("renders and runs GROUP BY with HAVING", () => {
+		const query = db.sql<Order>`
+      SELECT ${{
+				columns: [
+					"customer",
+					"count(*) as orders",
+					"sum(total) as revenue",
+					"json_group_array(id) as ids",
+				],
+			}}
+      FROM orders
+      ${{
+				where: "status = $status",
+				groupBy: ["customer"],
+				having: "count(*) >= $minOrders",
+				orderBy: { customer: "ASC" },
+			}}
+    `
+
+		const params = { status: "paid", minOrders: 2 } as Order
+		assert.equal(
+			query.sourceSQL(params).trim(),
+			"SELECT customer,\n  COUNT(*) AS orders,\n  sum(total) AS revenue,\n  json_group_array(id) AS ids\nFROM orders\nWHERE STATUS = $status\nGROUP BY customer\nHAVING COUNT(*) >= $minOrders\nORDER BY customer ASC"
+		)
+
+		type Row = Pick<Order, "customer"> &
+			AggregateResult<
+				Order,
+				| "count(*) as orders"
+				| "sum(total) as revenue"
+				| "json_group_array(id) as ids"
+			>
+
+		const rows = query.all<Row>(params)
+		assert.equal(rows.length, 1)
+		assert.equal(rows[0].customer, "alice")
+		assert.equal(rows[0].orders, 2)
+		assert.equal(rows[0].revenue, 40)
+		assert.deepEqual(rows[0].ids, [1, 2])
+	})
+
+	test("supports compound HAVING conditions", () => {
+		const query = db.sql<Order>`
+      SELECT ${{ columns: ["status", "max(total) AS largest"] }}
+      FROM orders
+      ${{
+				groupBy: ["status"],
+				having: ["count(*) > 1", "AND", "max(total) > 50"],
+			}}
+    `
+
+		const rows = query.all<{ status: string; largest: number }>()
+		assert.deepEqual(
+			rows.map(r => ({ ...r })),
+			[{ status: "open", largest: 100 }]
+		)
+	})
+
+	test("types aggregate results", () => {
+		type Row = AggregateResult<
+			Order,
+			"count(*)" | "avg(total) as avg" | "min(customer) as first"
+		>
+		const row: Row = { "count(*)": 1, avg: null, first: "alice" }
+		assert.equal(row["count(*)"], 1)
+	})
+})
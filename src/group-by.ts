@@ -0,0 +1,146 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import {
+	AGGREGATE_FUNCTIONS,
+	COMPARISON_OPERATORS,
+	LOGICAL_OPERATORS,
+	type DataRow,
+	type HavingClause,
+	type LogicalOperator,
+} from "#types"
+import { validationErr, type ValidationError } from "#validate"
+
+const columnRefRegex = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)?$/
+
+const aggregateCallPattern = `(count\\(\\*\\)|(${AGGREGATE_FUNCTIONS.join("|")})\\((DISTINCT\\s+)?[A-Za-z_][\\w.]*\\))`
+
+const aggregateCallRegex = new RegExp(`^${aggregateCallPattern}$`)
+
+const aggregateColumnRegex = new RegExp(
+	`^${aggregateCallPattern}(\\s+(as|AS)\\s+[A-Za-z_]\\w*)?$`
+)
+
+const havingConditionRegex = new RegExp(
+	`^${aggregateCallPattern}\\s+(${COMPARISON_OPERATORS.join("|")})\\s+(\\$\\w+|-?\\d+(\\.\\d+)?)$`
+)
+
+/**
+ * Checks whether a column spec is an aggregate call such as
+ * "count(*)" or "avg(total) as average"
+ */
+export function isAggregateColumn(value: string): boolean {
+	return aggregateColumnRegex.test(value)
+}
+
+/**
+ * Checks whether a value is an unaliased aggregate call such as "sum(total)"
+ */
+export function isAggregateCall(value: string): boolean {
+	return aggregateCallRegex.test(value)
+}
+
+export function validateGroupByClause(value: unknown): ValidationError[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		return [validationErr({ msg: "groupBy must be a non-empty array" })]
+	}
+
+	const errors: ValidationError[] = []
+	value.forEach((col, index) => {
+		if (typeof col !== "string" || !columnRefRegex.test(col)) {
+			errors.push(
+				validationErr({
+					msg: `Invalid GROUP BY column: ${String(col)}`,
+					path: `[${index}]`,
+				})
+			)
+		}
+	})
+
+	return errors
+}
+
+export function buildGroupByStatement(groupBy: string[]): string {
+	const errors = validateGroupByClause(groupBy)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_PARAM",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid groupBy configuration",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	return `GROUP BY ${groupBy.join(", ")}`
+}
+
+function validateHavingCondition(condition: unknown): ValidationError[] {
+	if (typeof condition !== "string" || !havingConditionRegex.test(condition)) {
+		return [
+			validationErr({
+				msg: `Invalid HAVING condition: ${String(condition)}`,
+			}),
+		]
+	}
+	return []
+}
+
+export function validateHavingClause(value: unknown): ValidationError[] {
+	if (typeof value === "string") {
+		return validateHavingCondition(value)
+	}
+
+	if (!Array.isArray(value) || value.length % 2 === 0) {
+		return [
+			validationErr({
+				msg: "having must be a condition or an array alternating conditions and logical operators",
+			}),
+		]
+	}
+
+	const errors: ValidationError[] = []
+	value.forEach((part, index) => {
+		if (index % 2 === 0) {
+			errors.push(
+				...validateHavingCondition(part).map(err => ({
+					...err,
+					path: `[${index}]`,
+				}))
+			)
+		} else if (!LOGICAL_OPERATORS.includes(part as LogicalOperator)) {
+			errors.push(
+				validationErr({
+					msg: `Invalid logical operator at position ${index}`,
+					path: `[${index}]`,
+				})
+			)
+		}
+	})
+
+	return errors
+}
+
+export function buildHavingStatement<P extends DataRow>(
+	having: HavingClause<P>
+): { sql: string; parameterOperators: string[] } {
+	const errors = validateHavingClause(having)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_PARAM",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid having configuration",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const sql = Array.isArray(having) ? having.join(" ") : having
+
+	return {
+		sql: `HAVING ${sql}`,
+		parameterOperators: sql.match(/\$\w+/g) ?? [],
+	}
+}
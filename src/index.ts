@@ -30,7 +30,13 @@
 export type { ValidationError } from "#validate"
 export * from "#types"
 export { Sql, raw } from "#sql"
-export type { XStatementSync } from "#sql"
+export type {
+	SingleStepOptions,
+	StatementOptions,
+	XStatementSync,
+} from "#sql"
+export { and, or, not } from "#where"
+export { union, unionAll, intersect, except } from "#compound"
 
 export type { DeferrableStatus, FKAction, ForeignKeyDef } from "#fk"
 
@@ -48,5 +54,81 @@ export type {
 
 export { DB } from "#database"
 
+export { AsyncDB } from "#async-database"
+export type { AsyncDBOptions, AsyncStatement } from "#async-database"
+
+export { DBPool } from "#pool"
+export type { DBPoolOptions, PoolCacheStats } from "#pool"
+
+export type {
+	CreateTableOptions,
+	FindOptions,
+	Table,
+	TableFilter,
+	TableOptions,
+	UpsertOptions,
+} from "#table"
+
+export { typeAffinity } from "#introspect"
+export type {
+	ColumnInfo,
+	DatabaseInfo,
+	TableInfo,
+	TriggerInfo,
+	ViewInfo,
+} from "#introspect"
+
+export { toSqlValue } from "#functions"
+export type {
+	AggregateDef,
+	FunctionOptions,
+	SqlArgument,
+	SqlReturnValue,
+} from "#functions"
+
+export { bm25, buildFtsStatements, highlight, snippet } from "#fts"
+export type {
+	Bm25Options,
+	FtsColumnDef,
+	FtsTableDef,
+	FtsTokenizer,
+	HighlightOptions,
+	SnippetOptions,
+} from "#fts"
+
+export { Session, invertChangeset } from "#session"
+export type {
+	ApplyChangesetOptions,
+	ConflictHandler,
+	ConflictResolution,
+	ConflictType,
+	SessionOptions,
+} from "#session"
+
+export { buildAlterTableStatement, buildDropStatement } from "#alter"
+export type { AlterTableDef, DropDef } from "#alter"
+
+export { diffSchema } from "#diff"
+export type {
+	DiffOptions,
+	SchemaChange,
+	SchemaDiff,
+	SyncSchemaOptions,
+	TableDefinition,
+} from "#diff"
+
+export { generateTypes, typeName } from "#typegen"
+export type { TypeGenOptions } from "#typegen"
+
+export { Migrator, loadMigrations } from "#migrate"
+export type {
+	AppliedMigration,
+	Migration,
+	MigrationBody,
+	MigrationStep,
+	MigrateOptions,
+	MigratorOptions,
+} from "#migrate"
+
 export * from "#logger"
 export * from "#errors"
@@ -0,0 +1,191 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { buildIndexStatement } from "#idx"
+import { typeAffinity } from "#introspect"
+import { buildSchema } from "#schema"
+
+describe("typeAffinity", () => {
+	test("follows SQLite affinity rules", () => {
+		assert.equal(typeAffinity("BIGINT"), "INTEGER")
+		assert.equal(typeAffinity("VARCHAR(20)"), "TEXT")
+		assert.equal(typeAffinity("clob"), "TEXT")
+		assert.equal(typeAffinity(""), "BLOB")
+		assert.equal(typeAffinity("DOUBLE"), "REAL")
+		assert.equal(typeAffinity("NUMERIC"), "REAL")
+	})
+})
+
+describe("DB.introspect", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        name TEXT DEFAULT 'anonymous',
+        score REAL DEFAULT (1 + 1),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE posts (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      );
+      CREATE UNIQUE INDEX idx_posts_title ON posts (title COLLATE NOCASE DESC);
+      CREATE INDEX posts_user_idx ON posts (user_id) WHERE user_id > 0;
+      CREATE INDEX users_email_idx ON users (lower(email));
+      CREATE VIEW user_posts AS SELECT users.email, posts.title FROM users JOIN posts ON posts.user_id = users.id;
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("lists tables and views, skipping internal tables", () => {
+		const info = db.introspect()
+		assert.deepEqual(
+			info.tables.map(t => t.name),
+			["posts", "users"]
+		)
+		assert.deepEqual(
+			info.views.map(v => v.name),
+			["user_posts"]
+		)
+		assert.match(info.views[0].sql, /^CREATE VIEW user_posts/)
+	})
+
+	test("maps columns to schema definitions", () => {
+		const users = db.introspect().tables.find(t => t.name === "users")
+		assert.deepEqual(users?.schema, {
+			id: "INTEGER PRIMARY KEY AUTOINCREMENT",
+			email: "TEXT NOT NULL UNIQUE",
+			name: "TEXT DEFAULT 'anonymous'",
+			score: "REAL DEFAULT (1 + 1)",
+			created_at: "TEXT DEFAULT CURRENT_TIMESTAMP",
+		})
+		assert.deepEqual(users?.columns[1], {
+			name: "email",
+			declaredType: "VARCHAR(255)",
+			type: "TEXT",
+			notNull: true,
+			defaultValue: null,
+			primaryKey: 0,
+		})
+	})
+
+	test("reads foreign keys and explicit indexes", () => {
+		const { tables } = db.introspect()
+		const posts = tables.find(t => t.name === "posts")
+		assert.deepEqual(posts?.foreignKeys, [
+			{
+				key: "user_id",
+				references: { table: "users", columns: ["id"] },
+				onDelete: "CASCADE",
+			},
+		])
+		assert.deepEqual(posts?.indexes, [
+			{
+				name: "idx_posts_title",
+				tableName: "posts",
+				columns: ["title COLLATE NOCASE DESC"],
+				options: { unique: true },
+			},
+			{
+				name: "posts_user_idx",
+				tableName: "posts",
+				columns: ["user_id"],
+				where: "WHERE user_id > 0",
+			},
+		])
+		assert.deepEqual(
+			tables.find(t => t.name === "users")?.indexes.map(i => i.columns),
+			[["expr(lower(email))"]]
+		)
+	})
+
+	test("reads table constraints and options", () => {
+		db.exec(`
+      CREATE TABLE members (
+        team_id INT NOT NULL,
+        user_id INTEGER NOT NULL,
+        role TEXT,
+        payload ANY,
+        PRIMARY KEY (team_id, user_id),
+        UNIQUE (user_id, role),
+        CONSTRAINT valid_role CHECK (role IN ('owner', 'member'))
+      ) WITHOUT ROWID, STRICT;
+    `)
+		const members = db.introspect().tables.find(t => t.name === "members")
+		assert.deepEqual(members?.schema, {
+			team_id: "INTEGER NOT NULL",
+			user_id: "INTEGER NOT NULL",
+			role: "TEXT",
+			payload: "ANY",
+			$$primaryKey: ["team_id", "user_id"],
+			$$unique: [["user_id", "role"]],
+			$$checks: ["role IN ('owner', 'member')"],
+			$$options: { strict: true, withoutRowid: true },
+		})
+	})
+
+	test("reads generated columns, collations and conflict clauses", () => {
+		db.exec(`
+      CREATE TABLE items (
+        id INTEGER PRIMARY KEY,
+        sku TEXT NOT NULL UNIQUE ON CONFLICT REPLACE COLLATE NOCASE,
+        price REAL,
+        qty INTEGER,
+        total REAL AS (price * qty) STORED,
+        label AS (upper(sku))
+      );
+    `)
+		const items = db.introspect().tables.find(t => t.name === "items")
+		assert.deepEqual(items?.schema, {
+			id: "INTEGER PRIMARY KEY",
+			sku: "TEXT NOT NULL UNIQUE ON CONFLICT REPLACE COLLATE NOCASE",
+			price: "REAL",
+			qty: "INTEGER",
+			total: "REAL GENERATED ALWAYS AS (price * qty) STORED",
+			label: "BLOB GENERATED ALWAYS AS (upper(sku)) VIRTUAL",
+		})
+		assert.deepEqual(
+			items?.columns.map(col => col.generated),
+			[undefined, undefined, undefined, undefined, "STORED", "VIRTUAL"]
+		)
+	})
+
+	test("round-trips through buildSchema and buildIndexStatement", () => {
+		const source = db.introspect()
+		const copy = new DB({ location: ":memory:" })
+		try {
+			// Parents first so foreign keys resolve
+			for (const name of ["users", "posts"]) {
+				const table = source.tables.find(t => t.name === name)
+				assert.ok(table)
+				copy.exec(`CREATE TABLE ${name} ${buildSchema(table.schema)}`)
+				for (const index of table.indexes) {
+					copy.exec(buildIndexStatement(index))
+				}
+			}
+
+			const result = copy.introspect()
+			for (const table of source.tables) {
+				const copied = result.tables.find(t => t.name === table.name)
+				assert.deepEqual(copied?.schema, table.schema)
+				assert.deepEqual(copied?.foreignKeys, table.foreignKeys)
+				assert.deepEqual(copied?.indexes, table.indexes)
+			}
+		} finally {
+			copy.close()
+		}
+	})
+})
@@ -0,0 +1,415 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { DB } from "#database"
+import type { FKAction, ForeignKeyDef } from "#fk"
+import type { IndexDef } from "#idx"
+import {
+	type ColumnDefinition,
+	parseColumnDef,
+	parseCreateTable,
+} from "#schema"
+import type { DataRow, DataType, Schema } from "#types"
+
+/**
+ * A column as reported by pragma_table_xinfo
+ */
+export interface ColumnInfo {
+	name: string
+	/** Declared type exactly as written in CREATE TABLE */
+	declaredType: string
+	/** Storage type derived from the declared type */
+	type: DataType
+	notNull: boolean
+	/** Default value as SQL text, or null */
+	defaultValue: string | null
+	/** 1-based position in the primary key, 0 if not part of it */
+	primaryKey: number
+	/** Set for generated columns */
+	generated?: "VIRTUAL" | "STORED"
+}
+
+export interface TriggerInfo {
+	name: string
+	sql: string
+}
+
+export interface TableInfo<T extends DataRow = DataRow> {
+	name: string
+	/** CREATE TABLE statement as stored in sqlite_schema */
+	sql: string
+	columns: ColumnInfo[]
+	/** Column definitions accepted by buildSchema */
+	schema: Schema<T>
+	/** Indexes created with CREATE INDEX, accepted by buildIndexStatement */
+	indexes: IndexDef<T>[]
+	foreignKeys: ForeignKeyDef<T>[]
+	triggers: TriggerInfo[]
+}
+
+export interface ViewInfo {
+	name: string
+	sql: string
+}
+
+export interface DatabaseInfo {
+	tables: TableInfo[]
+	views: ViewInfo[]
+}
+
+type SchemaRow = { type: string; name: string; tbl_name: string; sql: string }
+
+type TableInfoRow = {
+	cid: number
+	name: string
+	type: string
+	notnull: number
+	dflt_value: string | null
+	pk: number
+	hidden: number
+}
+
+type IndexListRow = {
+	name: string
+	unique: number
+	origin: "c" | "u" | "pk"
+	partial: number
+}
+
+type IndexInfoRow = {
+	cid: number
+	name: string | null
+	desc: number
+	coll: string
+	key: number
+}
+
+type ForeignKeyRow = {
+	id: number
+	seq: number
+	table: string
+	from: string
+	to: string | null
+	on_update: FKAction
+	on_delete: FKAction
+}
+
+/**
+ * Maps a declared column type to a storage type using SQLite's affinity
+ * rules. NUMERIC affinity is reported as REAL since Schema has no NUMERIC type.
+ * @see https://www.sqlite.org/datatype3.html#determination_of_column_affinity
+ */
+export function typeAffinity(declaredType: string): DataType {
+	const type = declaredType.toUpperCase()
+	if (type.includes("INT")) {
+		return "INTEGER"
+	}
+	if (type.includes("CHAR") || type.includes("CLOB") || type.includes("TEXT")) {
+		return "TEXT"
+	}
+	if (type === "" || type.includes("BLOB")) {
+		return "BLOB"
+	}
+	return "REAL"
+}
+
+// Defaults that are not a single literal must be parenthesized to be re-used
+function formatDefault(value: string): string {
+	return /^([-+]?[\w.]+|'([^']|'')*'|"([^"]|"")*")$/.test(value)
+		? value
+		: `(${value})`
+}
+
+// Returns the text between the parenthesis at `start` and its match
+function balancedParens(sql: string, start: number): string {
+	let depth = 0
+	for (let i = start; i < sql.length; i++) {
+		if (sql[i] === "(") {
+			depth++
+		} else if (sql[i] === ")") {
+			depth--
+			if (depth === 0) {
+				return sql.slice(start + 1, i)
+			}
+		}
+	}
+	return sql.slice(start + 1)
+}
+
+/**
+ * Reads tables, columns, indexes, foreign keys, triggers and views from a
+ * database.
+ * @param db Database to inspect
+ * @returns Structured metadata for every user table and view
+ */
+export function introspectDatabase(db: DB): DatabaseInfo {
+	const objects = db.sql`
+    SELECT type, name, tbl_name, sql FROM sqlite_schema
+    WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+    ORDER BY name
+  `.all<SchemaRow>()
+
+	return {
+		tables: objects
+			.filter(row => row.type === "table")
+			.map(row => introspectTable(db, row.name, row.sql)),
+		views: objects
+			.filter(row => row.type === "view")
+			.map(row => ({ name: row.name, sql: row.sql })),
+	}
+}
+
+function introspectTable(db: DB, name: string, sql: string): TableInfo {
+	const params = { table: name }
+
+	const columnRows = db.sql<{ table: string }>`
+    SELECT cid, name, type, "notnull", dflt_value, pk, hidden
+    FROM pragma_table_xinfo(${"$table"}) WHERE hidden IN (0, 2, 3) ORDER BY cid
+  `.all<TableInfoRow>(params)
+
+	const indexRows = db.sql<{ table: string }>`
+    SELECT name, "unique", origin, partial FROM pragma_index_list(${"$table"})
+  `.all<IndexListRow>(params)
+
+	const foreignKeyRows = db.sql<{ table: string }>`
+    SELECT id, seq, "table", "from", "to", on_update, on_delete
+    FROM pragma_foreign_key_list(${"$table"}) ORDER BY id, seq
+  `.all<ForeignKeyRow>(params)
+
+	const columns: ColumnInfo[] = columnRows.map(row => ({
+		name: row.name,
+		declaredType: row.type,
+		type: typeAffinity(row.type),
+		notNull: row.notnull === 1,
+		defaultValue: row.dflt_value,
+		primaryKey: row.pk,
+		...(row.hidden === 2 && { generated: "VIRTUAL" as const }),
+		...(row.hidden === 3 && { generated: "STORED" as const }),
+	}))
+
+	const indexColumns = (index: string) =>
+		db.sql<{ index: string }>`
+      SELECT cid, name, "desc", coll, "key" FROM pragma_index_xinfo(${"$index"})
+      WHERE "key" = 1 ORDER BY seqno
+    `.all<IndexInfoRow>({ index })
+
+	// Single-column UNIQUE constraints map to a column constraint, the rest to
+	// $$unique
+	const uniqueConstraints = indexRows
+		.filter(index => index.origin === "u")
+		.map(index => indexColumns(index.name))
+		.filter(cols => cols.every(col => col.name !== null))
+		.map(cols => cols.map(col => col.name as string))
+	const uniqueColumns = new Set(
+		uniqueConstraints.filter(cols => cols.length === 1).map(([col]) => col)
+	)
+
+	const primaryKeys = columns.filter(col => col.primaryKey > 0)
+	const autoincrement = /\bAUTOINCREMENT\b/i.test(sql)
+
+	const options = db.sql<{ table: string }>`
+    SELECT wr, strict FROM pragma_table_list(${"$table"}) WHERE schema = 'main'
+  `.get<{ wr: number; strict: number }>(params)
+	const strict = options?.strict === 1
+
+	const { columns: definitions, constraints } = parseCreateTable(sql)
+	// Collations, conflict clauses and generated expressions are only
+	// available from the CREATE TABLE statement
+	const parsedColumn = (column: string): ColumnDefinition | undefined => {
+		try {
+			return parseColumnDef(definitions[column] ?? "")
+		} catch {
+			return undefined
+		}
+	}
+
+	const schema: Record<string, string> = {}
+	for (const col of columns) {
+		const parsed = parsedColumn(col.name)
+		const conflict = (
+			constraint: keyof NonNullable<ColumnDefinition["onConflict"]>
+		) => {
+			const resolution = parsed?.onConflict?.[constraint]
+			return resolution ? ` ON CONFLICT ${resolution}` : ""
+		}
+		// ANY has no affinity and is only kept in STRICT tables
+		const anyType = strict && col.declaredType.toUpperCase() === "ANY"
+		const parts: string[] = [anyType ? "ANY" : col.type]
+		if (primaryKeys.length === 1 && col.primaryKey === 1) {
+			parts.push(`PRIMARY KEY${conflict("primaryKey")}`)
+			if (autoincrement) {
+				parts.push("AUTOINCREMENT")
+			}
+		}
+		if (col.notNull) {
+			parts.push(`NOT NULL${conflict("notNull")}`)
+		}
+		if (uniqueColumns.has(col.name)) {
+			parts.push(`UNIQUE${conflict("unique")}`)
+		}
+		if (col.defaultValue !== null) {
+			parts.push(`DEFAULT ${formatDefault(col.defaultValue)}`)
+		}
+		if (parsed?.collate && parsed.collate !== "BINARY") {
+			parts.push(`COLLATE ${parsed.collate}`)
+		}
+		if (parsed?.generated && col.generated) {
+			parts.push(
+				`GENERATED ALWAYS AS (${parsed.generated.expression}) ${col.generated}`
+			)
+		}
+		schema[col.name] = parts.join(" ")
+	}
+
+	const tableSchema = schema as Schema<DataRow>
+	if (primaryKeys.length > 1) {
+		tableSchema.$$primaryKey = [...primaryKeys]
+			.sort((a, b) => a.primaryKey - b.primaryKey)
+			.map(col => col.name)
+	}
+	const multiColumnUnique = uniqueConstraints.filter(cols => cols.length > 1)
+	if (multiColumnUnique.length > 0) {
+		tableSchema.$$unique = multiColumnUnique
+	}
+
+	const checks = constraints
+		.filter(constraint => /^(CONSTRAINT\s+\S+\s+)?CHECK\b/i.test(constraint))
+		.map(constraint =>
+			balancedParens(constraint, constraint.indexOf("(")).trim()
+		)
+	if (checks.length > 0) {
+		tableSchema.$$checks = checks
+	}
+
+	const foreignKeys = introspectForeignKeys(db, foreignKeyRows)
+	if (foreignKeys.length > 0) {
+		tableSchema.$$foreignKeys = foreignKeys
+	}
+
+	if (strict || options?.wr === 1) {
+		tableSchema.$$options = {
+			...(strict && { strict }),
+			...(options?.wr === 1 && { withoutRowid: true }),
+		}
+	}
+
+	// Index columns inherit the collation declared on the table column
+	const collations = new Map(
+		columns.map(col => [
+			col.name,
+			/\bCOLLATE\s+(\w+)/i.exec(definitions[col.name] ?? "")?.[1] ?? "BINARY",
+		])
+	)
+
+	const indexes = indexRows
+		.filter(index => index.origin === "c")
+		.map(index => {
+			const { sql: indexSql } = db.sql<{ index: string }>`
+        SELECT sql FROM sqlite_schema WHERE type = 'index' AND name = ${"$index"}
+      `.get<{ sql: string }>({ index: index.name }) as { sql: string }
+			return introspectIndex(
+				name,
+				index,
+				indexColumns(index.name),
+				indexSql,
+				collations
+			)
+		})
+		.sort((a, b) => a.name.localeCompare(b.name))
+
+	const triggers = db.sql<{ table: string }>`
+    SELECT name, sql FROM sqlite_schema
+    WHERE type = 'trigger' AND tbl_name = ${"$table"}
+    ORDER BY name
+  `
+		.all<TriggerInfo>(params)
+		.map(row => ({ name: row.name, sql: row.sql }))
+
+	return {
+		name,
+		sql,
+		columns,
+		schema: tableSchema,
+		indexes,
+		foreignKeys,
+		triggers,
+	}
+}
+
+function introspectIndex(
+	tableName: string,
+	index: IndexListRow,
+	columns: IndexInfoRow[],
+	sql: string,
+	collations: Map<string, string>
+): IndexDef<DataRow> {
+	const hasExpression = columns.some(col => col.name === null)
+
+	// Expression indexes keep their column list verbatim, wrapped so that
+	// buildIndexStatement unwraps it again
+	const defColumns = hasExpression
+		? [`expr(${balancedParens(sql, sql.indexOf("(", sql.search(/\bON\b/i)))})`]
+		: columns.map(col => {
+				const desc = col.desc ? " DESC" : ""
+				const inherited = collations.get(col.name as string) ?? "BINARY"
+				const collate =
+					col.coll.toUpperCase() === inherited.toUpperCase()
+						? ""
+						: ` COLLATE ${col.coll}`
+				return `${col.name}${collate}${desc}`
+			})
+
+	const def: IndexDef<DataRow> = {
+		name: index.name as IndexDef<DataRow>["name"],
+		tableName,
+		columns: defColumns as IndexDef<DataRow>["columns"],
+	}
+
+	if (index.partial) {
+		const where = /\bWHERE\b([\s\S]*)$/i.exec(sql)
+		if (where) {
+			def.where = `WHERE ${where[1].trim()}`
+		}
+	}
+
+	if (index.unique) {
+		def.options = { unique: true }
+	}
+
+	return def
+}
+
+function introspectForeignKeys(
+	db: DB,
+	rows: ForeignKeyRow[]
+): ForeignKeyDef<DataRow>[] {
+	const groups = new Map<number, ForeignKeyRow[]>()
+	for (const row of rows) {
+		groups.set(row.id, [...(groups.get(row.id) ?? []), row])
+	}
+
+	return [...groups.values()].reverse().map(group => {
+		const [first] = group
+		// A missing "to" column means the parent's primary key is referenced
+		const references = group.every(row => row.to !== null)
+			? group.map(row => row.to as string)
+			: db.sql<{ table: string }>`
+          SELECT name FROM pragma_table_info(${"$table"}) WHERE pk > 0 ORDER BY pk
+        `
+					.all<{ name: string }>({ table: first.table })
+					.map(row => row.name)
+
+		const fk: ForeignKeyDef<DataRow> = {
+			key: group.map(row => row.from).join(","),
+			references: { table: first.table, columns: references },
+		}
+		if (first.on_delete !== "NO ACTION") {
+			fk.onDelete = first.on_delete
+		}
+		if (first.on_update !== "NO ACTION") {
+			fk.onUpdate = first.on_update
+		}
+		return fk
+	})
+}
@@ -0,0 +1,242 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { buildJoinStatement, validateJoinClause } from "#join"
+import {
+	combineContexts,
+	validateContextCombination,
+	validateSqlContext,
+} from "#context"
+import { DB } from "#database"
+import { NodeSqliteError } from "#errors"
+import type { JoinClause, SqlContext } from "#types"
+
+type User = { id: number; name: string; active: number }
+type Post = { id: number; userId: number; title: string }
+
+describe("validateJoinClause", () => {
+	test("accepts inner, left and cross joins", () => {
+		const joins: JoinClause<User, Post>[] = [
+			{ table: "posts", on: "users.id = posts.userId" },
+			{ type: "LEFT", table: "posts", as: "p", on: "users.id = p.userId" },
+			{ type: "CROSS", table: "tags" },
+			{
+				type: "INNER",
+				table: "posts",
+				on: ["users.id = posts.userId", "users.active = posts.id"],
+			},
+		]
+
+		for (const join of joins) {
+			assert.deepEqual(validateJoinClause(join), [])
+		}
+		assert.deepEqual(validateJoinClause(joins), [])
+	})
+
+	test("rejects missing or malformed conditions", () => {
+		const errors = validateJoinClause({ type: "LEFT", table: "posts" })
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].path, "on")
+
+		const bad = validateJoinClause({
+			table: "posts",
+			on: ["users.id = posts.userId", "users.id ~ posts.userId"],
+		})
+		assert.equal(bad.length, 1)
+		assert.equal(bad[0].path, "on[1]")
+	})
+
+	test("rejects conditions on CROSS joins", () => {
+		const errors = validateJoinClause({
+			type: "CROSS",
+			table: "posts",
+			on: "users.id = posts.userId",
+		})
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].message, "CROSS join cannot have an 'on' condition")
+	})
+
+	test("rejects invalid types, tables and aliases", () => {
+		const errors = validateJoinClause([
+			{ type: "FULL", table: "posts", on: "a.id = b.id" },
+			{ table: "posts; DROP TABLE users", on: "a.id = b.id" },
+			{ table: "posts", as: "p q", on: "a.id = b.id" },
+		])
+		assert.deepEqual(
+			errors.map(e => e.path),
+			["[0].type", "[1].table", "[2].as"]
+		)
+	})
+
+	test("is validated as part of the SQL context", () => {
+		const errors = validateSqlContext<User>({
+			join: { table: "posts", on: "nope" },
+		})
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].path, "join.on")
+	})
+})
+
+describe("buildJoinStatement", () => {
+	test("builds an inner join by default", () => {
+		assert.equal(
+			buildJoinStatement<User>({
+				table: "posts",
+				on: "users.id = posts.userId",
+			}),
+			"INNER JOIN posts ON users.id = posts.userId"
+		)
+	})
+
+	test("builds aliased left joins with multiple conditions", () => {
+		assert.equal(
+			buildJoinStatement<User>({
+				type: "LEFT",
+				table: "posts",
+				as: "p",
+				on: ["users.id = p.userId", "users.active = p.id"],
+			}),
+			"LEFT JOIN posts AS p ON users.id = p.userId AND users.active = p.id"
+		)
+	})
+
+	test("builds multiple joins in order", () => {
+		assert.equal(
+			buildJoinStatement<User>([
+				{ table: "posts", on: "users.id = posts.userId" },
+				{ type: "CROSS", table: "tags" },
+			]),
+			"INNER JOIN posts ON users.id = posts.userId\nCROSS JOIN tags"
+		)
+	})
+
+	test("throws on invalid joins", () => {
+		assert.throws(
+			() =>
+				buildJoinStatement<User>({
+					table: "posts",
+				} as unknown as JoinClause<User>),
+			NodeSqliteError
+		)
+	})
+})
+
+describe("join context combination", () => {
+	test("rejects joins alongside values", () => {
+		const contexts: SqlContext<User>[] = [
+			{ values: ["$name"] },
+			{ join: { table: "posts", on: "users.id = posts.userId" } },
+		]
+		const errors = validateContextCombination(contexts)
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].type, "INCOMPATIBLE_CLAUSE")
+	})
+
+	test("accumulates joins when combining contexts", () => {
+		const combined = combineContexts<User>([
+			{ join: { table: "posts", on: "users.id = posts.userId" } },
+			{ join: { type: "CROSS", table: "tags" } },
+		])
+		assert.deepEqual(combined.join, [
+			{ table: "posts", on: "users.id = posts.userId" },
+			{ type: "CROSS", table: "tags" },
+		])
+	})
+})
+
+describe("JOIN queries", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, active INTEGER);
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, userId INTEGER, title TEXT NOT NULL);
+      INSERT INTO users (id, name, active) VALUES (1, 'alice', 1), (2, 'bob', 1), (3, 'carol', 0);
+      INSERT INTO posts (userId, title) VALUES (1, 'first'), (1, 'second'), (2, 'third');
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("selects qualified columns from both sides", () => {
+		type Row = User & Post
+
+		const query = db.sql<Row>`
+      SELECT ${{ columns: ["users.name", "p.title"] }}
+      FROM users
+      ${{
+				join: { table: "posts", as: "p", on: "users.id = p.userId" },
+				where: "active = $active",
+				orderBy: { title: "ASC" },
+			}}
+    `
+
+		assert.equal(
+			query.sourceSQL({ active: 1 } as Row).trim(),
+			"SELECT users.name,\n  p.title\nFROM users\n  INNER JOIN posts AS p ON users.id = p.userId\nWHERE active = $active\nORDER BY title ASC"
+		)
+		assert.deepEqual(
+			query
+				.all<{ name: string; title: string }>({ active: 1 } as Row)
+				.map(r => ({
+					...r,
+				})),
+			[
+				{ name: "alice", title: "first" },
+				{ name: "alice", title: "second" },
+				{ name: "bob", title: "third" },
+			]
+		)
+	})
+
+	test("types both sides through the joined row type", () => {
+		const query = db.sql<User, User, Post>`
+      SELECT ${{ columns: ["users.name", "posts.title"] }}
+      FROM users
+      ${{
+				join: { table: "posts", on: "users.id = posts.userId" },
+				where: "users.active = $active",
+				orderBy: { name: "DESC" },
+			}}
+    `
+		assert.deepEqual(
+			query
+				.all<Pick<User, "name"> & Pick<Post, "title">>({ active: 1 } as User)
+				.map(r => ({ ...r })),
+			[
+				{ name: "bob", title: "third" },
+				{ name: "alice", title: "first" },
+				{ name: "alice", title: "second" },
+			]
+		)
+
+		const context: SqlContext<User, User, Post> = {
+			// @ts-expect-error posts has no body column
+			columns: ["users.name", "posts.body"],
+			// @ts-expect-error posts has no authorId column
+			join: { table: "posts", on: "users.id = posts.authorId" },
+		}
+		assert.notDeepEqual(context, {})
+	})
+
+	test("left join keeps rows without matches", () => {
+		const query = db.sql<User & Post>`
+      SELECT ${{ columns: ["users.name", "posts.title"] }}
+      FROM users
+      ${{
+				join: { type: "LEFT", table: "posts", on: "users.id = posts.userId" },
+				where: "posts.title IS NULL",
+			}}
+    `
+
+		const rows = query.all<{ name: string; title: null }>()
+		assert.equal(rows.length, 1)
+		assert.equal(rows[0].name, "carol")
+	})
+})
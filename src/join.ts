@@ -0,0 +1,139 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import {
+	JOIN_OPERATORS,
+	JOIN_TYPES,
+	type DataRow,
+	type JoinClause,
+	type JoinType,
+} from "#types"
+import { validationErr, type ValidationError } from "#validate"
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const joinConditionRegex = new RegExp(
+	`^[A-Za-z_][\\w.]*\\s+(${JOIN_OPERATORS.join("|")})\\s+[A-Za-z_][\\w.]*$`
+)
+
+function validateSingleJoin(join: unknown): ValidationError[] {
+	if (typeof join !== "object" || join === null || Array.isArray(join)) {
+		return [validationErr({ msg: "Join must be an object" })]
+	}
+
+	const errors: ValidationError[] = []
+	const { type, table, as, on } = join as Record<string, unknown>
+
+	if (type !== undefined && !JOIN_TYPES.includes(type as JoinType)) {
+		errors.push(
+			validationErr({
+				msg: `Join type must be one of ${JOIN_TYPES.join(", ")}`,
+				path: "type",
+			})
+		)
+	}
+
+	if (typeof table !== "string" || !identifierRegex.test(table)) {
+		errors.push(
+			validationErr({
+				msg: "Join table must be a valid identifier",
+				path: "table",
+			})
+		)
+	}
+
+	if (
+		as !== undefined &&
+		(typeof as !== "string" || !identifierRegex.test(as))
+	) {
+		errors.push(
+			validationErr({
+				msg: "Join alias must be a valid identifier",
+				path: "as",
+			})
+		)
+	}
+
+	if (type === "CROSS") {
+		if (on !== undefined) {
+			errors.push(
+				validationErr({
+					msg: "CROSS join cannot have an 'on' condition",
+					path: "on",
+				})
+			)
+		}
+		return errors
+	}
+
+	const conditions = Array.isArray(on) ? on : [on]
+	if (on === undefined || conditions.length === 0) {
+		errors.push(
+			validationErr({
+				msg: `${type ?? "INNER"} join requires an 'on' condition`,
+				path: "on",
+			})
+		)
+		return errors
+	}
+
+	conditions.forEach((condition, index) => {
+		if (typeof condition !== "string" || !joinConditionRegex.test(condition)) {
+			errors.push(
+				validationErr({
+					msg: `Invalid join condition: ${String(condition)}`,
+					path: Array.isArray(on) ? `on[${index}]` : "on",
+				})
+			)
+		}
+	})
+
+	return errors
+}
+
+export function validateJoinClause(value: unknown): ValidationError[] {
+	if (!Array.isArray(value)) {
+		return validateSingleJoin(value)
+	}
+
+	if (value.length === 0) {
+		return [validationErr({ msg: "Join array must not be empty" })]
+	}
+
+	return value.flatMap((join, index) =>
+		validateSingleJoin(join).map(err => ({
+			...err,
+			path: `[${index}]${err.path ? `.${err.path}` : ""}`,
+		}))
+	)
+}
+
+export function buildJoinStatement<P extends DataRow>(
+	join: JoinClause<P> | JoinClause<P>[]
+): string {
+	const errors = validateJoinClause(join)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_JOIN",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid join clause",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const joins = Array.isArray(join) ? join : [join]
+
+	return joins
+		.map(j => {
+			const alias = j.as ? ` AS ${j.as}` : ""
+			if (j.type === "CROSS") {
+				return `CROSS JOIN ${j.table}${alias}`
+			}
+			const conditions = Array.isArray(j.on) ? j.on : [j.on]
+			return `${j.type ?? "INNER"} JOIN ${j.table}${alias} ON ${conditions.join(" AND ")}`
+		})
+		.join("\n")
+}
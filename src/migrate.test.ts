@@ -0,0 +1,249 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { DB } from "#database"
+import { NodeSqliteError } from "#errors"
+import { loadMigrations, Migrator, type Migration } from "#migrate"
+
+const migrations: Migration[] = [
+	{
+		id: 1,
+		name: "create_users",
+		up: "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)",
+		down: "DROP TABLE users",
+	},
+	{
+		id: 2,
+		name: "add_email",
+		up: "ALTER TABLE users ADD COLUMN email TEXT",
+		down: "ALTER TABLE users DROP COLUMN email",
+	},
+	{
+		id: 3,
+		name: "seed_admin",
+		up: db => {
+			db.sql<{ name: string }>`
+        INSERT INTO users ${{ values: ["$name"] }}
+      `.run({ name: "admin" })
+		},
+		down: db => db.exec("DELETE FROM users WHERE name = 'admin'"),
+	},
+]
+
+const tables = (db: DB) =>
+	db.sql`SELECT name FROM sqlite_schema WHERE type = 'table' ORDER BY name`
+		.all<{ name: string }>()
+		.map(row => row.name)
+
+const isMigrationError = (error: unknown) =>
+	error instanceof NodeSqliteError && error.code === "ERR_SQLITE_MIGRATION"
+
+describe("Migrator", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:", environment: "testing" })
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("applies pending migrations in order and records them", () => {
+		const migrator = new Migrator(db, [...migrations].reverse())
+		const steps = migrator.migrate()
+
+		assert.deepEqual(
+			steps.map(step => [step.id, step.direction]),
+			[
+				[1, "up"],
+				[2, "up"],
+				[3, "up"],
+			]
+		)
+		assert.deepEqual(
+			migrator.applied().map(m => m.name),
+			["create_users", "add_email", "seed_admin"]
+		)
+		assert.equal(migrator.applied()[0].checksum.length, 64)
+		assert.deepEqual(migrator.pending(), [])
+		assert.deepEqual(migrator.migrate(), [])
+	})
+
+	test("migrates up and down to a target version", () => {
+		const migrator = new Migrator(db, migrations)
+		migrator.migrate({ to: 2 })
+		assert.deepEqual(
+			migrator.pending().map(m => m.id),
+			[3]
+		)
+
+		const steps = migrator.migrate({ to: 1 })
+		assert.deepEqual(
+			steps.map(step => [step.id, step.direction]),
+			[[2, "down"]]
+		)
+		assert.deepEqual(
+			migrator.applied().map(m => m.id),
+			[1]
+		)
+	})
+
+	test("rolls back the most recent migrations", () => {
+		const migrator = new Migrator(db, migrations)
+		migrator.migrate()
+
+		migrator.rollback()
+		assert.equal(
+			db.sql`SELECT count(*) AS n FROM users`.get<{ n: number }>()?.n,
+			0
+		)
+
+		migrator.rollback(2)
+		assert.deepEqual(migrator.applied(), [])
+		assert.ok(!tables(db).includes("users"))
+		assert.throws(() => migrator.rollback(0), isMigrationError)
+	})
+
+	test("prints SQL without changing the database in a dry run", () => {
+		const printed: string[] = []
+		const migrator = new Migrator(db, migrations, {
+			print: sql => printed.push(sql),
+		})
+
+		const steps = migrator.migrate({ dryRun: true })
+		assert.equal(steps.length, 3)
+		assert.equal(steps[0].sql, migrations[0].up)
+		assert.equal(steps[2].sql, undefined)
+		assert.equal(
+			printed[0],
+			"-- 001_create_users (up)\nCREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)"
+		)
+		assert.equal(printed[2], "-- 003_seed_admin (up)\n-- function migration")
+		assert.deepEqual(tables(db), [])
+	})
+
+	test("rolls back a failing migration and maps the error", () => {
+		const migrator = new Migrator(db, [
+			migrations[0],
+			{
+				id: 2,
+				name: "broken",
+				up: "ALTER TABLE users ADD COLUMN age INTEGER; INSERT INTO nope VALUES (1);",
+			},
+		])
+
+		assert.throws(
+			() => migrator.migrate(),
+			(error: unknown) =>
+				isMigrationError(error) &&
+				(error as NodeSqliteError).errstr === "Migration failed" &&
+				(error as NodeSqliteError).message.includes("002_broken") &&
+				(error as NodeSqliteError).originalError?.message.includes("nope") ===
+					true
+		)
+
+		assert.deepEqual(
+			migrator.applied().map(m => m.id),
+			[1]
+		)
+		const columns = db.sql`SELECT name FROM pragma_table_info('users')`
+			.all<{ name: string }>()
+			.map(row => row.name)
+		assert.deepEqual(columns, ["id", "name"])
+	})
+
+	test("detects migrations changed after being applied", () => {
+		new Migrator(db, migrations.slice(0, 1)).migrate()
+
+		const changed = new Migrator(db, [
+			{ ...migrations[0], up: `${migrations[0].up} STRICT` },
+		])
+		assert.throws(() => changed.migrate(), isMigrationError)
+	})
+
+	test("refuses to revert migrations without a down step", () => {
+		const migrator = new Migrator(db, [
+			migrations[0],
+			{ id: 2, name: "index_users", up: "CREATE INDEX idx ON users (name)" },
+		])
+		migrator.migrate()
+
+		assert.throws(() => migrator.rollback(2), isMigrationError)
+		assert.equal(migrator.applied().length, 2)
+	})
+
+	test("rejects duplicate and invalid ids", () => {
+		assert.throws(
+			() => new Migrator(db, [migrations[0], migrations[0]]),
+			isMigrationError
+		)
+		assert.throws(
+			() => new Migrator(db, [{ ...migrations[0], id: 0 }]),
+			isMigrationError
+		)
+	})
+})
+
+describe("loadMigrations", () => {
+	let dir: string
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "sqlitex-migrations-"))
+	})
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	test("loads up and down files sorted by id", () => {
+		writeFileSync(
+			join(dir, "002_add_email.sql"),
+			"ALTER TABLE users ADD COLUMN email TEXT"
+		)
+		writeFileSync(
+			join(dir, "001_create_users.sql"),
+			"CREATE TABLE users (id INTEGER PRIMARY KEY)"
+		)
+		writeFileSync(join(dir, "001_create_users.down.sql"), "DROP TABLE users")
+		writeFileSync(join(dir, "README.md"), "ignored")
+
+		const loaded = loadMigrations(dir)
+		assert.deepEqual(loaded, [
+			{
+				id: 1,
+				name: "create_users",
+				up: "CREATE TABLE users (id INTEGER PRIMARY KEY)",
+				down: "DROP TABLE users",
+			},
+			{
+				id: 2,
+				name: "add_email",
+				up: "ALTER TABLE users ADD COLUMN email TEXT",
+			},
+		])
+
+		const db = new DB({ location: ":memory:" })
+		try {
+			new Migrator(db, loaded).migrate()
+			assert.deepEqual(tables(db), ["_sqlitex_migrations", "users"])
+		} finally {
+			db.close()
+		}
+	})
+
+	test("rejects down files without an up file", () => {
+		writeFileSync(join(dir, "001_create_users.down.sql"), "DROP TABLE users")
+		assert.throws(() => loadMigrations(dir), isMigrationError)
+	})
+
+	test("maps unreadable directories to migration errors", () => {
+		assert.throws(() => loadMigrations(join(dir, "missing")), isMigrationError)
+	})
+})
@@ -0,0 +1,411 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { createHash } from "node:crypto"
+import { readdirSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+import type { DB } from "#database"
+import { causedError, type NodeSqliteError } from "#errors"
+import { type Logger, NoopLogger } from "#logger"
+import { raw } from "#sql"
+
+/**
+ * A migration step: a SQL script or a function receiving the database
+ */
+export type MigrationBody = string | ((db: DB) => void)
+
+/**
+ * A single schema migration. Migrations run in ascending id order.
+ * @example
+ * const migration: Migration = {
+ *   id: 1,
+ *   name: "create_users",
+ *   up: "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)",
+ *   down: "DROP TABLE users",
+ * }
+ */
+export interface Migration {
+	/** Positive integer version; must be unique */
+	id: number
+	name: string
+	up: MigrationBody
+	/** Reverts `up`; required to roll the migration back */
+	down?: MigrationBody
+}
+
+/**
+ * A row of the migration tracking table
+ */
+export interface AppliedMigration {
+	id: number
+	name: string
+	checksum: string
+	appliedAt: string
+}
+
+export interface MigrationStep {
+	id: number
+	name: string
+	direction: "up" | "down"
+	/** SQL that was (or would be) executed; undefined for function migrations */
+	sql?: string
+}
+
+export interface MigratorOptions {
+	/** Name of the tracking table, defaults to "_sqlitex_migrations" */
+	table?: string
+	/** Receives the SQL of each step during a dry run, defaults to console.log */
+	print?: (sql: string) => void
+	logger?: Logger
+}
+
+export interface MigrateOptions {
+	/**
+	 * Target version. Pending migrations up to and including `to` are applied;
+	 * applied migrations above `to` are rolled back. Defaults to the latest.
+	 */
+	to?: number
+	/** Print the SQL that would run without changing the database */
+	dryRun?: boolean
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const migrationFileRegex = /^(\d+)_(\w+?)(\.down)?\.sql$/
+
+function migrationError(
+	errstr: string,
+	message: string,
+	error?: unknown
+): NodeSqliteError {
+	return causedError("ERR_SQLITE_MIGRATION", errstr, message, error)
+}
+
+function checksum(body: MigrationBody): string {
+	return createHash("sha256")
+		.update(typeof body === "function" ? body.toString() : body)
+		.digest("hex")
+}
+
+function label(migration: Pick<Migration, "id" | "name">): string {
+	return `${String(migration.id).padStart(3, "0")}_${migration.name}`
+}
+
+/**
+ * Applies and reverts schema migrations, recording each applied migration
+ * with a checksum in a tracking table. Every migration runs in its own
+ * transaction together with its tracking row.
+ * @example
+ * const migrator = new Migrator(db, loadMigrations("./migrations"))
+ * migrator.migrate()
+ * migrator.rollback()
+ */
+export class Migrator {
+	readonly #db: DB
+	readonly #migrations: Migration[]
+	readonly #table: string
+	readonly #print: (sql: string) => void
+	readonly #logger: Logger
+
+	/**
+	 * @param db Database to migrate
+	 * @param migrations Migrations in any order
+	 * @param options Migrator configuration
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_MIGRATION if ids are not
+	 * unique positive integers or the table name is invalid
+	 */
+	constructor(db: DB, migrations: Migration[], options: MigratorOptions = {}) {
+		this.#db = db
+		this.#table = options.table ?? "_sqlitex_migrations"
+		this.#print = options.print ?? console.log
+		this.#logger = options.logger ?? new NoopLogger()
+
+		if (!identifierRegex.test(this.#table)) {
+			throw migrationError(
+				"Invalid migration table",
+				`Invalid migration table name: ${this.#table}`
+			)
+		}
+
+		const seen = new Set<number>()
+		for (const migration of migrations) {
+			if (!Number.isInteger(migration.id) || migration.id <= 0) {
+				throw migrationError(
+					"Invalid migration",
+					`Migration id must be a positive integer: ${migration.id}`
+				)
+			}
+			if (seen.has(migration.id)) {
+				throw migrationError(
+					"Invalid migration",
+					`Duplicate migration id: ${migration.id}`
+				)
+			}
+			seen.add(migration.id)
+		}
+
+		this.#migrations = [...migrations].sort((a, b) => a.id - b.id)
+	}
+
+	/**
+	 * Returns applied migrations ordered by id.
+	 */
+	applied(): AppliedMigration[] {
+		if (!this.#hasTable()) {
+			return []
+		}
+		return this.#db.sql`
+      SELECT id, name, checksum, applied_at AS appliedAt
+      FROM ${raw`${this.#table}`}
+      ORDER BY id
+    `
+			.all<AppliedMigration>()
+			.map(row => ({ ...row }))
+	}
+
+	/**
+	 * Returns migrations that have not been applied yet.
+	 */
+	pending(): Migration[] {
+		const applied = new Set(this.applied().map(m => m.id))
+		return this.#migrations.filter(m => !applied.has(m.id))
+	}
+
+	/**
+	 * Migrates the database to the target version.
+	 * @param options Target version and dry-run flag
+	 * @returns The steps that were run, or would run in a dry run
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_MIGRATION if an applied
+	 * migration was modified, cannot be reverted, or fails to run
+	 */
+	migrate(options: MigrateOptions = {}): MigrationStep[] {
+		const applied = this.applied()
+		this.#verifyChecksums(applied)
+
+		const appliedIds = new Set(applied.map(m => m.id))
+		const to = options.to ?? Number.POSITIVE_INFINITY
+
+		const down = applied
+			.filter(m => m.id > to)
+			.reverse()
+			.map(m => this.#find(m))
+		const up = this.#migrations.filter(m => m.id <= to && !appliedIds.has(m.id))
+
+		return [
+			...this.#runAll(down, "down", options.dryRun),
+			...this.#runAll(up, "up", options.dryRun),
+		]
+	}
+
+	/**
+	 * Reverts the most recently applied migrations.
+	 * @param steps Number of migrations to revert
+	 * @param options Dry-run flag
+	 * @returns The steps that were run, or would run in a dry run
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_MIGRATION if a migration
+	 * has no down step or fails to run
+	 */
+	rollback(
+		steps = 1,
+		options: Pick<MigrateOptions, "dryRun"> = {}
+	): MigrationStep[] {
+		if (!Number.isInteger(steps) || steps < 1) {
+			throw migrationError(
+				"Invalid rollback",
+				`Rollback steps must be a positive integer: ${steps}`
+			)
+		}
+
+		const applied = this.applied()
+		this.#verifyChecksums(applied)
+
+		const down = applied
+			.slice(-steps)
+			.reverse()
+			.map(m => this.#find(m))
+
+		return this.#runAll(down, "down", options.dryRun)
+	}
+
+	#runAll(
+		migrations: Migration[],
+		direction: "up" | "down",
+		dryRun = false
+	): MigrationStep[] {
+		// Check every down step exists before changing anything
+		if (direction === "down") {
+			for (const migration of migrations) {
+				if (migration.down === undefined) {
+					throw migrationError(
+						"Irreversible migration",
+						`Migration ${label(migration)} has no down step`
+					)
+				}
+			}
+		}
+
+		return migrations.map(migration => {
+			const body = migration[direction] as MigrationBody
+			const step: MigrationStep = {
+				id: migration.id,
+				name: migration.name,
+				direction,
+				sql: typeof body === "string" ? body : undefined,
+			}
+
+			if (dryRun) {
+				this.#print(
+					`-- ${label(migration)} (${direction})\n${step.sql ?? "-- function migration"}`
+				)
+				return step
+			}
+
+			this.#run(migration, direction, body)
+			return step
+		})
+	}
+
+	#run(
+		migration: Migration,
+		direction: "up" | "down",
+		body: MigrationBody
+	): void {
+		this.#logger.info(`Running migration ${label(migration)} (${direction})`)
+		this.#ensureTable()
+
+		try {
+			this.#db.transaction(() => {
+				if (typeof body === "function") {
+					body(this.#db)
+				} else {
+					this.#db.exec(body)
+				}
+
+				const table = raw`${this.#table}`
+				if (direction === "up") {
+					this.#db.sql<{ id: number; name: string; checksum: string }>`
+            INSERT INTO ${table} (id, name, checksum)
+            VALUES (${"$id"}, ${"$name"}, ${"$checksum"})
+          `.run({
+						id: migration.id,
+						name: migration.name,
+						checksum: checksum(migration.up),
+					})
+				} else {
+					this.#db.sql<{ id: number }>`
+            DELETE FROM ${table} WHERE id = ${"$id"}
+          `.run({ id: migration.id })
+				}
+			})
+		} catch (error) {
+			this.#logger.error(`Migration ${label(migration)} failed`, { error })
+			throw migrationError(
+				"Migration failed",
+				`Migration ${label(migration)} (${direction}) failed`,
+				error
+			)
+		}
+	}
+
+	#verifyChecksums(applied: AppliedMigration[]): void {
+		for (const row of applied) {
+			const migration = this.#migrations.find(m => m.id === row.id)
+			if (migration && checksum(migration.up) !== row.checksum) {
+				throw migrationError(
+					"Checksum mismatch",
+					`Migration ${label(row)} was modified after it was applied`
+				)
+			}
+		}
+	}
+
+	#find(row: AppliedMigration): Migration {
+		const migration = this.#migrations.find(m => m.id === row.id)
+		if (!migration) {
+			throw migrationError(
+				"Unknown migration",
+				`Applied migration ${label(row)} is not in the migration list`
+			)
+		}
+		return migration
+	}
+
+	#hasTable(): boolean {
+		return (
+			this.#db.sql<{ name: string }>`
+        SELECT 1 AS found FROM sqlite_schema
+        WHERE type = 'table' AND name = ${"$name"}
+      `.get({ name: this.#table }) !== undefined
+		)
+	}
+
+	#ensureTable(): void {
+		this.#db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.#table} (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `)
+	}
+}
+
+/**
+ * Loads migrations from a directory of `NNN_name.sql` files. A matching
+ * `NNN_name.down.sql` file provides the down step.
+ * @param dir Directory containing the migration files
+ * @returns Migrations sorted by id
+ * @throws {NodeSqliteError} With code ERR_SQLITE_MIGRATION if the directory
+ * cannot be read or a down file has no matching up file
+ */
+export function loadMigrations(dir: string): Migration[] {
+	let files: string[]
+	try {
+		files = readdirSync(dir)
+	} catch (error) {
+		throw migrationError(
+			"Cannot read migrations",
+			`Failed to read migrations from ${dir}`,
+			error
+		)
+	}
+
+	const migrations = new Map<number, Partial<Migration>>()
+	for (const file of files.sort()) {
+		const match = migrationFileRegex.exec(file)
+		if (!match) {
+			continue
+		}
+
+		const [, id, name, down] = match
+		const migration = migrations.get(Number(id)) ?? { id: Number(id), name }
+		if (migration.name !== name) {
+			throw migrationError(
+				"Invalid migration",
+				`Migration ${id} has conflicting names: ${migration.name} and ${name}`
+			)
+		}
+
+		const sql = readFileSync(join(dir, file), "utf8")
+		if (down) {
+			migration.down = sql
+		} else {
+			migration.up = sql
+		}
+		migrations.set(Number(id), migration)
+	}
+
+	return [...migrations.values()]
+		.map(migration => {
+			if (migration.up === undefined) {
+				throw migrationError(
+					"Invalid migration",
+					`Migration ${label(migration as Migration)} has a down file but no up file`
+				)
+			}
+			return migration as Migration
+		})
+		.sort((a, b) => a.id - b.id)
+}
@@ -0,0 +1,176 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { unionAll } from "#compound"
+import { DBPool } from "#pool"
+
+describe("DBPool", () => {
+	let dir: string
+	let pool: DBPool
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "sqlitex-pool-"))
+		pool = new DBPool({
+			location: join(dir, "pool.db"),
+			environment: "testing",
+			statementCache: true,
+		})
+		pool.exec(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE
+      );
+    `)
+	})
+
+	afterEach(async () => {
+		await pool.close()
+		rmSync(dir, { recursive: true, force: true })
+	})
+
+	const insertUser = (name: string) =>
+		pool.sql<{ name: string }>`
+      INSERT INTO users ${{ values: ["$name"] }}
+    `.run({ name })
+
+	const countUsers = () =>
+		pool.sql`SELECT count(*) AS n FROM users`.get<{ n: number }>()
+
+	test("opens the database in WAL mode", () => {
+		assert.equal(
+			pool.writer.sql`PRAGMA journal_mode`.get<{ journal_mode: string }>()
+				?.journal_mode,
+			"wal"
+		)
+	})
+
+	test("routes reads to the readers in turn and writes to the writer", async () => {
+		await insertUser("alice")
+		await insertUser("bob")
+		for (let i = 0; i < 4; i++) {
+			assert.equal((await countUsers())?.n, 2)
+		}
+
+		const stats = await pool.getCacheStats()
+		assert.equal(stats.writer?.totalQueries, 2)
+		assert.equal(stats.writer?.hits, 1)
+		assert.deepEqual(
+			stats.readers.map(reader => reader?.totalQueries),
+			[2, 2]
+		)
+	})
+
+	test("routes CTE and compound reads to the readers", async () => {
+		await insertUser("alice")
+		await insertUser("bob")
+		const named = pool.writer.sql<{ name: string }>`
+      SELECT name FROM users WHERE name = ${"$name"}
+    `
+		const longNames = pool.writer.sql`
+      SELECT name FROM users WHERE length(name) > 4
+    `
+
+		const cte = pool.sql<{ name: string }>`
+      ${{ with: { name: "picked", as: named } }}
+      SELECT count(*) AS n FROM picked
+    `
+		assert.equal((await cte.get<{ n: number }>({ name: "bob" }))?.n, 1)
+		const compound = pool.sql<{ name: string }>`${{
+			compound: unionAll(named, longNames),
+		}}`
+		assert.deepEqual(
+			(await compound.all({ name: "bob" })).map(row => row.name),
+			["bob", "alice"]
+		)
+
+		const stats = await pool.getCacheStats()
+		assert.equal(stats.writer?.totalQueries, 2)
+		assert.deepEqual(
+			stats.readers.map(reader => reader?.totalQueries),
+			[1, 1]
+		)
+	})
+
+	test("runs WITH statements that write on the writer", async () => {
+		await pool.sql`
+      WITH names(name) AS (VALUES ('alice'), ('bob'))
+      INSERT INTO users (name) SELECT name FROM names
+    `.run()
+		await pool.sql`
+      WITH doomed AS (SELECT id FROM users WHERE name = 'bob')
+      DELETE FROM users WHERE id IN (SELECT id FROM doomed) RETURNING name
+    `.all()
+		assert.equal((await countUsers())?.n, 1)
+	})
+
+	test("reads on the writer inside a transaction", async () => {
+		let inside: ReturnType<typeof countUsers> | undefined
+		pool.transaction(() => {
+			insertUser("alice")
+			inside = countUsers()
+		})
+		assert.equal((await inside)?.n, 1)
+
+		// A reader would only see the count after the rollback
+		assert.throws(
+			() =>
+				pool.transaction(() => {
+					insertUser("bob")
+					inside = countUsers()
+					throw new Error("rollback")
+				}),
+			{ code: "ERR_SQLITE_TRANSACTION" }
+		)
+		assert.equal((await inside)?.n, 2)
+		assert.equal((await countUsers())?.n, 1)
+	})
+
+	test("rejects with the error codes used by DB", async () => {
+		await insertUser("alice")
+		await assert.rejects(insertUser("alice"), { code: "ERR_SQLITE_MUTATE" })
+		await assert.rejects(pool.sql`SELECT * FROM missing`.all(), {
+			code: "ERR_SQLITE_QUERY",
+		})
+	})
+})
+
+describe("DBPool options", () => {
+	test("rejects configurations readers cannot share", () => {
+		const location = join(tmpdir(), "sqlitex-pool-unused.db")
+		assert.throws(() => new DBPool({ location: ":memory:" }), {
+			code: "ERR_SQLITE_OPEN",
+		})
+		assert.throws(
+			() => new DBPool({ location, pragma: { journalMode: "DELETE" } }),
+			{ code: "ERR_SQLITE_OPEN" }
+		)
+		assert.throws(
+			() => new DBPool({ location, pragma: { lockingMode: "EXCLUSIVE" } }),
+			{ code: "ERR_SQLITE_OPEN" }
+		)
+		assert.throws(() => new DBPool({ location, readers: -1 }), {
+			code: "ERR_SQLITE_OPEN",
+		})
+	})
+
+	test("sends every statement to the writer without readers", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "sqlitex-pool-"))
+		const pool = new DBPool({ location: join(dir, "pool.db"), readers: 0 })
+		try {
+			assert.deepEqual(
+				{ ...(await pool.sql`SELECT 1 AS one`.get()) },
+				{ one: 1 }
+			)
+			assert.deepEqual((await pool.getCacheStats()).readers, [])
+		} finally {
+			await pool.close()
+			rmSync(dir, { recursive: true, force: true })
+		}
+	})
+})
@@ -0,0 +1,329 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { AsyncDB, type AsyncStatement } from "#async-database"
+import type { CacheStats } from "#cache"
+import { DB } from "#database"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { type Logger, NoopLogger } from "#logger"
+import { type PragmaConfig, PragmaDefaults } from "#pragmas"
+import { skipQuoted } from "#schema"
+import type { StatementOptions, ValuesParam, XStatementSync } from "#sql"
+import type {
+	CleanupPragmas,
+	DBOptions,
+	DataRow,
+	SqlTemplateValues,
+	TransactionOptions,
+} from "#types"
+
+/**
+ * Options for DBPool. Every connection shares the same settings; readers
+ * are additionally opened read-only.
+ */
+export interface DBPoolOptions extends DBOptions {
+	/** Database file path; in-memory databases cannot be shared */
+	location: string
+
+	/** Number of read-only connections, defaults to 2 */
+	readers?: number
+}
+
+/**
+ * Statement cache statistics for every connection in a pool
+ */
+export interface PoolCacheStats {
+	writer: CacheStats | undefined
+	/** In the order the readers were opened */
+	readers: (CacheStats | undefined)[]
+}
+
+// Leading whitespace and comments are skipped before the first keyword
+const readPattern =
+	/^(?:\s|--[^\n]*(?:\n|$)|\/\*[\s\S]*?\*\/)*(SELECT|VALUES|WITH)\b/i
+
+// Keywords that start the statement a WITH clause's CTEs belong to
+const statementKeywords = new Set([
+	"SELECT",
+	"VALUES",
+	"INSERT",
+	"REPLACE",
+	"UPDATE",
+	"DELETE",
+])
+
+/**
+ * Whether rendered SQL only reads: it starts with SELECT or VALUES, or with
+ * CTEs followed by a SELECT or VALUES statement
+ */
+function isReadQuery(sql: string): boolean {
+	const match = readPattern.exec(sql)
+	if (!match) {
+		return false
+	}
+	if (match[1].toUpperCase() !== "WITH") {
+		return true
+	}
+
+	// CTE bodies are parenthesized, so the statement starts at the first
+	// statement keyword outside parentheses
+	let depth = 0
+	let i = match[0].length
+	while (i < sql.length) {
+		const ch = sql[i]
+		if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+			i = skipQuoted(sql, i)
+			continue
+		}
+		if (ch === "-" && sql[i + 1] === "-") {
+			const end = sql.indexOf("\n", i)
+			i = end === -1 ? sql.length : end + 1
+			continue
+		}
+		if (ch === "/" && sql[i + 1] === "*") {
+			const end = sql.indexOf("*/", i + 2)
+			i = end === -1 ? sql.length : end + 2
+			continue
+		}
+		if (ch === "(") {
+			depth++
+		} else if (ch === ")") {
+			depth--
+		} else if (depth === 0 && /[A-Za-z_]/.test(ch)) {
+			const word = /^\w+/.exec(sql.slice(i))?.[0] ?? ch
+			const keyword = word.toUpperCase()
+			if (statementKeywords.has(keyword)) {
+				return keyword === "SELECT" || keyword === "VALUES"
+			}
+			i += word.length
+			continue
+		}
+		i++
+	}
+	return false
+}
+
+// Renders a statement the way it runs with the given params, which contexts
+// such as IN lists need. A statement that fails to render runs on the writer,
+// which reports the error.
+function renderedSql<P extends DataRow, R>(
+	statement: XStatementSync<P, R>,
+	params: ValuesParam<P> | undefined
+): string {
+	try {
+		return statement.sql.renderNested(
+			params && !Array.isArray(params) && !(params instanceof Set) ? params : {}
+		).sql
+	} catch {
+		return ""
+	}
+}
+
+function poolConfigError(message: string): NodeSqliteError {
+	return new NodeSqliteError(
+		"ERR_SQLITE_OPEN",
+		SqlitePrimaryResultCode.SQLITE_MISUSE,
+		"Invalid pool configuration",
+		message
+	)
+}
+
+/**
+ * Keeps one writer DB and several read-only AsyncDB connections on the same
+ * WAL database. SELECT statements run on the readers in turn, everything else
+ * runs on the writer. Reads made while a writer transaction is open run on
+ * the writer, so they see the transaction's changes.
+ * @example
+ * const pool = new DBPool({ location: "app.db", readers: 4 })
+ * pool.sql`INSERT INTO users ${{ values: ["$name"] }}`.run({ name: "Ann" })
+ * const users = await pool.sql`SELECT * FROM users`.all()
+ * await pool.close()
+ */
+export class DBPool {
+	readonly #writer: DB
+	readonly #readers: AsyncDB[]
+	readonly #logger: Logger
+	#nextReader = 0
+
+	/**
+	 * Opens the writer, then starts the readers.
+	 * @param options Pool configuration options
+	 * @throws {NodeSqliteError} If the options cannot be used for a pool or the
+	 * writer cannot be opened
+	 */
+	constructor(options: DBPoolOptions) {
+		const { readers = 2, ...dbOptions } = options
+		this.#logger = options.logger ?? new NoopLogger()
+
+		if (!options.location || options.location === ":memory:") {
+			throw poolConfigError("A pool needs a database file, not :memory:")
+		}
+		if (!Number.isInteger(readers) || readers < 0) {
+			throw poolConfigError(
+				`readers must be a non-negative integer, got ${readers}`
+			)
+		}
+
+		// The testing defaults lock the file exclusively, which shuts readers out
+		const pragma: PragmaConfig = {
+			...PragmaDefaults[options.environment ?? "development"],
+			lockingMode: "NORMAL",
+			...options.pragma,
+		}
+		if (pragma.journalMode !== "WAL") {
+			throw poolConfigError(
+				`Readers need journalMode WAL, got ${pragma.journalMode ?? "none"}`
+			)
+		}
+		if (pragma.lockingMode !== "NORMAL") {
+			throw poolConfigError(
+				`Readers need lockingMode NORMAL, got ${pragma.lockingMode}`
+			)
+		}
+
+		// The writer creates the file and switches it to WAL before any reader
+		// opens it
+		this.#writer = new DB({ ...dbOptions, pragma })
+		this.#readers = Array.from(
+			{ length: readers },
+			() => new AsyncDB({ ...dbOptions, pragma, readOnly: true })
+		)
+		this.#logger.info("Database pool opened", {
+			location: options.location,
+			readers,
+		})
+	}
+
+	/**
+	 * The connection used for writes and transactions
+	 */
+	get writer(): DB {
+		return this.#writer
+	}
+
+	/**
+	 * Creates a type-safe SQL query builder using template literals. all() and
+	 * get() on SELECT statements run on a reader; every other call runs on the
+	 * writer before the returned promise is created.
+	 * @param strings SQL template strings
+	 * @param params SQL template parameters and contexts
+	 * @returns Statement routed to the writer or a reader
+	 */
+	sql<P extends DataRow, R = P, J extends DataRow = DataRow>(
+		strings: TemplateStringsArray,
+		...params: SqlTemplateValues<P, R, J>
+	): AsyncStatement<P, R> {
+		const write = this.#writer.sql<P, R, J>(strings, ...params)
+		// Classified from the rendered SQL, so templates that start with a
+		// with or compound context are reads too
+		let read: boolean | undefined
+		// Each reader builds its own statement the first time it runs this one
+		const replicas: AsyncStatement<P, R>[] = []
+		const replica = (
+			values: ValuesParam<P> | undefined
+		): AsyncStatement<P, R> | undefined => {
+			if (this.#readers.length === 0 || this.#writer.inTransaction) {
+				return undefined
+			}
+			read ??= isReadQuery(renderedSql(write, values))
+			if (!read) {
+				return undefined
+			}
+			const index = this.#nextReader++ % this.#readers.length
+			replicas[index] ??= this.#readers[index].sql<P, R, J>(
+				strings,
+				...params
+			)
+			return replicas[index]
+		}
+
+		return {
+			get sql() {
+				return write.sql
+			},
+
+			async all<T = R>(params?: ValuesParam<P>, options?: StatementOptions) {
+				const reader = replica(params)
+				return reader
+					? reader.all<T>(params, options)
+					: write.all<T>(params, options)
+			},
+
+			async get<T = R>(params?: ValuesParam<P>, options?: StatementOptions) {
+				const reader = replica(params)
+				return reader
+					? reader.get<T>(params, options)
+					: write.get<T>(params, options)
+			},
+
+			async run(params?: ValuesParam<P>, options?: StatementOptions) {
+				return write.run(params, options)
+			},
+
+			sourceSQL(params?: ValuesParam<P>) {
+				return write.sourceSQL(params)
+			},
+		}
+	}
+
+	/**
+	 * Executes raw SQL on the writer.
+	 * @param sql SQL statement to execute
+	 * @throws {NodeSqliteError} If execution fails
+	 */
+	exec(sql: string): void {
+		this.#writer.exec(sql)
+	}
+
+	/**
+	 * Runs a function inside a writer transaction. See {@link DB.transaction}.
+	 * Statements from {@link DBPool.sql} run on the writer while it is open,
+	 * but their errors only reject the returned promise; use
+	 * {@link DBPool.writer} for statements whose failure must roll back.
+	 * @param fn Function to run; must be synchronous
+	 * @param options Transaction options
+	 * @returns The value returned by fn
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_TRANSACTION if fn throws
+	 */
+	transaction<T>(fn: () => T, options?: TransactionOptions): T {
+		return this.#writer.transaction(fn, options)
+	}
+
+	/**
+	 * Interrupts the statements running on the writer and every reader.
+	 * See {@link DB.interrupt} and {@link AsyncDB.interrupt}.
+	 */
+	interrupt(): void {
+		this.#writer.interrupt()
+		for (const reader of this.#readers) {
+			reader.interrupt()
+		}
+	}
+
+	/**
+	 * Retrieves prepared statement cache statistics for every connection.
+	 * @returns Statistics for the writer and each reader, undefined where
+	 * caching is disabled
+	 */
+	async getCacheStats(): Promise<PoolCacheStats> {
+		return {
+			writer: this.#writer.getCacheStats(),
+			readers: await Promise.all(
+				this.#readers.map(reader => reader.getCacheStats())
+			),
+		}
+	}
+
+	/**
+	 * Closes the readers, then the writer. Cleanup pragmas run on the writer
+	 * once no reader holds the WAL open.
+	 * @param pragmas Optional cleanup operations to perform before closing
+	 */
+	async close(pragmas?: CleanupPragmas): Promise<void> {
+		this.#logger.info("Closing database pool")
+		await Promise.all(this.#readers.map(reader => reader.close()))
+		this.#writer.close(pragmas)
+		this.#logger.info("Database pool closed")
+	}
+}
@@ -5,7 +5,12 @@
 // columns.test.ts
 import { test, describe, beforeEach, afterEach } from "node:test"
 import assert from "node:assert/strict"
-import { validateSchema, buildSchema } from "./schema"
+import {
+	validateSchema,
+	buildSchema,
+	parseColumnDef,
+	parseCreateTable,
+} from "./schema"
 import { NodeSqliteError } from "#errors"
 import { DB } from "#database"
 import type { Schema } from "#types"
@@ -114,6 +119,178 @@ test("buildColumnsStatement throws on invalid definitions", () => {
 	)
 })
 
+describe("Table constraints and options", () => {
+	interface Membership {
+		team_id: number
+		user_id: number
+		role: string
+		since: number
+		payload: unknown
+	}
+
+	test("renders table constraints after the column list", () => {
+		const schema: Schema<Membership> = {
+			team_id: "INTEGER NOT NULL",
+			user_id: "INTEGER NOT NULL",
+			role: "TEXT",
+			since: "INTEGER",
+			$$primaryKey: ["team_id", "user_id"],
+			$$unique: [["user_id", "role"]],
+			$$checks: ["since > 0 OR role = 'owner'"],
+			$$foreignKeys: [
+				{ key: "team_id", references: { table: "teams", columns: ["id"] } },
+			],
+			$$options: { strict: true, withoutRowid: true },
+		}
+		assert.equal(
+			buildSchema(schema),
+			"(\n  team_id INTEGER NOT NULL,\n  user_id INTEGER NOT NULL,\n  role TEXT,\n  since INTEGER,\n  PRIMARY KEY(team_id, user_id),\n  UNIQUE(user_id, role),\n  CHECK(since > 0 OR role = 'owner'),\n  FOREIGN KEY(team_id) REFERENCES teams(id)\n) WITHOUT ROWID, STRICT"
+		)
+	})
+
+	test("validates table entries", () => {
+		const errors = validateSchema<Membership>({
+			team_id: "INTEGER PRIMARY KEY",
+			role: "TEXT",
+			$$primaryKey: ["team_id", "missing"],
+			$$unique: [[]],
+			$$checks: [""],
+			$$options: { strict: "yes", temporary: true },
+		})
+		assert.deepEqual(
+			errors.map(e => e.path),
+			[
+				"$$options.strict",
+				"$$options.temporary",
+				"$$primaryKey[1]",
+				"team_id",
+				"$$unique[0]",
+				"$$checks[0]",
+			]
+		)
+	})
+
+	test("requires a primary key without AUTOINCREMENT for WITHOUT ROWID", () => {
+		assert.deepEqual(
+			validateSchema({
+				role: "TEXT",
+				$$options: { withoutRowid: true },
+			}).map(e => e.path),
+			["$$options.withoutRowid"]
+		)
+		assert.deepEqual(
+			validateSchema({
+				id: "INTEGER PRIMARY KEY AUTOINCREMENT",
+				$$options: { withoutRowid: true },
+			}).map(e => e.path),
+			["id"]
+		)
+	})
+
+	test("allows STRICT type names only in STRICT tables", () => {
+		const columns = { since: "INT NOT NULL", payload: "ANY" }
+		assert.equal(validateSchema(columns).length, 2)
+		assert.deepEqual(
+			validateSchema({ ...columns, $$options: { strict: true } }),
+			[]
+		)
+		assert.equal(
+			validateSchema({ role: "VARCHAR(10)", $$options: { strict: true } })
+				.length,
+			1
+		)
+	})
+
+	test("creates STRICT tables that reject mismatched values", () => {
+		const db = new DB({ location: ":memory:" })
+		try {
+			db.sql<Membership>`CREATE TABLE members ${{
+				schema: {
+					team_id: "INTEGER NOT NULL",
+					user_id: "INTEGER NOT NULL",
+					payload: "ANY",
+					$$primaryKey: ["team_id", "user_id"],
+					$$options: { strict: true },
+				},
+			}}`.run()
+
+			db.exec("INSERT INTO members VALUES (1, 1, 'anything')")
+			assert.throws(
+				() => db.exec("INSERT INTO members VALUES ('x', 2, NULL)"),
+				/cannot store TEXT value in INTEGER column/
+			)
+			assert.throws(
+				() => db.exec("INSERT INTO members VALUES (1, 1, NULL)"),
+				/UNIQUE constraint failed/
+			)
+		} finally {
+			db.close()
+		}
+	})
+})
+
+describe("Column clauses", () => {
+	test("validates collations, conflict clauses and generated columns", () => {
+		assert.deepEqual(
+			validateSchema({
+				id: "INTEGER PRIMARY KEY ON CONFLICT REPLACE AUTOINCREMENT",
+				email: "TEXT NOT NULL ON CONFLICT FAIL UNIQUE ON CONFLICT IGNORE",
+				name: "TEXT COLLATE NOCASE",
+				total: "REAL GENERATED ALWAYS AS (price * qty) STORED",
+				half: "REAL GENERATED ALWAYS AS (total / 2)",
+			}),
+			[]
+		)
+		assert.deepEqual(
+			validateSchema({
+				a: "TEXT UNIQUE ON CONFLICT OVERWRITE",
+				b: "TEXT COLLATE GERMAN",
+				c: "INTEGER GENERATED ALWAYS AS (a + 1) STORED DEFAULT 0",
+				d: "INTEGER PRIMARY KEY GENERATED ALWAYS AS (1)",
+				e: "REAL GENERATED ALWAYS AS price STORED",
+			}).map(e => e.path),
+			["a", "b", "c", "d", "e"]
+		)
+	})
+
+	test("parses conflict clauses and generated expressions", () => {
+		const column = parseColumnDef(
+			"INTEGER NOT NULL ON CONFLICT ABORT GENERATED ALWAYS AS (a * (b + 1)) STORED"
+		)
+		assert.deepEqual(column.onConflict, { notNull: "ABORT" })
+		assert.deepEqual(column.generated, {
+			expression: "a * (b + 1)",
+			storage: "STORED",
+		})
+		assert.deepEqual(parseColumnDef("AS (a + 1)").generated, {
+			expression: "a + 1",
+			storage: "VIRTUAL",
+		})
+	})
+
+	test("creates tables with column clauses", () => {
+		const db = new DB({ location: ":memory:" })
+		try {
+			type Tag = { id: number; name: string; slug: string }
+			db.sql<Tag>`CREATE TABLE tags ${{
+				schema: {
+					id: "INTEGER PRIMARY KEY",
+					name: "TEXT UNIQUE ON CONFLICT REPLACE COLLATE NOCASE",
+					slug: "TEXT GENERATED ALWAYS AS (lower(name)) VIRTUAL",
+				},
+			}}`.run()
+
+			db.exec("INSERT INTO tags (name) VALUES ('SQL'), ('sql')")
+			assert.deepEqual(
+				db.sql`SELECT name, slug FROM tags`.all<Tag>().map(row => ({ ...row })),
+				[{ name: "sql", slug: "sql" }]
+			)
+		} finally {
+			db.close()
+		}
+	})
+})
+
 describe("Columns Context SQL Generation", () => {
 	let db: DB
 
@@ -172,3 +349,91 @@ describe("Columns Context SQL Generation", () => {
 		)
 	})
 })
+
+describe("Column definition parsing", () => {
+	test("splits a definition into type and constraints", () => {
+		assert.deepEqual(
+			parseColumnDef(
+				"VARCHAR (255) NOT NULL UNIQUE DEFAULT 'a, b' COLLATE nocase CHECK (length(name) > 0)"
+			),
+			{
+				type: "VARCHAR(255)",
+				primaryKey: false,
+				autoincrement: false,
+				notNull: true,
+				unique: true,
+				defaultValue: "'a, b'",
+				collate: "NOCASE",
+				checks: ["length(name) > 0"],
+			}
+		)
+		assert.equal(
+			parseColumnDef("INTEGER PRIMARY KEY AUTOINCREMENT").autoincrement,
+			true
+		)
+		assert.equal(parseColumnDef("REAL DEFAULT (1 + 1)").defaultValue, "(1 + 1)")
+	})
+
+	test("parses inline references", () => {
+		assert.deepEqual(
+			parseColumnDef(
+				"INTEGER FOREIGN KEY REFERENCES users (id) ON DELETE SET NULL ON UPDATE CASCADE"
+			).references,
+			{
+				table: "users",
+				columns: ["id"],
+				onDelete: "SET NULL",
+				onUpdate: "CASCADE",
+			}
+		)
+		assert.deepEqual(
+			parseColumnDef(
+				"INTEGER REFERENCES users(id) MATCH FULL ON DELETE CASCADE NOT DEFERRABLE INITIALLY IMMEDIATE NOT NULL"
+			),
+			{
+				type: "INTEGER",
+				primaryKey: false,
+				autoincrement: false,
+				notNull: true,
+				unique: false,
+				checks: [],
+				references: {
+					table: "users",
+					columns: ["id"],
+					match: "FULL",
+					onDelete: "CASCADE",
+					deferrable: "NOT DEFERRABLE INITIALLY IMMEDIATE",
+				},
+			}
+		)
+		assert.deepEqual(
+			validateSchema({
+				author: "INTEGER REFERENCES users(id) DEFERRABLE INITIALLY DEFERRED",
+				editor: "INTEGER REFERENCES users(id) MATCH SIMPLE DEFERRABLE",
+			}),
+			[]
+		)
+	})
+
+	test("rejects unknown clauses", () => {
+		assert.throws(
+			() => parseColumnDef("TEXT NOT NULL SOMETHING"),
+			NodeSqliteError
+		)
+	})
+
+	test("splits CREATE TABLE statements", () => {
+		const result = parseCreateTable(
+			`CREATE TABLE "users" (id INTEGER PRIMARY KEY, "full name" TEXT DEFAULT 'x,y', price NUMERIC(10, 2), CHECK (price > 0), FOREIGN KEY (id) REFERENCES t (id))`
+		)
+		assert.deepEqual(result.columns, {
+			id: "INTEGER PRIMARY KEY",
+			"full name": "TEXT DEFAULT 'x,y'",
+			price: "NUMERIC(10, 2)",
+		})
+		assert.deepEqual(result.constraints, [
+			"CHECK (price > 0)",
+			"FOREIGN KEY (id) REFERENCES t (id)",
+		])
+	})
+})
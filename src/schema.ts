@@ -1,9 +1,174 @@
 import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors.js"
-import { buildForeignKeyStatement, validateForeignKeys } from "#fk.js"
-import type { DataRow, Schema } from "#types"
+import {
+	buildForeignKeyStatement,
+	type DeferrableStatus,
+	type FKAction,
+	validateForeignKeys,
+} from "#fk.js"
+import type { ConflictResolution, DataRow, Schema } from "#types"
 import { validationErr, type ValidationError } from "#validate"
 
-const columnRegex = /^(TEXT|INTEGER|REAL|BLOB)(\s+.+)?$/
+const columnTypeRegex = /^(TEXT|INTEGER|REAL|BLOB)$/
+
+// Only these type names are allowed in STRICT tables
+const strictColumnTypeRegex = /^(INT|INTEGER|REAL|TEXT|BLOB|ANY)$/
+
+const collations = new Set(["BINARY", "NOCASE", "RTRIM"])
+
+const primaryKeyRegex = /\bPRIMARY\s+KEY\b/i
+
+/**
+ * Returns the column definitions of a schema, skipping the $$ table entries
+ */
+export function columnEntries<T extends DataRow>(
+	schema: Schema<T>
+): [string, string][] {
+	return Object.entries(schema)
+		.filter(([key]) => !key.startsWith("$$"))
+		.map(([key, def]) => [key, String(def).trim()])
+}
+
+/**
+ * Returns the names of generated columns, which cannot be inserted or updated
+ */
+export function generatedColumns<T extends DataRow>(
+	schema: Schema<T>
+): (keyof T & string)[] {
+	return columnEntries(schema)
+		.filter(([, def]) => {
+			try {
+				return parseColumnDef(def).generated !== undefined
+			} catch {
+				return false
+			}
+		})
+		.map(([key]) => key as keyof T & string)
+}
+
+function validateColumnList(
+	value: unknown,
+	columns: Record<string, unknown>,
+	path: string
+): ValidationError[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		return [validationErr({ msg: `${path} must be a non-empty array`, path })]
+	}
+	return value.flatMap((column, idx) =>
+		typeof column === "string" && column in columns && !column.startsWith("$$")
+			? []
+			: [
+					validationErr({
+						msg: `Unknown column '${String(column)}' in ${path}`,
+						path: `${path}[${idx}]`,
+					}),
+				]
+	)
+}
+
+function validateTableOptions(
+	options: unknown,
+	columns: Record<string, unknown>
+): ValidationError[] {
+	if (!options || typeof options !== "object" || Array.isArray(options)) {
+		return [
+			validationErr({
+				msg: "Table options must be an object",
+				path: "$$options",
+			}),
+		]
+	}
+
+	const errors: ValidationError[] = []
+	for (const [key, value] of Object.entries(options)) {
+		if (key !== "strict" && key !== "withoutRowid") {
+			errors.push(
+				validationErr({
+					msg: `Unknown table option '${key}'`,
+					path: `$$options.${key}`,
+				})
+			)
+		} else if (typeof value !== "boolean") {
+			errors.push(
+				validationErr({
+					msg: `Table option '${key}' must be a boolean`,
+					path: `$$options.${key}`,
+				})
+			)
+		}
+	}
+
+	if ((options as { withoutRowid?: boolean }).withoutRowid) {
+		const definitions = Object.entries(columns).filter(
+			([key, def]) => !key.startsWith("$$") && typeof def === "string"
+		) as [string, string][]
+		const hasPrimaryKey =
+			"$$primaryKey" in columns ||
+			definitions.some(([, def]) => primaryKeyRegex.test(def))
+		if (!hasPrimaryKey) {
+			errors.push(
+				validationErr({
+					msg: "WITHOUT ROWID tables must have a primary key",
+					path: "$$options.withoutRowid",
+				})
+			)
+		}
+		for (const [key, def] of definitions) {
+			if (/\bAUTOINCREMENT\b/i.test(def)) {
+				errors.push(
+					validationErr({
+						msg: `AUTOINCREMENT is not allowed in WITHOUT ROWID tables: '${key}'`,
+						path: key,
+					})
+				)
+			}
+		}
+	}
+
+	return errors
+}
+
+// Checks the type name and parses the constraints of a single column
+function validateColumnDef(
+	key: string,
+	def: string,
+	strict: boolean
+): ValidationError[] {
+	let column: ColumnDefinition | undefined
+	try {
+		column = parseColumnDef(def)
+	} catch {
+		// Unknown clauses are reported as an invalid format below
+	}
+
+	const typeRegex = strict ? strictColumnTypeRegex : columnTypeRegex
+	if (!column || !typeRegex.test(column.type)) {
+		return [
+			validationErr({
+				msg: strict
+					? `Invalid column definition format for '${key}' in STRICT table`
+					: `Invalid column definition format for '${key}'`,
+				path: key,
+			}),
+		]
+	}
+
+	const errors: ValidationError[] = []
+	const error = (msg: string) => errors.push(validationErr({ msg, path: key }))
+
+	if (column.collate && !collations.has(column.collate)) {
+		error(`Unknown collation '${column.collate}' for '${key}'`)
+	}
+	if (column.generated) {
+		if (column.defaultValue !== undefined) {
+			error(`Generated column '${key}' cannot have a DEFAULT`)
+		}
+		if (column.primaryKey) {
+			error(`Generated column '${key}' cannot be a PRIMARY KEY`)
+		}
+	}
+
+	return errors
+}
 
 export function validateSchema<T extends DataRow>(
 	value: unknown
@@ -15,8 +180,14 @@ export function validateSchema<T extends DataRow>(
 	const errors: ValidationError[] = []
 	const columns = value as Record<string, unknown>
 
+	if ("$$options" in columns) {
+		errors.push(...validateTableOptions(columns.$$options, columns))
+	}
+	const strict =
+		(columns.$$options as { strict?: unknown } | undefined)?.strict === true
+
 	for (const [key, def] of Object.entries(columns)) {
-		if (key === "$$foreignKeys") {
+		if (key.startsWith("$$")) {
 			continue
 		}
 
@@ -30,16 +201,65 @@ export function validateSchema<T extends DataRow>(
 			continue
 		}
 
-		if (!columnRegex.test(def.trim())) {
+		errors.push(...validateColumnDef(key, def, strict))
+	}
+
+	if ("$$primaryKey" in columns) {
+		errors.push(
+			...validateColumnList(columns.$$primaryKey, columns, "$$primaryKey")
+		)
+		const inline = Object.entries(columns).find(
+			([key, def]) =>
+				!key.startsWith("$$") &&
+				typeof def === "string" &&
+				primaryKeyRegex.test(def)
+		)
+		if (inline) {
 			errors.push(
 				validationErr({
-					msg: `Invalid column definition format for '${key}'`,
-					path: key,
+					msg: `Column '${inline[0]}' cannot be a PRIMARY KEY when $$primaryKey is set`,
+					path: inline[0],
 				})
 			)
 		}
 	}
 
+	if ("$$unique" in columns) {
+		const unique = columns.$$unique
+		if (!Array.isArray(unique)) {
+			errors.push(
+				validationErr({
+					msg: "Unique constraints must be an array",
+					path: "$$unique",
+				})
+			)
+		} else {
+			unique.forEach((cols, idx) => {
+				errors.push(...validateColumnList(cols, columns, `$$unique[${idx}]`))
+			})
+		}
+	}
+
+	if ("$$checks" in columns) {
+		const checks = columns.$$checks
+		if (!Array.isArray(checks)) {
+			errors.push(
+				validationErr({ msg: "Checks must be an array", path: "$$checks" })
+			)
+		} else {
+			checks.forEach((check, idx) => {
+				if (typeof check !== "string" || check.trim() === "") {
+					errors.push(
+						validationErr({
+							msg: "Check must be a non-empty expression",
+							path: `$$checks[${idx}]`,
+						})
+					)
+				}
+			})
+		}
+	}
+
 	if ("$$foreignKeys" in columns) {
 		// Validate the foreign keys array
 		const fks = columns.$$foreignKeys
@@ -84,15 +304,384 @@ export function buildSchema<T extends DataRow>(columns: Schema<T>): string {
 		)
 	}
 
-	const columnDefs = Object.entries(columns)
-		.filter(([key]) => key !== "$$foreignKeys")
-		.map(([name, def]) => `${name} ${String(def).trim()}`)
+	const columnDefs = columnEntries(columns).map(
+		([name, def]) => `${name} ${def}`
+	)
+
+	// Table constraints follow the column list
+	const constraints = [
+		...(columns.$$primaryKey
+			? [`PRIMARY KEY(${columns.$$primaryKey.join(", ")})`]
+			: []),
+		...(columns.$$unique ?? []).map(cols => `UNIQUE(${cols.join(", ")})`),
+		...(columns.$$checks ?? []).map(check => `CHECK(${check.trim()})`),
+	]
 
 	const foreignKeys = columns.$$foreignKeys
 		? buildForeignKeyStatement(columns.$$foreignKeys)
 		: null
 
-	const allDefs = foreignKeys ? [...columnDefs, foreignKeys] : columnDefs
+	const allDefs = [
+		...columnDefs,
+		...constraints,
+		...(foreignKeys ? [foreignKeys] : []),
+	]
+
+	const options = [
+		...(columns.$$options?.withoutRowid ? ["WITHOUT ROWID"] : []),
+		...(columns.$$options?.strict ? ["STRICT"] : []),
+	]
+
+	return `(\n  ${allDefs.join(",\n  ")}\n)${options.length > 0 ? ` ${options.join(", ")}` : ""}`
+}
+
+/**
+ * A column definition split into its parts
+ */
+export interface ColumnDefinition {
+	/** Declared type, empty when the column has none */
+	type: string
+	primaryKey: boolean
+	autoincrement: boolean
+	notNull: boolean
+	unique: boolean
+	/** Default value as SQL text */
+	defaultValue?: string
+	collate?: string
+	/** CHECK expressions without the surrounding parentheses */
+	checks: string[]
+	/** Conflict clauses of the PRIMARY KEY, NOT NULL and UNIQUE constraints */
+	onConflict?: Partial<
+		Record<"primaryKey" | "notNull" | "unique", ConflictResolution>
+	>
+	/** GENERATED ALWAYS AS expression, without the surrounding parentheses */
+	generated?: { expression: string; storage: "STORED" | "VIRTUAL" }
+	/** Inline REFERENCES constraint */
+	references?: {
+		table: string
+		columns: string[]
+		onDelete?: FKAction
+		onUpdate?: FKAction
+		/** MATCH clause name, parsed but ignored by SQLite */
+		match?: string
+		deferrable?: DeferrableStatus
+	}
+}
+
+const conflictResolutions = new Set([
+	"ROLLBACK",
+	"ABORT",
+	"FAIL",
+	"IGNORE",
+	"REPLACE",
+])
+
+const constraintKeywords = new Set([
+	"CONSTRAINT",
+	"PRIMARY",
+	"NOT",
+	"NULL",
+	"UNIQUE",
+	"CHECK",
+	"DEFAULT",
+	"COLLATE",
+	"REFERENCES",
+	"FOREIGN",
+	"GENERATED",
+	"AS",
+])
+
+// Returns the index just past a quoted identifier or string starting at `start`
+export function skipQuoted(sql: string, start: number): number {
+	const close = sql[start] === "[" ? "]" : sql[start]
+	let i = start + 1
+	while (i < sql.length) {
+		if (sql[i] === close) {
+			if (sql[i + 1] === close && close !== "]") {
+				i += 2
+				continue
+			}
+			return i + 1
+		}
+		i++
+	}
+	return i
+}
+
+// Returns the index just past the parenthesized group starting at `start`
+function skipGroup(sql: string, start: number): number {
+	let depth = 0
+	let i = start
+	while (i < sql.length) {
+		const ch = sql[i]
+		if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+			i = skipQuoted(sql, i)
+			continue
+		}
+		if (ch === "(") {
+			depth++
+		} else if (ch === ")") {
+			depth--
+			if (depth === 0) {
+				return i + 1
+			}
+		}
+		i++
+	}
+	return i
+}
+
+// Splits SQL into words, quoted strings and parenthesized groups
+function tokenize(sql: string): string[] {
+	const tokens: string[] = []
+	let i = 0
+	while (i < sql.length) {
+		const ch = sql[i]
+		if (/\s/.test(ch)) {
+			i++
+			continue
+		}
+		let end: number
+		if (ch === "(") {
+			end = skipGroup(sql, i)
+		} else if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+			end = skipQuoted(sql, i)
+		} else {
+			end = i
+			while (end < sql.length && !/[\s(]/.test(sql[end])) {
+				end++
+			}
+		}
+		tokens.push(sql.slice(i, end))
+		i = end
+	}
+	return tokens
+}
+
+function unquote(name: string): string {
+	return /^["`[]/.test(name) ? name.slice(1, -1) : name
+}
+
+function innerGroup(group: string): string {
+	return group.slice(1, -1).trim()
+}
+
+/**
+ * Parses a column definition such as "TEXT NOT NULL DEFAULT 'a'" into its
+ * type and constraints.
+ * @param def Column definition without the column name
+ * @throws {NodeSqliteError} If the definition contains an unknown clause
+ */
+export function parseColumnDef(def: string): ColumnDefinition {
+	const tokens = tokenize(def)
+	const column: ColumnDefinition = {
+		type: "",
+		primaryKey: false,
+		autoincrement: false,
+		notNull: false,
+		unique: false,
+		checks: [],
+	}
+
+	const upper = (index: number) => tokens[index]?.toUpperCase()
+
+	// Reads an optional ON CONFLICT clause following a constraint
+	const conflictClause = (constraint: "primaryKey" | "notNull" | "unique") => {
+		if (upper(i) !== "ON" || upper(i + 1) !== "CONFLICT") {
+			return
+		}
+		const resolution = upper(i + 2)
+		if (!conflictResolutions.has(resolution)) {
+			throw new NodeSqliteError(
+				"ERR_SQLITE_COLUMNS",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Invalid column definition",
+				`Invalid conflict resolution '${tokens[i + 2] ?? ""}' in column definition: ${def}`,
+				undefined
+			)
+		}
+		column.onConflict = {
+			...column.onConflict,
+			[constraint]: resolution as ConflictResolution,
+		}
+		i += 3
+	}
+
+	let i = 0
+	const typeParts: string[] = []
+	while (i < tokens.length && !constraintKeywords.has(upper(i))) {
+		typeParts.push(tokens[i])
+		i++
+	}
+	column.type = typeParts.join(" ").replace(/\s+\(/g, "(")
+
+	while (i < tokens.length) {
+		const token = upper(i)
+		if (token === "CONSTRAINT") {
+			i += 2
+		} else if (token === "PRIMARY" && upper(i + 1) === "KEY") {
+			column.primaryKey = true
+			i += 2
+			if (upper(i) === "ASC" || upper(i) === "DESC") {
+				i++
+			}
+			conflictClause("primaryKey")
+			if (upper(i) === "AUTOINCREMENT") {
+				column.autoincrement = true
+				i++
+			}
+		} else if (token === "NOT" && upper(i + 1) === "NULL") {
+			column.notNull = true
+			i += 2
+			conflictClause("notNull")
+		} else if (token === "NULL") {
+			i++
+		} else if (token === "UNIQUE") {
+			column.unique = true
+			i++
+			conflictClause("unique")
+		} else if (token === "CHECK" && tokens[i + 1]?.startsWith("(")) {
+			column.checks.push(innerGroup(tokens[i + 1]))
+			i += 2
+		} else if (token === "DEFAULT" && i + 1 < tokens.length) {
+			column.defaultValue = tokens[i + 1]
+			i += 2
+		} else if (token === "COLLATE" && i + 1 < tokens.length) {
+			column.collate = tokens[i + 1].toUpperCase()
+			i += 2
+		} else if (
+			(token === "GENERATED" &&
+				upper(i + 1) === "ALWAYS" &&
+				upper(i + 2) === "AS") ||
+			token === "AS"
+		) {
+			// GENERATED ALWAYS is optional, AS alone starts a generated column
+			i += token === "AS" ? 1 : 3
+			if (!tokens[i]?.startsWith("(")) {
+				throw new NodeSqliteError(
+					"ERR_SQLITE_COLUMNS",
+					SqlitePrimaryResultCode.SQLITE_ERROR,
+					"Invalid column definition",
+					`Generated column needs a parenthesized expression: ${def}`,
+					undefined
+				)
+			}
+			const expression = innerGroup(tokens[i])
+			i++
+			let storage: "STORED" | "VIRTUAL" = "VIRTUAL"
+			if (upper(i) === "STORED" || upper(i) === "VIRTUAL") {
+				storage = upper(i) as "STORED" | "VIRTUAL"
+				i++
+			}
+			column.generated = { expression, storage }
+		} else if (token === "FOREIGN" && upper(i + 1) === "KEY") {
+			i += 2
+		} else if (token === "REFERENCES" && i + 1 < tokens.length) {
+			const references: NonNullable<ColumnDefinition["references"]> = {
+				table: unquote(tokens[i + 1]),
+				columns: [],
+			}
+			i += 2
+			if (tokens[i]?.startsWith("(")) {
+				references.columns = innerGroup(tokens[i])
+					.split(",")
+					.map(col => unquote(col.trim()))
+				i++
+			}
+			while (
+				(upper(i) === "ON" && /^(DELETE|UPDATE)$/.test(upper(i + 1))) ||
+				(upper(i) === "MATCH" && i + 1 < tokens.length)
+			) {
+				if (upper(i) === "MATCH") {
+					references.match = tokens[i + 1].toUpperCase()
+					i += 2
+					continue
+				}
+				const event = upper(i + 1)
+				i += 2
+				let action = upper(i)
+				i++
+				if (action === "SET" || action === "NO") {
+					action = `${action} ${upper(i)}`
+					i++
+				}
+				if (event === "DELETE") {
+					references.onDelete = action as FKAction
+				} else {
+					references.onUpdate = action as FKAction
+				}
+			}
+			// [NOT] DEFERRABLE [INITIALLY DEFERRED|IMMEDIATE] ends the clause
+			const not = upper(i) === "NOT" && upper(i + 1) === "DEFERRABLE"
+			if (not || upper(i) === "DEFERRABLE") {
+				const parts = not ? ["NOT", "DEFERRABLE"] : ["DEFERRABLE"]
+				i += parts.length
+				if (
+					upper(i) === "INITIALLY" &&
+					/^(DEFERRED|IMMEDIATE)$/.test(upper(i + 1))
+				) {
+					parts.push("INITIALLY", upper(i + 1))
+					i += 2
+				}
+				references.deferrable = parts.join(" ") as DeferrableStatus
+			}
+			column.references = references
+		} else {
+			throw new NodeSqliteError(
+				"ERR_SQLITE_COLUMNS",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Invalid column definition",
+				`Unsupported clause '${tokens[i]}' in column definition: ${def}`,
+				undefined
+			)
+		}
+	}
+
+	return column
+}
+
+/**
+ * Splits a CREATE TABLE statement into column definitions and table
+ * constraints.
+ * @param sql CREATE TABLE statement as stored in sqlite_schema
+ * @returns Definitions keyed by column name, and table constraints
+ */
+export function parseCreateTable(sql: string): {
+	columns: Record<string, string>
+	constraints: string[]
+} {
+	const start = sql.indexOf("(")
+	const body = sql.slice(start + 1, skipGroup(sql, start) - 1)
+
+	const parts: string[] = []
+	let from = 0
+	let i = 0
+	while (i < body.length) {
+		const ch = body[i]
+		if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+			i = skipQuoted(body, i)
+		} else if (ch === "(") {
+			i = skipGroup(body, i)
+		} else {
+			if (ch === ",") {
+				parts.push(body.slice(from, i).trim())
+				from = i + 1
+			}
+			i++
+		}
+	}
+	parts.push(body.slice(from).trim())
+
+	const columns: Record<string, string> = {}
+	const constraints: string[] = []
+	for (const part of parts) {
+		const [name] = tokenize(part)
+		if (/^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN)$/i.test(name)) {
+			constraints.push(part)
+		} else {
+			columns[unquote(name)] = part.slice(name.length).trim()
+		}
+	}
 
-	return `(\n  ${allDefs.join(",\n  ")}\n)`
+	return { columns, constraints }
 }
@@ -0,0 +1,208 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { invertChangeset, type ConflictType } from "#session"
+
+let source: DB
+let replica: DB
+
+const schema = `
+  CREATE TABLE notes (id INTEGER PRIMARY KEY, title TEXT NOT NULL, body TEXT);
+  CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+`
+
+beforeEach(() => {
+	source = new DB({ location: ":memory:", environment: "testing" })
+	replica = new DB({ location: ":memory:", environment: "testing" })
+	source.exec(schema)
+	replica.exec(schema)
+})
+
+afterEach(() => {
+	source.close()
+	replica.close()
+})
+
+const rows = (db: DB, table: "notes" | "tags") =>
+	db
+		.prepareStatement(`SELECT * FROM ${table} ORDER BY id`)
+		.all()
+		.map(row => ({ ...row }))
+
+describe("DB.session", () => {
+	test("records changes that sync another database", () => {
+		source.exec("INSERT INTO notes VALUES (1, 'draft', NULL)")
+		replica.exec("INSERT INTO notes VALUES (1, 'draft', NULL)")
+
+		using session = source.session()
+		source.exec(`
+      INSERT INTO notes VALUES (2, 'todo', 'buy milk');
+      UPDATE notes SET body = 'hello' WHERE id = 1;
+      INSERT INTO tags VALUES (1, 'home');
+    `)
+
+		assert.equal(replica.applyChangeset(session.changeset()), true)
+		assert.deepEqual(rows(replica, "notes"), rows(source, "notes"))
+		assert.deepEqual(rows(replica, "tags"), [{ id: 1, name: "home" }])
+	})
+
+	test("records only the given table", () => {
+		const session = source.session({ table: "tags" })
+		source.exec(`
+      INSERT INTO notes VALUES (1, 'ignored', NULL);
+      INSERT INTO tags VALUES (1, 'work');
+    `)
+		replica.applyChangeset(session.patchset())
+		session.close()
+
+		assert.deepEqual(rows(replica, "notes"), [])
+		assert.deepEqual(rows(replica, "tags"), [{ id: 1, name: "work" }])
+		assert.equal(session.isOpen, false)
+	})
+
+	test("throws once the session is closed", () => {
+		const session = source.session()
+		session.close()
+		session.close()
+		assert.throws(() => session.changeset(), { code: "ERR_SQLITE_SESSION" })
+	})
+})
+
+describe("DB.applyChangeset", () => {
+	const recordInsert = () => {
+		const session = source.session()
+		source.exec("INSERT INTO notes VALUES (1, 'from source', NULL)")
+		const changeset = session.changeset()
+		session.close()
+		return changeset
+	}
+
+	test("aborts and rolls back on conflict by default", () => {
+		const changeset = recordInsert()
+		source.exec("INSERT INTO tags VALUES (1, 'new')")
+		replica.exec("INSERT INTO notes VALUES (1, 'local', NULL)")
+
+		assert.equal(replica.applyChangeset(changeset), false)
+		assert.deepEqual(rows(replica, "notes"), [
+			{ id: 1, title: "local", body: null },
+		])
+	})
+
+	test("passes typed conflicts to the handler", () => {
+		const changeset = recordInsert()
+		replica.exec("INSERT INTO notes VALUES (1, 'local', NULL)")
+
+		const conflicts: ConflictType[] = []
+		assert.equal(
+			replica.applyChangeset(changeset, {
+				onConflict: conflict => {
+					conflicts.push(conflict)
+					return "omit"
+				},
+			}),
+			true
+		)
+		assert.deepEqual(conflicts, ["conflict"])
+		assert.equal(rows(replica, "notes")[0].title, "local")
+
+		replica.applyChangeset(changeset, { onConflict: "replace" })
+		assert.equal(rows(replica, "notes")[0].title, "from source")
+	})
+
+	test("skips tables the filter rejects", () => {
+		const session = source.session()
+		source.exec(`
+      INSERT INTO notes VALUES (1, 'note', NULL);
+      INSERT INTO tags VALUES (1, 'tag');
+    `)
+		replica.applyChangeset(session.changeset(), {
+			filter: table => table === "tags",
+		})
+		session.close()
+		assert.deepEqual(rows(replica, "notes"), [])
+		assert.equal(rows(replica, "tags").length, 1)
+	})
+
+	test("wraps handler and format errors", () => {
+		const changeset = recordInsert()
+		replica.exec("INSERT INTO notes VALUES (1, 'local', NULL)")
+		assert.throws(
+			() =>
+				replica.applyChangeset(changeset, {
+					onConflict: () => {
+						throw new Error("no sync today")
+					},
+				}),
+			(error: unknown) =>
+				error instanceof NodeSqliteError &&
+				error.code === "ERR_SQLITE_CHANGESET" &&
+				error.originalError?.message === "no sync today"
+		)
+		assert.throws(
+			() =>
+				replica.applyChangeset(changeset, {
+					onConflict: () => "skip" as "omit",
+				}),
+			{ code: "ERR_SQLITE_CHANGESET" }
+		)
+		assert.throws(() => replica.applyChangeset(Uint8Array.of(1, 2, 3)), {
+			code: "ERR_SQLITE_CHANGESET",
+		})
+	})
+})
+
+describe("invertChangeset", () => {
+	test("undoes inserts, updates and deletes", () => {
+		source.exec(`
+      INSERT INTO notes VALUES (1, 'keep', 'original'), (2, 'remove', NULL);
+      INSERT INTO tags VALUES (1, 'home');
+    `)
+		const before = { notes: rows(source, "notes"), tags: rows(source, "tags") }
+
+		const session = source.session()
+		source.exec(`
+      UPDATE notes SET body = 'edited', title = 'kept' WHERE id = 1;
+      DELETE FROM notes WHERE id = 2;
+      INSERT INTO notes VALUES (3, 'added', x'00ff');
+      UPDATE tags SET id = 5 WHERE id = 1;
+    `)
+		const changeset = session.changeset()
+		session.close()
+
+		assert.equal(source.applyChangeset(invertChangeset(changeset)), true)
+		assert.deepEqual(rows(source, "notes"), before.notes)
+		assert.deepEqual(rows(source, "tags"), before.tags)
+
+		// Inverting twice redoes the changes
+		source.applyChangeset(invertChangeset(invertChangeset(changeset)))
+		assert.deepEqual(
+			rows(source, "notes").map(row => row.title),
+			["kept", "added"]
+		)
+	})
+
+	test("rejects patchsets and malformed input", () => {
+		const session = source.session()
+		source.exec("INSERT INTO notes VALUES (1, 'note', NULL)")
+		const patchset = session.patchset()
+		const changeset = session.changeset()
+		session.close()
+
+		assert.throws(() => invertChangeset(patchset), {
+			code: "ERR_SQLITE_CHANGESET",
+		})
+		assert.throws(
+			() => invertChangeset(changeset.subarray(0, changeset.length - 3)),
+			(error: unknown) =>
+				error instanceof NodeSqliteError &&
+				error.code === "ERR_SQLITE_CHANGESET" &&
+				error.getPrimaryResultCode() === SqlitePrimaryResultCode.SQLITE_CORRUPT
+		)
+		assert.deepEqual(invertChangeset(new Uint8Array()), new Uint8Array())
+	})
+})
@@ -0,0 +1,346 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import {
+	constants,
+	type ApplyChangesetOptions as NodeApplyChangesetOptions,
+	type Session as NodeSession,
+} from "node:sqlite"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+
+/**
+ * Options for DB.session
+ */
+export interface SessionOptions {
+	/** Table to record changes for; all tables by default */
+	table?: string
+
+	/** Attached database to record, defaults to "main" */
+	db?: string
+}
+
+/**
+ * Why a change could not be applied as recorded:
+ * - data: the row of a DELETE or UPDATE holds other values than expected
+ * - notFound: the row of a DELETE or UPDATE does not exist
+ * - conflict: an INSERT duplicates a primary key
+ * - constraint: a change violates a UNIQUE, CHECK or NOT NULL constraint
+ * - foreignKey: the applied changes leave foreign key violations; reported
+ *   once, before committing
+ * @see https://www.sqlite.org/session/c_changeset_conflict.html
+ */
+export type ConflictType =
+	| "data"
+	| "notFound"
+	| "conflict"
+	| "constraint"
+	| "foreignKey"
+
+/**
+ * How to handle a conflicting change. replace is only allowed for data and
+ * conflict; abort rolls back every change applied so far.
+ */
+export type ConflictResolution = "omit" | "replace" | "abort"
+
+export type ConflictHandler = (conflict: ConflictType) => ConflictResolution
+
+/**
+ * Options for DB.applyChangeset
+ */
+export interface ApplyChangesetOptions {
+	/** Resolution for every conflict, or a handler choosing one; defaults to abort */
+	onConflict?: ConflictResolution | ConflictHandler
+
+	/** Returns whether to apply the changes made to a table */
+	filter?: (table: string) => boolean
+}
+
+const conflictTypes: Record<number, ConflictType> = {
+	[constants.SQLITE_CHANGESET_DATA]: "data",
+	[constants.SQLITE_CHANGESET_NOTFOUND]: "notFound",
+	[constants.SQLITE_CHANGESET_CONFLICT]: "conflict",
+	// SQLITE_CHANGESET_CONSTRAINT, missing from the node:sqlite typings
+	4: "constraint",
+	[constants.SQLITE_CHANGESET_FOREIGN_KEY]: "foreignKey",
+}
+
+const conflictResolutions: Record<ConflictResolution, number> = {
+	omit: constants.SQLITE_CHANGESET_OMIT,
+	replace: constants.SQLITE_CHANGESET_REPLACE,
+	abort: constants.SQLITE_CHANGESET_ABORT,
+}
+
+export function changesetError(
+	message: string,
+	errcode: number = SqlitePrimaryResultCode.SQLITE_ERROR,
+	cause?: unknown
+): NodeSqliteError {
+	return new NodeSqliteError(
+		"ERR_SQLITE_CHANGESET",
+		errcode,
+		"Changeset failed",
+		message,
+		cause instanceof Error ? cause : undefined
+	)
+}
+
+/**
+ * Translates changeset options to the ones node:sqlite takes
+ */
+export function toNodeApplyOptions(
+	options: ApplyChangesetOptions = {}
+): NodeApplyChangesetOptions {
+	const { onConflict = "abort", filter } = options
+	const handler =
+		typeof onConflict === "function" ? onConflict : () => onConflict
+
+	return {
+		// node:sqlite rejects an undefined filter
+		...(filter && { filter }),
+		onConflict: type => {
+			const resolution = handler(conflictTypes[type])
+			if (!Object.hasOwn(conflictResolutions, resolution)) {
+				throw new TypeError(`Invalid conflict resolution: ${resolution}`)
+			}
+			return conflictResolutions[resolution]
+		},
+	}
+}
+
+/**
+ * Records the changes made through a connection so they can be applied to
+ * another database, or inverted to undo them. Changes to the same row are
+ * merged, so a changeset holds the net effect since the session started.
+ * Only tables with a PRIMARY KEY are recorded.
+ * @example
+ * using session = db.session({ table: "notes" })
+ * db.sql`UPDATE notes SET body = ${"$body"} WHERE id = ${"$id"}`.run(edit)
+ * replica.applyChangeset(session.changeset())
+ */
+export class Session {
+	readonly #session: NodeSession
+	#open = true
+
+	constructor(session: NodeSession) {
+		this.#session = session
+	}
+
+	/**
+	 * Whether the session still records changes
+	 */
+	get isOpen(): boolean {
+		return this.#open
+	}
+
+	/**
+	 * Returns every change recorded so far, with the old and new values of
+	 * each row. Can be called repeatedly; recording continues.
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SESSION if the session or
+	 * its database is closed
+	 */
+	changeset(): Uint8Array {
+		return this.#call(() => this.#session.changeset())
+	}
+
+	/**
+	 * Returns a patchset, a smaller changeset that leaves out the old values of
+	 * updated and deleted rows. Patchsets cannot be inverted and report fewer
+	 * conflicts when applied.
+	 * @throws {NodeSqliteError} With code ERR_SQLITE_SESSION if the session or
+	 * its database is closed
+	 */
+	patchset(): Uint8Array {
+		return this.#call(() => this.#session.patchset())
+	}
+
+	/**
+	 * Stops recording. Closing twice is a no-op.
+	 */
+	close(): void {
+		if (this.#open) {
+			this.#open = false
+			this.#call(() => this.#session.close())
+		}
+	}
+
+	[Symbol.dispose](): void {
+		this.close()
+	}
+
+	#call<T>(fn: () => T): T {
+		try {
+			return fn()
+		} catch (error) {
+			throw new NodeSqliteError(
+				"ERR_SQLITE_SESSION",
+				SqlitePrimaryResultCode.SQLITE_MISUSE,
+				"Session failed",
+				error instanceof Error ? error.message : String(error),
+				error instanceof Error ? error : undefined
+			)
+		}
+	}
+}
+
+// Record type codes of the changeset format, described in sqlite3session.c
+const TABLE_CHANGESET = 0x54 // "T"
+const TABLE_PATCHSET = 0x50 // "P"
+const SQLITE_DELETE = 9
+const SQLITE_INSERT = 18
+const SQLITE_UPDATE = 23
+const UNDEFINED = Uint8Array.of(0)
+
+function corrupt(offset: number): NodeSqliteError {
+	return changesetError(
+		`Malformed changeset at byte ${offset}`,
+		SqlitePrimaryResultCode.SQLITE_CORRUPT
+	)
+}
+
+class ChangesetReader {
+	offset = 0
+
+	constructor(readonly data: Uint8Array) {}
+
+	get done(): boolean {
+		return this.offset >= this.data.length
+	}
+
+	byte(): number {
+		if (this.done) {
+			throw corrupt(this.offset)
+		}
+		return this.data[this.offset++]
+	}
+
+	// SQLite varints hold 7 bits per byte, big-endian, with the high bit
+	// marking that more bytes follow
+	varint(): number {
+		let value = 0
+		for (let i = 0; i < 9; i++) {
+			const byte = this.byte()
+			if (i === 8) {
+				return value * 256 + byte
+			}
+			value = value * 128 + (byte & 0x7f)
+			if (byte < 0x80) {
+				return value
+			}
+		}
+		return value
+	}
+
+	take(length: number): Uint8Array {
+		if (this.offset + length > this.data.length) {
+			throw corrupt(this.offset)
+		}
+		const bytes = this.data.subarray(this.offset, this.offset + length)
+		this.offset += length
+		return bytes
+	}
+
+	// Returns the encoded value, type byte included
+	value(): Uint8Array {
+		const start = this.offset
+		const type = this.byte()
+		switch (type) {
+			case 0: // undefined
+			case 5: // NULL
+				break
+			case 1: // INTEGER
+			case 2: // REAL
+				this.take(8)
+				break
+			case 3: // TEXT
+			case 4: // BLOB
+				this.take(this.varint())
+				break
+			default:
+				throw corrupt(start)
+		}
+		return this.data.subarray(start, this.offset)
+	}
+
+	record(columns: number): Uint8Array[] {
+		return Array.from({ length: columns }, () => this.value())
+	}
+}
+
+/**
+ * Inverts a changeset, turning inserts into deletes, deletes into inserts and
+ * swapping the old and new values of updates. Applying the result undoes the
+ * original changes.
+ * @param changeset Changeset from Session.changeset(); patchsets lack the old
+ * values needed to invert them
+ * @throws {NodeSqliteError} With code ERR_SQLITE_CHANGESET if the input is a
+ * patchset or malformed
+ * @example
+ * const changes = session.changeset()
+ * db.applyChangeset(invertChangeset(changes)) // undo
+ */
+export function invertChangeset(changeset: Uint8Array): Uint8Array {
+	const reader = new ChangesetReader(changeset)
+	const chunks: Uint8Array[] = []
+	let primaryKey: boolean[] | undefined
+
+	while (!reader.done) {
+		const start = reader.offset
+		const op = reader.byte()
+
+		if (op === TABLE_PATCHSET) {
+			throw changesetError("Patchsets cannot be inverted")
+		}
+		if (op === TABLE_CHANGESET) {
+			const columns = reader.varint()
+			primaryKey = Array.from(reader.take(columns), flag => flag !== 0)
+			const end = changeset.indexOf(0, reader.offset)
+			if (end === -1) {
+				throw corrupt(reader.offset)
+			}
+			reader.offset = end + 1
+			chunks.push(changeset.subarray(start, reader.offset))
+			continue
+		}
+
+		// Every change follows the header of its table
+		const pk = primaryKey
+		if (!pk) {
+			throw corrupt(start)
+		}
+		const indirect = reader.byte()
+		const columns = pk.length
+		switch (op) {
+			case SQLITE_INSERT:
+				chunks.push(Uint8Array.of(SQLITE_DELETE, indirect))
+				chunks.push(...reader.record(columns))
+				break
+			case SQLITE_DELETE:
+				chunks.push(Uint8Array.of(SQLITE_INSERT, indirect))
+				chunks.push(...reader.record(columns))
+				break
+			case SQLITE_UPDATE: {
+				const before = reader.record(columns)
+				const after = reader.record(columns)
+				chunks.push(Uint8Array.of(SQLITE_UPDATE, indirect))
+				// The old values identify the row by its primary key and hold the
+				// columns the update changed; the new values restore those columns
+				chunks.push(...before.map((value, i) => (pk[i] ? value : after[i])))
+				chunks.push(...before.map((value, i) => (pk[i] ? UNDEFINED : value)))
+				break
+			}
+			default:
+				throw corrupt(start)
+		}
+	}
+
+	const inverted = new Uint8Array(
+		chunks.reduce((length, chunk) => length + chunk.length, 0)
+	)
+	let offset = 0
+	for (const chunk of chunks) {
+		inverted.set(chunk, offset)
+		offset += chunk.length
+	}
+	return inverted
+}
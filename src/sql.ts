@@ -15,14 +15,21 @@ import {
 	validateContextCombination,
 	validateSqlContext,
 } from "#context"
-import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
-import { buildValuesStatement } from "#values"
+import {
+	NodeSqliteError,
+	SqlitePrimaryResultCode,
+	interruptError,
+	isInterruptError,
+} from "#errors"
+import { buildOnConflictStatement, buildValuesStatement } from "#values"
 import type {
+	StatementColumnMetadata,
 	StatementResultingChanges,
 	StatementSync,
 	SupportedValueType,
 } from "node:sqlite"
 import {
+	type AnyStatement,
 	isRawValue,
 	type SqlOptions,
 	type DataRow,
@@ -37,6 +44,16 @@ import { buildSchema } from "#schema"
 import type { Config } from "@sqltools/formatter/lib/core/types"
 import stringify from "#stringify"
 import { buildSetStatement } from "#set.js"
+import { buildJoinStatement } from "#join"
+import { buildGroupByStatement, buildHavingStatement } from "#group-by"
+import { buildWithStatement } from "#cte"
+import { buildCompoundStatement } from "#compound"
+import {
+	buildDeleteFromStatement,
+	buildInsertSelectStatement,
+	buildUpdateFromStatement,
+} from "#dml"
+import { buildWindowStatement } from "#window"
 
 function toSupportedValue(value: unknown): SupportedValueType {
 	if (
@@ -77,6 +94,16 @@ export const raw = (
 	} as RawValue
 }
 
+/**
+ * A statement rendered for interpolation into another one, with the
+ * placeholders it binds and the values of those created while rendering
+ */
+export type NestedSql = {
+	sql: string
+	parameterOperators: string[]
+	expandedParams: Record<string, unknown>
+}
+
 export class Sql<P extends DataRow, RET = P> {
 	readonly strings: readonly string[]
 	readonly paramOperators = new Set<SqlTemplateValue<P, RET>>()
@@ -84,6 +111,12 @@ export class Sql<P extends DataRow, RET = P> {
 
 	#contextOperators = new Set<string>()
 
+	// Columns of the most recent VALUES clause, used to expand onConflict set "*"
+	#insertColumns: string[] = []
+
+	// Values for placeholders generated while rendering, e.g. expanded IN lists
+	#expandedParams: Record<string, unknown> = {}
+
 	#params: P = {} as P
 
 	get params(): P {
@@ -128,8 +161,43 @@ export class Sql<P extends DataRow, RET = P> {
 	#contextToSql(context: SqlContext<P, RET>): string {
 		const parts: string[] = []
 
+		if (context.with) {
+			const result = buildWithStatement(context.with, this.#params)
+			for (const op of result.parameterOperators) {
+				this.#contextOperators.add(op)
+			}
+			Object.assign(this.#expandedParams, result.expandedParams)
+			parts.push(result.sql)
+		}
+
+		if (context.compound) {
+			const result = buildCompoundStatement(context.compound, this.#params)
+			for (const op of result.parameterOperators) {
+				this.#contextOperators.add(op)
+			}
+			Object.assign(this.#expandedParams, result.expandedParams)
+			parts.push(result.sql)
+		}
+
+		if (context.deleteFrom) {
+			parts.push(buildDeleteFromStatement(context.deleteFrom))
+		}
+
+		if (context.insertSelect) {
+			const result = buildInsertSelectStatement(
+				context.insertSelect,
+				this.#params
+			)
+			for (const op of result.parameterOperators) {
+				this.#contextOperators.add(op)
+			}
+			Object.assign(this.#expandedParams, result.expandedParams)
+			parts.push(result.sql)
+		}
+
 		if (context.columns) {
-			parts.push(buildColsStatement(context.columns))
+			const distinct = context.distinct ? "DISTINCT " : ""
+			parts.push(`${distinct}${buildColsStatement(context.columns)}`)
 		}
 
 		if (context.schema) {
@@ -142,6 +210,19 @@ export class Sql<P extends DataRow, RET = P> {
 			for (const op of result.parameterOperators) {
 				this.#contextOperators.add(op)
 			}
+			this.#insertColumns = result.columns
+			parts.push(result.sql)
+		}
+
+		if (context.onConflict) {
+			const result = buildOnConflictStatement(
+				context.onConflict,
+				this.#params,
+				this.#insertColumns
+			)
+			for (const op of result.parameterOperators) {
+				this.#contextOperators.add(op)
+			}
 			parts.push(result.sql)
 		}
 
@@ -158,12 +239,43 @@ export class Sql<P extends DataRow, RET = P> {
 				parts.push(result.sql)
 			}
 		}
+
+		if (context.from) {
+			const result = buildUpdateFromStatement(context.from, this.#params)
+			for (const op of result.parameterOperators) {
+				this.#contextOperators.add(op)
+			}
+			Object.assign(this.#expandedParams, result.expandedParams)
+			parts.push(result.sql)
+		}
+
+		if (context.join) {
+			parts.push(buildJoinStatement(context.join))
+		}
+
 		if (context.where) {
 			const result = buildWhereStatement(context.where, this.#params)
 			parts.push(result.sql)
 			for (const op of result.parameterOperators) {
 				this.#contextOperators.add(op)
 			}
+			Object.assign(this.#expandedParams, result.expandedParams)
+		}
+
+		if (context.groupBy) {
+			parts.push(buildGroupByStatement(context.groupBy))
+		}
+
+		if (context.having) {
+			const result = buildHavingStatement(context.having)
+			parts.push(result.sql)
+			for (const op of result.parameterOperators) {
+				this.#contextOperators.add(op)
+			}
+		}
+
+		if (context.window) {
+			parts.push(buildWindowStatement(context.window))
 		}
 
 		if (context.orderBy) {
@@ -209,13 +321,22 @@ export class Sql<P extends DataRow, RET = P> {
 	}
 
 	get sql(): string {
+		// Operators depend on the current params, so collect them afresh
+		this.#contextOperators.clear()
+		this.#expandedParams = {}
+
 		let result = this.strings[0]
 
 		let i = 0
 		for (const op of this.paramOperators) {
 			if (isXStatementSync(op)) {
 				// Handle interpolated SQL statement
-				result += op.sql.sql
+				const nested = op.sql.renderNested(this.#params)
+				result += nested.sql
+				for (const nestedOp of nested.parameterOperators) {
+					this.#contextOperators.add(nestedOp)
+				}
+				Object.assign(this.#expandedParams, nested.expandedParams)
 			} else if (isSqlContext<P, RET>(op)) {
 				result += this.#contextToSql(op)
 			} else if (isRawValue(op)) {
@@ -238,6 +359,39 @@ export class Sql<P extends DataRow, RET = P> {
 		return result
 	}
 
+	/**
+	 * Renders the statement for interpolation into another one. It is
+	 * rendered with the outer statement's params, so that its IN lists are
+	 * expanded with the values the outer statement binds.
+	 */
+	renderNested(params: DataRow): NestedSql {
+		const previous = this.#params
+		this.#params = params as P
+		try {
+			const sql = this.sql
+			const operators = new Set<string>()
+			for (const op of this.paramOperators) {
+				if (
+					typeof op === "string" &&
+					op.startsWith("$") &&
+					!op.endsWith("<-json")
+				) {
+					operators.add(op)
+				}
+			}
+			for (const op of this.#contextOperators) {
+				operators.add(op)
+			}
+			return {
+				sql,
+				parameterOperators: [...operators],
+				expandedParams: { ...this.#expandedParams },
+			}
+		} finally {
+			this.#params = previous
+		}
+	}
+
 	get hasJsonColumns(): boolean {
 		const { sql } = this
 		return (
@@ -258,18 +412,13 @@ export class Sql<P extends DataRow, RET = P> {
 		)
 	}
 
-	#gatherParameterOperators() {
+	// Template values of the statements interpolated into this one
+	#nestedParamOperators() {
 		const operators = new Set<SqlTemplateValue<P, RET>>()
 		for (const op of this.paramOperators) {
 			if (isXStatementSync(op)) {
-				// need to call this to populate the context operators
-				op.sql.sql
-				for (const contextOp of op.sql.paramOperators) {
-					operators.add(contextOp as SqlTemplateValue<P, RET>)
-				}
-
-				for (const contextOp of op.sql.contextOperators) {
-					operators.add(contextOp as SqlTemplateValue<P, RET>)
+				for (const nestedOp of op.sql.paramOperators) {
+					operators.add(nestedOp as SqlTemplateValue<P, RET>)
 				}
 			}
 		}
@@ -277,6 +426,8 @@ export class Sql<P extends DataRow, RET = P> {
 		return operators
 	}
 
+	// Reads the operators collected by the sql getter, including those of
+	// interpolated statements, so it must run after it
 	#toNamedParams(): Record<string, SupportedValueType> {
 		const namedParams: Record<string, SupportedValueType> = {}
 		const operators = new Set([
@@ -284,10 +435,6 @@ export class Sql<P extends DataRow, RET = P> {
 			...this.#contextOperators,
 		])
 
-		for (const op of this.#gatherParameterOperators()) {
-			operators.add(op)
-		}
-
 		// Handle batch params
 		if (Array.isArray(this.#params) || this.#params instanceof Set) {
 			const items = Array.isArray(this.#params)
@@ -329,6 +476,11 @@ export class Sql<P extends DataRow, RET = P> {
 				continue
 			}
 
+			if (Object.hasOwn(this.#expandedParams, op)) {
+				namedParams[op] = toSupportedValue(this.#expandedParams[op])
+				continue
+			}
+
 			const paramName = op.split("->")[0].substring(1)
 			const value = (this.#params as P)[paramName]
 
@@ -342,6 +494,18 @@ export class Sql<P extends DataRow, RET = P> {
 				)
 			}
 
+			// Arrays are only bound as IN lists, which are expanded while
+			// rendering, or as JSON
+			if (Array.isArray(value) && !op.endsWith("->json")) {
+				throw new NodeSqliteError(
+					"ERR_SQLITE_PARAM",
+					SqlitePrimaryResultCode.SQLITE_ERROR,
+					"Invalid parameter",
+					`Parameter '${paramName}' is an array; bind it with IN $${paramName} or as JSON with $${paramName}->json`,
+					undefined
+				)
+			}
+
 			if (op.endsWith("->json")) {
 				if (
 					typeof value !== "object" &&
@@ -374,7 +538,7 @@ export class Sql<P extends DataRow, RET = P> {
 		// Convert Set to array just for context filtering
 		const contexts = Array.from([
 			...this.paramOperators,
-			...this.#gatherParameterOperators(),
+			...this.#nestedParamOperators(),
 		]).filter(
 			op =>
 				typeof op === "object" &&
@@ -423,11 +587,33 @@ type SingleRow<P extends DataRow> = {
 }
 
 // Type for values params that can be single row or multiple rows
-type ValuesParam<P extends DataRow> =
+export type ValuesParam<P extends DataRow> =
 	| SingleRow<P>
 	| SingleRow<P>[]
 	| Set<SingleRow<P>>
 
+/**
+ * Per-call limits on a running statement. DB checks them before the
+ * statement starts and between the rows it returns; it cannot stop a single
+ * step, such as computing an aggregate, which always runs to completion.
+ * AsyncDB stops a statement at any point by replacing its worker.
+ */
+export interface StatementOptions {
+	/** Milliseconds the statement may run before it is interrupted */
+	timeout?: number
+
+	/** Interrupts the statement once aborted */
+	signal?: AbortSignal
+}
+
+/**
+ * Options for get() and run() on DB. They run in a single step on the
+ * calling thread, so only a signal that has already aborted stops them;
+ * a timeout is rejected because it could never fire. Use AsyncDB for
+ * timeouts on single-step statements.
+ */
+export type SingleStepOptions = Omit<StatementOptions, "timeout">
+
 /**
  * Interface for prepared SQL statements with type safety and chaining support.
  * @template P Type of parameters object
@@ -435,19 +621,31 @@ type ValuesParam<P extends DataRow> =
  */
 export interface XStatementSync<P extends DataRow, RET = unknown> {
 	/** Execute query and return all result rows */
-	all<R = RET>(params?: ValuesParam<P>): R[]
+	all<R = RET>(params?: ValuesParam<P>, options?: StatementOptions): R[]
 
 	/** Execute query and return an iterator over result rows */
-	iter<R = RET>(params?: ValuesParam<P>): Iterator<R> & Iterable<R>
+	iter<R = RET>(
+		params?: ValuesParam<P>,
+		options?: StatementOptions
+	): Iterator<R> & Iterable<R>
 
 	/** Execute query and return a generator that yields result rows */
-	rows<R = RET>(params?: ValuesParam<P>): Generator<R>
+	rows<R = RET>(
+		params?: ValuesParam<P>,
+		options?: StatementOptions
+	): Generator<R>
 
 	/** Execute query and return first result row or undefined */
-	get<R = RET>(params?: ValuesParam<P>): R | undefined
+	get<R = RET>(
+		params?: ValuesParam<P>,
+		options?: SingleStepOptions
+	): R | undefined
 
 	/** Execute query and return statement result info */
-	run(params?: ValuesParam<P>): StatementResultingChanges
+	run(
+		params?: ValuesParam<P>,
+		options?: SingleStepOptions
+	): StatementResultingChanges
 
 	/** Get SQL with parameters expanded */
 	expandedSQL: string | undefined
@@ -455,12 +653,18 @@ export interface XStatementSync<P extends DataRow, RET = unknown> {
 	/** Get original SQL source */
 	sourceSQL: (params?: ValuesParam<P>) => string
 
+	/**
+	 * Result columns of the statement as SQLite reports them, read by
+	 * preparing it outside the statement cache
+	 */
+	columns(): StatementColumnMetadata[]
+
 	readonly sql: Sql<P, RET>
 
 	__x_statement_sync__: true
 }
 
-function looksLikeJSON(value: unknown): value is string {
+export function looksLikeJSON(value: unknown): value is string {
 	if (typeof value !== "string") {
 		return false
 	}
@@ -496,11 +700,74 @@ type CreateXStatementSyncProps<P extends DataRow, R = P> = {
 		namedParams: Record<string, SupportedValueType>
 		hasJsonColumns: boolean
 	}
+	/** Prepares SQL outside the statement cache */
 	prepare: (sql: string) => StatementSync
 	sql: Sql<P, R>
+	/** Counter bumped by DB.interrupt() */
+	interrupts?: () => number
+}
+
+/**
+ * Returns a check that throws ERR_SQLITE_INTERRUPT once the timeout has
+ * passed, the signal has aborted or the connection has been interrupted
+ * since the check was created.
+ */
+function createInterruptCheck(
+	options: StatementOptions = {},
+	interrupts?: () => number
+): () => void {
+	const { timeout, signal } = options
+	const deadline = timeout === undefined ? undefined : Date.now() + timeout
+	const interrupted = interrupts?.()
+	return () => {
+		if (signal?.aborted) {
+			throw interruptError("Statement aborted", signal.reason)
+		}
+		if (deadline !== undefined && Date.now() >= deadline) {
+			throw interruptError(`Statement timed out after ${timeout}ms`)
+		}
+		if (interrupts && interrupts() !== interrupted) {
+			throw interruptError("Statement interrupted")
+		}
+	}
+}
+
+// get() and run() return after a single step on the calling thread, where no
+// timer can fire, so a timeout could only be checked before the step starts
+function rejectTimeout(
+	options: StatementOptions | undefined,
+	code: string
+): void {
+	if (options?.timeout !== undefined) {
+		throw new NodeSqliteError(
+			code,
+			SqlitePrimaryResultCode.SQLITE_MISUSE,
+			"Timeouts are not supported",
+			"get() and run() cannot be stopped mid-step on DB; use AsyncDB for statement timeouts",
+			undefined
+		)
+	}
 }
 
-const createErrorMessage = <P extends DataRow>(
+// Steps through the rows, checking for interrupts after each one
+function collectRows(
+	iterator: Iterator<unknown>,
+	check: () => void
+): unknown[] {
+	const rows: unknown[] = []
+	try {
+		for (let row = iterator.next(); !row.done; row = iterator.next()) {
+			rows.push(row.value)
+			check()
+		}
+	} catch (error) {
+		iterator.return?.()
+		throw error
+	}
+	return rows
+}
+
+export const createErrorMessage = <P extends DataRow>(
 	error: unknown,
 	params?: P | P[]
 ) => {
@@ -542,6 +809,38 @@ export const isXStatementSync = <P extends DataRow, R>(
 	)
 }
 
+/**
+ * Renders statements used by a context, such as CTEs, with the params of the
+ * statement they are part of. The placeholders and expanded IN lists of all
+ * of them are merged for the outer statement to bind.
+ */
+export function renderNestedStatements(
+	statements: AnyStatement[],
+	params: DataRow
+): Omit<NestedSql, "sql"> & { sql: string[] } {
+	return mergeNestedSql(
+		statements.map(statement => statement.sql.renderNested(params))
+	)
+}
+
+/**
+ * Merges the placeholders and expanded IN lists of rendered statements
+ */
+export function mergeNestedSql(
+	rendered: NestedSql[]
+): Omit<NestedSql, "sql"> & { sql: string[] } {
+	const operators = new Set<string>()
+	const expandedParams: Record<string, unknown> = {}
+	const sql = rendered.map(nested => {
+		for (const op of nested.parameterOperators) {
+			operators.add(op)
+		}
+		Object.assign(expandedParams, nested.expandedParams)
+		return nested.sql.trim()
+	})
+	return { sql, parameterOperators: [...operators], expandedParams }
+}
+
 /**
  * Creates a type-safe prepared statement
  */
@@ -550,16 +849,26 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 	props: CreateXStatementSyncProps<P, RET>
 ): XStatementSync<P, RET> {
 	let currentStatement: StatementSync | undefined
+	// Result columns of the last SQL the statement rendered to
+	let resultColumns: { sql: string; columns: StatementColumnMetadata[] } = {
+		sql: "",
+		columns: [],
+	}
 	return {
 		get sql() {
 			return props.sql
 		},
 
-		all<R = RET>(params: ValuesParam<P> = {} as P) {
+		all<R = RET>(params: ValuesParam<P> = {} as P, options?: StatementOptions) {
 			try {
+				const check = createInterruptCheck(options, props.interrupts)
+				check()
 				const { stmt, namedParams, hasJsonColumns } = props.build(params as P)
 				currentStatement = stmt
-				const results = stmt.all(namedParams)
+				// Only step row by row when there is a limit to check
+				const results = options
+					? collectRows(stmt.iterate(namedParams), check)
+					: stmt.all(namedParams)
 				if (!results || !results.length) {
 					// No results case
 					return (Array.isArray(results) ? [] : undefined) as R
@@ -582,6 +891,9 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 				// Primitive value case
 				return results as R
 			} catch (error) {
+				if (isInterruptError(error)) {
+					throw error
+				}
 				throw new NodeSqliteError(
 					"ERR_SQLITE_QUERY",
 					SqlitePrimaryResultCode.SQLITE_ERROR,
@@ -591,8 +903,13 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 			}
 		},
 
-		get<R = RET>(params: ValuesParam<P> = {} as P) {
+		get<R = RET>(
+			params: ValuesParam<P> = {} as P,
+			options?: SingleStepOptions
+		) {
+			rejectTimeout(options, "ERR_SQLITE_QUERY")
 			try {
+				createInterruptCheck(options, props.interrupts)()
 				const { stmt, namedParams, hasJsonColumns } = props.build(params as P)
 				currentStatement = stmt
 				const row = stmt.get(namedParams)
@@ -607,6 +924,9 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 
 				return parseJsonColumns(row as DataRow) as R
 			} catch (error) {
+				if (isInterruptError(error)) {
+					throw error
+				}
 				throw new NodeSqliteError(
 					"ERR_SQLITE_QUERY",
 					SqlitePrimaryResultCode.SQLITE_ERROR,
@@ -616,12 +936,17 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 			}
 		},
 
-		run(params: ValuesParam<P> = {} as P) {
+		run(params: ValuesParam<P> = {} as P, options?: SingleStepOptions) {
+			rejectTimeout(options, "ERR_SQLITE_MUTATE")
 			try {
+				createInterruptCheck(options, props.interrupts)()
 				const { stmt, namedParams } = props.build(params as P)
 				currentStatement = stmt
 				return stmt.run(namedParams)
 			} catch (error) {
+				if (isInterruptError(error)) {
+					throw error
+				}
 				throw new NodeSqliteError(
 					"ERR_SQLITE_MUTATE",
 					SqlitePrimaryResultCode.SQLITE_ERROR,
@@ -631,8 +956,13 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 			}
 		},
 
-		iter<R = RET>(params: ValuesParam<P> = {} as P): Iterable<R> & Iterator<R> {
+		iter<R = RET>(
+			params: ValuesParam<P> = {} as P,
+			options?: StatementOptions
+		): Iterable<R> & Iterator<R> {
 			try {
+				const check = createInterruptCheck(options, props.interrupts)
+				check()
 				const { stmt, namedParams, hasJsonColumns } = props.build(params as P)
 				currentStatement = stmt
 				const baseIterator = stmt.iterate(namedParams)
@@ -640,6 +970,12 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 				return {
 					// Iterator protocol
 					next(): IteratorResult<R> {
+						try {
+							check()
+						} catch (error) {
+							baseIterator.return?.()
+							throw error
+						}
 						const result = baseIterator.next()
 						if (result.done) {
 							return { done: true, value: undefined }
@@ -658,6 +994,9 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 					},
 				}
 			} catch (error) {
+				if (isInterruptError(error)) {
+					throw error
+				}
 				throw new NodeSqliteError(
 					"ERR_SQLITE_QUERY",
 					SqlitePrimaryResultCode.SQLITE_ERROR,
@@ -667,21 +1006,34 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 			}
 		},
 
-		*rows<R = RET>(params: ValuesParam<P> = {} as P): Generator<R> {
+		*rows<R = RET>(
+			params: ValuesParam<P> = {} as P,
+			options?: StatementOptions
+		): Generator<R> {
 			try {
+				const check = createInterruptCheck(options, props.interrupts)
+				check()
 				const { stmt, namedParams, hasJsonColumns } = props.build(params as P)
 				currentStatement = stmt
 				const iterator = stmt.iterate(namedParams)
 
-				let result = iterator.next()
-				while (!result.done) {
-					const value = hasJsonColumns
-						? (parseJsonColumns(result.value as DataRow) as R)
-						: (result.value as R)
-					yield value
-					result = iterator.next()
+				try {
+					let result = iterator.next()
+					while (!result.done) {
+						const value = hasJsonColumns
+							? (parseJsonColumns(result.value as DataRow) as R)
+							: (result.value as R)
+						yield value
+						check()
+						result = iterator.next()
+					}
+				} finally {
+					iterator.return?.()
 				}
 			} catch (error) {
+				if (isInterruptError(error)) {
+					throw error
+				}
 				throw new NodeSqliteError(
 					"ERR_SQLITE_QUERY",
 					SqlitePrimaryResultCode.SQLITE_ERROR,
@@ -706,6 +1058,24 @@ export function createXStatementSync<P extends DataRow, RET = unknown>(
 			}
 		},
 
+		columns() {
+			try {
+				const sql = props.sql.renderNested({}).sql
+				if (resultColumns.sql !== sql) {
+					resultColumns = { sql, columns: props.prepare(sql).columns() }
+				}
+				return resultColumns.columns
+			} catch (error) {
+				throw new NodeSqliteError(
+					"ERR_SQLITE_QUERY",
+					SqlitePrimaryResultCode.SQLITE_ERROR,
+					"Failed to read result columns",
+					error instanceof Error ? error.message : String(error),
+					error instanceof Error ? error : undefined
+				)
+			}
+		},
+
 		get expandedSQL() {
 			return currentStatement?.expandedSQL
 		},
@@ -0,0 +1,200 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { NodeSqliteError } from "#errors"
+import type { Table } from "#table"
+
+type User = {
+	id: number
+	email: string
+	name: string
+	age: number
+	settings: { theme: string }
+}
+
+describe("DB.table", () => {
+	let db: DB
+	let users: Table<User>
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:", environment: "testing" })
+		users = db.table<User>(
+			"users",
+			{
+				id: "INTEGER PRIMARY KEY",
+				email: "TEXT UNIQUE NOT NULL",
+				name: "TEXT NOT NULL",
+				age: "INTEGER DEFAULT 0",
+				settings: "BLOB",
+			},
+			{ jsonColumns: ["settings"] }
+		)
+		users.create()
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	const alice = {
+		email: "alice@example.com",
+		name: "alice",
+		age: 30,
+		settings: { theme: "dark" },
+	}
+
+	test("create supports IF NOT EXISTS", () => {
+		assert.throws(() => users.create(), NodeSqliteError)
+		users.create({ ifNotExists: true })
+	})
+
+	test("rejects invalid table names", () => {
+		assert.throws(
+			() => db.table<User>("users; DROP TABLE users", {}),
+			NodeSqliteError
+		)
+	})
+
+	test("insert returns the stored row with defaults and decoded JSON", () => {
+		const row = users.insert({
+			email: "bob@example.com",
+			name: "bob",
+			settings: { theme: "light" },
+		})
+		assert.deepEqual(
+			{ ...row },
+			{
+				id: 1,
+				email: "bob@example.com",
+				name: "bob",
+				age: 0,
+				settings: { theme: "light" },
+			}
+		)
+	})
+
+	test("insertMany inserts in one statement", () => {
+		const inserted = users.insertMany([
+			alice,
+			{ ...alice, email: "carol@example.com", name: "carol", age: 25 },
+		])
+		assert.equal(inserted, 2)
+		assert.equal(users.insertMany([]), 0)
+		assert.equal(users.count(), 2)
+	})
+
+	test("findOne and findMany filter, order and page", () => {
+		users.insertMany([
+			alice,
+			{ ...alice, email: "bob@example.com", name: "bob", age: 20 },
+			{ ...alice, email: "carol@example.com", name: "carol", age: 40 },
+		])
+
+		const found = users.findOne({
+			where: "email = $email",
+			params: { email: "alice@example.com" },
+		})
+		assert.equal(found?.name, "alice")
+		assert.deepEqual(found?.settings, { theme: "dark" })
+
+		const adults = users.findMany({
+			where: "age > $age",
+			params: { age: 21 },
+			orderBy: { age: "DESC" },
+		})
+		assert.deepEqual(
+			adults.map(u => u.name),
+			["carol", "alice"]
+		)
+
+		const page = users.findMany({
+			orderBy: { name: "ASC" },
+			limit: 1,
+			offset: 1,
+		})
+		assert.deepEqual(
+			page.map(u => u.name),
+			["bob"]
+		)
+		assert.equal(
+			users.findOne({ where: "name = $name", params: { name: "nobody" } }),
+			undefined
+		)
+	})
+
+	test("update keeps SET and WHERE parameters apart", () => {
+		users.insert(alice)
+
+		const changed = users.update(
+			{ name: "bob", settings: { theme: "light" } },
+			{ where: "name = $name", params: { name: "alice" } }
+		)
+		assert.equal(changed, 1)
+
+		const row = users.findOne({ where: "email = $email", params: alice })
+		assert.equal(row?.name, "bob")
+		assert.deepEqual(row?.settings, { theme: "light" })
+	})
+
+	test("delete and count use the same filters", () => {
+		users.insertMany([
+			alice,
+			{ ...alice, email: "bob@example.com", name: "bob", age: 20 },
+		])
+
+		assert.equal(users.count({ where: "age < $age", params: { age: 25 } }), 1)
+		assert.equal(users.delete({ where: "age < $age", params: { age: 25 } }), 1)
+		assert.equal(users.count(), 1)
+	})
+
+	test("upsert inserts and then updates on conflict", () => {
+		const inserted = users.upsert(alice, { target: ["email"] })
+		const updated = users.upsert(
+			{ ...alice, name: "alice b", age: 31 },
+			{ target: ["email"] }
+		)
+
+		assert.equal(updated.id, inserted.id)
+		assert.equal(updated.name, "alice b")
+		assert.equal(updated.age, 31)
+		assert.equal(users.count(), 1)
+
+		const partial = users.upsert(
+			{ ...alice, name: "ignored", age: 50 },
+			{ target: ["email"], set: { age: "excluded.age" } }
+		)
+		assert.equal(partial.name, "alice b")
+		assert.equal(partial.age, 50)
+	})
+
+	test("skips generated columns when writing rows", () => {
+		type Item = { id: number; price: number; qty: number; total: number }
+		const items = db.table<Item>("items", {
+			id: "INTEGER PRIMARY KEY",
+			price: "REAL NOT NULL",
+			qty: "INTEGER NOT NULL",
+			total: "REAL GENERATED ALWAYS AS (price * qty) STORED",
+		})
+		items.create()
+
+		const row = items.insert({ price: 2.5, qty: 2, total: 0 })
+		assert.equal(row.total, 5)
+		assert.equal(items.insertMany([{ ...row, id: 2 }]), 1)
+		assert.equal(items.upsert({ ...row, qty: 4 }, { target: ["id"] }).total, 10)
+		assert.equal(
+			items.update(
+				{ qty: 1, total: 0 },
+				{ where: "id = $id", params: { id: 2 } }
+			),
+			1
+		)
+		assert.equal(
+			items.findOne({ where: "id = $id", params: { id: 2 } })?.total,
+			2.5
+		)
+	})
+})
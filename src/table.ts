@@ -0,0 +1,248 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { DB } from "#database"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { columnEntries, generatedColumns } from "#schema"
+import { raw } from "#sql"
+import type {
+	DataRow,
+	InsertOptions,
+	Schema,
+	SetOptions,
+	SqlContext,
+	UpsertSetOptions,
+	WhereClause,
+} from "#types"
+
+export interface TableOptions<T extends DataRow> {
+	/** Columns stored as JSONB and decoded when read */
+	jsonColumns?: (keyof T & string)[]
+}
+
+export interface CreateTableOptions {
+	/** Emit CREATE TABLE IF NOT EXISTS */
+	ifNotExists?: boolean
+}
+
+/**
+ * Filter shared by the table methods. `params` supplies the values of the
+ * `$parameters` referenced in `where`.
+ */
+export interface TableFilter<T extends DataRow> {
+	where: WhereClause<T>
+	params?: Partial<T>
+}
+
+export interface FindOptions<T extends DataRow>
+	extends Partial<TableFilter<T>> {
+	orderBy?: Partial<Record<keyof T, "ASC" | "DESC">>
+	limit?: number
+	offset?: number
+}
+
+export interface UpsertOptions<T extends DataRow> {
+	/** Columns of the unique index or primary key that may conflict */
+	target: (keyof T & string)[]
+	/** Columns to update on conflict, defaults to every inserted column */
+	set?: UpsertSetOptions<T>
+}
+
+/**
+ * Typed handle for a single table returned by {@link DB.table}
+ * @example
+ * const users = db.table<User>("users", { id: "INTEGER PRIMARY KEY", name: "TEXT" })
+ * users.create({ ifNotExists: true })
+ * const user = users.insert({ name: "alice" })
+ * users.update({ name: "bob" }, { where: "id = $id", params: { id: user.id } })
+ */
+export interface Table<T extends DataRow> {
+	readonly name: string
+	readonly schema: Schema<T>
+
+	/** Creates the table from its schema */
+	create(options?: CreateTableOptions): void
+
+	/** Inserts a row and returns it as stored, including defaults */
+	insert(row: Partial<T>): T
+
+	/** Inserts rows in a single statement and returns the number inserted */
+	insertMany(rows: Partial<T>[]): number
+
+	/** Inserts a row, or updates it when it conflicts on `target` */
+	upsert(row: Partial<T>, options: UpsertOptions<T>): T
+
+	/** Updates matching rows and returns the number changed */
+	update(values: Partial<T>, filter: TableFilter<T>): number
+
+	/** Deletes matching rows and returns the number deleted */
+	delete(filter: TableFilter<T>): number
+
+	findOne(options?: Omit<FindOptions<T>, "limit">): T | undefined
+
+	findMany(options?: FindOptions<T>): T[]
+
+	count(filter?: TableFilter<T>): number
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+/**
+ * Creates a typed table handle. Queries are built with the same SqlContext
+ * builders used by {@link DB.sql}.
+ * @param db Database the table lives in
+ * @param name Table name
+ * @param schema Column definitions
+ * @param options Table configuration
+ * @throws {NodeSqliteError} If the table name is not a valid identifier
+ */
+export function createTable<T extends DataRow>(
+	db: DB,
+	name: string,
+	schema: Schema<T>,
+	options: TableOptions<T> = {}
+): Table<T> {
+	if (!identifierRegex.test(name)) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_PARAM",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid table name",
+			`Table name must be a valid identifier: ${name}`,
+			undefined
+		)
+	}
+
+	const table = raw`${name}`
+	const jsonColumns = new Set<string>(options.jsonColumns)
+	const columns = columnEntries(schema).map(([column]) => column)
+
+	// Reads decode JSONB columns back to JSON text so results are parsed
+	const selectColumns = columns.map(col =>
+		jsonColumns.has(col) ? `${col}<-json` : col
+	)
+	const returningColumns = columns.map(col =>
+		jsonColumns.has(col) ? `json_extract(${col}, '$') as ${col}` : col
+	)
+
+	// Generated columns are computed by SQLite and cannot be written, so they
+	// are left out of "*" expansion
+	const generated = new Set<string>(generatedColumns(schema))
+	const writable = (row: Partial<T>): Partial<T> =>
+		generated.size > 0
+			? (Object.fromEntries(
+					Object.entries(row).filter(([col]) => !generated.has(col))
+				) as Partial<T>)
+			: row
+
+	const valuesFor = (batch: boolean): InsertOptions<T> =>
+		jsonColumns.size > 0 || batch
+			? [
+					"*",
+					{
+						...(jsonColumns.size > 0 && { jsonColumns: [...jsonColumns] }),
+						...(batch && { batch }),
+					},
+				]
+			: "*"
+
+	const filterContext = (filter?: Partial<TableFilter<T>>): SqlContext<T> =>
+		filter?.where ? { where: filter.where } : {}
+
+	const findMany = (findOptions: FindOptions<T> = {}): T[] => {
+		const { where, params, orderBy, limit, offset } = findOptions
+		return db.sql<T>`
+      SELECT ${{ columns: selectColumns as SqlContext<T>["columns"] }}
+      FROM ${table}
+      ${{
+				...filterContext({ where }),
+				...(orderBy && { orderBy }),
+				...(limit !== undefined && { limit }),
+				...(offset !== undefined && { offset }),
+			}}
+    `.all<T>((params ?? {}) as T)
+	}
+
+	return {
+		name,
+		schema,
+
+		create(createOptions = {}) {
+			const ifNotExists = raw`${createOptions.ifNotExists ? "IF NOT EXISTS " : ""}`
+			db.sql<T>`CREATE TABLE ${ifNotExists}${table} ${{ schema }}`.run()
+		},
+
+		insert(row) {
+			return db.sql<T>`
+        INSERT INTO ${table} ${{
+					values: valuesFor(false),
+					returning: returningColumns,
+				}}
+      `.get<T>(writable(row) as T) as T
+		},
+
+		insertMany(rows) {
+			if (rows.length === 0) {
+				return 0
+			}
+			return Number(
+				db.sql<T>`INSERT INTO ${table} ${{ values: valuesFor(true) }}`.run(
+					rows.map(writable) as T[]
+				).changes
+			)
+		},
+
+		upsert(row, upsertOptions) {
+			return db.sql<T>`
+        INSERT INTO ${table} ${{
+					values: valuesFor(false),
+					onConflict: {
+						target: upsertOptions.target,
+						set: upsertOptions.set ?? "*",
+					},
+					returning: returningColumns,
+				}}
+      `.get<T>(writable(row) as T) as T
+		},
+
+		update(values, filter) {
+			// Prefix SET parameters so they cannot collide with WHERE parameters
+			const set: Record<string, string> = {}
+			const params: DataRow = { ...filter.params }
+			for (const [col, value] of Object.entries(writable(values))) {
+				set[col] = jsonColumns.has(col) ? `$set_${col}->json` : `$set_${col}`
+				params[`set_${col}`] = value
+			}
+
+			return Number(
+				db.sql<T>`
+          UPDATE ${table} ${{
+						set: set as SetOptions<T>,
+						where: filter.where,
+					}}
+        `.run(params as T).changes
+			)
+		},
+
+		delete(filter) {
+			return Number(
+				db.sql<T>`DELETE FROM ${table} ${{ where: filter.where }}`.run(
+					(filter.params ?? {}) as T
+				).changes
+			)
+		},
+
+		findOne(findOptions = {}) {
+			return findMany({ ...findOptions, limit: 1 })[0]
+		},
+
+		findMany,
+
+		count(filter) {
+			const row = db.sql<T>`
+        SELECT count(*) AS n FROM ${table} ${filterContext(filter)}
+      `.get<{ n: number }>((filter?.params ?? {}) as T)
+			return row?.n ?? 0
+		},
+	}
+}
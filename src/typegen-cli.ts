@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { writeFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { DB } from "#database"
+import { generateTypes } from "#typegen"
+
+const usage = `Usage: sqlite-x-typegen <database> [options]
+
+Options:
+  -o, --out <file>          Write to a file instead of stdout
+  --json-type <type>        TypeScript type for JSON columns (default: unknown)
+  --json-column <t.col>     Treat a column as JSON, may be repeated
+  --table <name>            Only generate a table, may be repeated
+  --import-from <module>    Module the Schema type is imported from
+  -h, --help                Show this message`
+
+function main(): void {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			out: { type: "string", short: "o" },
+			"json-type": { type: "string" },
+			"json-column": { type: "string", multiple: true },
+			table: { type: "string", multiple: true },
+			"import-from": { type: "string" },
+			help: { type: "boolean", short: "h" },
+		},
+	})
+
+	if (values.help) {
+		console.log(usage)
+		return
+	}
+	if (positionals.length !== 1) {
+		console.error(usage)
+		process.exitCode = 1
+		return
+	}
+
+	const db = new DB({ location: positionals[0] })
+	try {
+		const source = generateTypes(db, {
+			jsonType: values["json-type"],
+			jsonColumns: values["json-column"],
+			tables: values.table,
+			importFrom: values["import-from"],
+		})
+
+		if (values.out) {
+			writeFileSync(values.out, source)
+		} else {
+			process.stdout.write(source)
+		}
+	} finally {
+		db.close()
+	}
+}
+
+try {
+	main()
+} catch (error) {
+	console.error(error instanceof Error ? error.message : error)
+	process.exitCode = 1
+}
@@ -0,0 +1,109 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { DB } from "#database"
+import { generateTypes, typeName } from "#typegen"
+
+describe("typeName", () => {
+	test("converts table names to PascalCase", () => {
+		assert.equal(typeName("users"), "Users")
+		assert.equal(typeName("user_posts"), "UserPosts")
+		assert.equal(typeName("order-items"), "OrderItems")
+		assert.equal(typeName("2024_events"), "T2024Events")
+	})
+})
+
+describe("generateTypes", () => {
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:" })
+		db.exec(`
+      CREATE TABLE teams (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE
+      );
+      CREATE TABLE user_accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        team_id INTEGER REFERENCES teams (id) ON DELETE CASCADE,
+        email VARCHAR(255) NOT NULL,
+        score REAL DEFAULT 0,
+        avatar BLOB,
+        profile JSONB,
+        settings TEXT
+      );
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	test("emits row types and schemas", () => {
+		const source = generateTypes(db, { tables: ["user_accounts"] })
+		assert.equal(
+			source,
+			`// Generated by sqlite-x typegen. Do not edit.
+
+import type { Schema } from "@takinprofit/sqlite-x"
+
+export interface UserAccounts {
+	id: number
+	team_id: number | null
+	email: string
+	score: number | null
+	avatar: Uint8Array | null
+	profile: unknown
+	settings: string | null
+}
+
+export const userAccountsSchema: Schema<UserAccounts> = {
+	id: "INTEGER PRIMARY KEY AUTOINCREMENT",
+	team_id: "INTEGER",
+	email: "TEXT NOT NULL",
+	score: "REAL DEFAULT 0",
+	avatar: "BLOB",
+	profile: "BLOB",
+	settings: "TEXT",
+	$$foreignKeys: [
+		{ key: "team_id", references: { table: "teams", columns: ["id"] }, onDelete: "CASCADE" },
+	],
+}
+`
+		)
+	})
+
+	test("emits table constraints and options", () => {
+		db.exec(`
+      CREATE TABLE members (
+        team_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        payload ANY,
+        PRIMARY KEY (team_id, user_id)
+      ) STRICT;
+    `)
+		const source = generateTypes(db, { tables: ["members"] })
+		assert.match(source, /\tpayload: unknown\n/)
+		assert.match(source, /\tpayload: "ANY",\n/)
+		assert.match(source, /\t\$\$primaryKey: \["team_id", "user_id"\],\n/)
+		assert.match(source, /\t\$\$options: \{ strict: true \},\n\}/)
+	})
+
+	test("applies the JSON type to configured columns", () => {
+		const source = generateTypes(db, {
+			jsonType: "JsonValue",
+			jsonColumns: ["user_accounts.settings"],
+			importFrom: "#types",
+		})
+		assert.match(source, /import type \{ Schema \} from "#types"/)
+		assert.match(source, /\tprofile: JsonValue \| null\n/)
+		assert.match(source, /\tsettings: JsonValue \| null\n/)
+		assert.match(
+			source,
+			/export interface Teams \{\n\tid: number\n\tname: string\n\}/
+		)
+	})
+})
@@ -0,0 +1,170 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import type { DB } from "#database"
+import type { ColumnInfo, TableInfo } from "#introspect"
+import type { DataType } from "#types"
+
+export interface TypeGenOptions {
+	/** TypeScript type emitted for JSON columns, defaults to "unknown" */
+	jsonType?: string
+	/**
+	 * Extra JSON columns as "table.column". Columns declared as JSON or JSONB
+	 * are detected automatically.
+	 */
+	jsonColumns?: string[]
+	/** Module the Schema type is imported from */
+	importFrom?: string
+	/** Only generate these tables, defaults to every table */
+	tables?: string[]
+}
+
+const tsTypes: Record<DataType, string> = {
+	TEXT: "string",
+	INTEGER: "number",
+	REAL: "number",
+	BLOB: "Uint8Array",
+}
+
+const identifierRegex = /^[A-Za-z_$][\w$]*$/
+
+function propertyName(name: string): string {
+	return identifierRegex.test(name) ? name : JSON.stringify(name)
+}
+
+/**
+ * Converts a table name such as "user_posts" to "UserPosts"
+ */
+export function typeName(table: string): string {
+	const name = table
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map(part => part[0].toUpperCase() + part.slice(1))
+		.join("")
+	return /^[A-Za-z]/.test(name) ? name : `T${name}`
+}
+
+// Formats a value as a single-line TypeScript literal
+function literal(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(literal).join(", ")}]`
+	}
+	if (typeof value === "object" && value !== null) {
+		const entries = Object.entries(value).map(
+			([key, v]) => `${propertyName(key)}: ${literal(v)}`
+		)
+		return `{ ${entries.join(", ")} }`
+	}
+	return JSON.stringify(value)
+}
+
+function isJsonColumn(
+	table: string,
+	column: ColumnInfo,
+	jsonColumns: Set<string>
+): boolean {
+	return (
+		/^jsonb?$/i.test(column.declaredType) ||
+		jsonColumns.has(`${table}.${column.name}`)
+	)
+}
+
+function generateTable(
+	table: TableInfo,
+	jsonType: string,
+	jsonColumns: Set<string>
+): string {
+	const name = typeName(table.name)
+	const fields: string[] = []
+	const schema: string[] = []
+
+	for (const column of table.columns) {
+		let definition = table.schema[column.name] as string
+		const json = isJsonColumn(table.name, column, jsonColumns)
+		// ANY columns of STRICT tables keep values of every storage class
+		const type = json
+			? jsonType
+			: /^ANY\b/.test(definition)
+				? "unknown"
+				: tsTypes[column.type]
+		// Primary key columns other than INTEGER PRIMARY KEY may still be NULL
+		const notNull =
+			column.notNull || (column.type === "INTEGER" && column.primaryKey === 1)
+		const nullable = !notNull && type !== "unknown" && type !== "any"
+		fields.push(
+			`\t${propertyName(column.name)}: ${type}${nullable ? " | null" : ""}`
+		)
+
+		// Schema has no JSON type, keep the storage type the column is read as
+		if (json && !/^(TEXT|BLOB)\b/.test(definition)) {
+			const storage = /jsonb/i.test(column.declaredType) ? "BLOB" : "TEXT"
+			definition = definition.replace(/^\w+/, storage)
+		}
+		schema.push(
+			`\t${propertyName(column.name)}: ${JSON.stringify(definition)},`
+		)
+	}
+
+	const { $$primaryKey, $$unique, $$checks, $$options } = table.schema
+	for (const [key, value] of Object.entries({
+		$$primaryKey,
+		$$unique,
+		$$checks,
+	})) {
+		if (value) {
+			schema.push(`\t${key}: ${literal(value)},`)
+		}
+	}
+
+	if (table.foreignKeys.length > 0) {
+		schema.push(
+			"\t$$foreignKeys: [",
+			...table.foreignKeys.map(fk => `\t\t${literal(fk)},`),
+			"\t],"
+		)
+	}
+
+	if ($$options) {
+		schema.push(`\t$$options: ${literal($$options)},`)
+	}
+
+	const schemaName = `${name[0].toLowerCase()}${name.slice(1)}Schema`
+
+	return [
+		`export interface ${name} {`,
+		...fields,
+		"}",
+		"",
+		`export const ${schemaName}: Schema<${name}> = {`,
+		...schema,
+		"}",
+	].join("\n")
+}
+
+/**
+ * Generates TypeScript row types and matching Schema objects for the tables
+ * of a database.
+ * @param db Database to read
+ * @param options Generation options
+ * @returns TypeScript module source
+ * @example
+ * writeFileSync("src/db-types.ts", generateTypes(db, { jsonType: "JsonValue" }))
+ */
+export function generateTypes(db: DB, options: TypeGenOptions = {}): string {
+	const jsonType = options.jsonType ?? "unknown"
+	const jsonColumns = new Set(options.jsonColumns)
+	const only = options.tables && new Set(options.tables)
+
+	const tables = db
+		.introspect()
+		.tables.filter(table => !only || only.has(table.name))
+
+	return [
+		"// Generated by sqlite-x typegen. Do not edit.",
+		"",
+		`import type { Schema } from "${options.importFrom ?? "@takinprofit/sqlite-x"}"`,
+		...tables.map(table => `\n${generateTable(table, jsonType, jsonColumns)}`),
+		"",
+	].join("\n")
+}
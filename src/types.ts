@@ -6,8 +6,15 @@ import type { Sql, XStatementSync } from "#sql"
 import type { CacheStats, StatementCacheOptions } from "#cache"
 import type { PragmaConfig } from "#pragmas"
 import type { Logger } from "#logger"
-import type { Primitive } from "type-fest"
+import type { Primitive, Simplify, UnionToIntersection } from "type-fest"
 import type { ForeignKeyDef } from "#fk"
+import type { Table, TableOptions } from "#table"
+import type { DatabaseInfo } from "#introspect"
+import type { SchemaDiff, SyncSchemaOptions, TableDefinition } from "#diff"
+import type { AlterTableDef, DropDef } from "#alter"
+import type { AggregateDef, FunctionOptions, SqlReturnValue } from "#functions"
+import type { FtsTableDef } from "#fts"
+import type { ApplyChangesetOptions, Session, SessionOptions } from "#session"
 
 /**
  * Configuration options for database cleanup operations when closing the connection.
@@ -48,6 +55,20 @@ export interface DBOptions {
 	format?: FormatterConfig
 }
 
+/**
+ * Locking behaviour of the outermost BEGIN statement
+ * @see https://www.sqlite.org/lang_transaction.html
+ */
+export type TransactionMode = "DEFERRED" | "IMMEDIATE" | "EXCLUSIVE"
+
+/**
+ * Options for DB.transaction
+ */
+export interface TransactionOptions {
+	/** Transaction mode, ignored for nested calls which always use savepoints */
+	mode?: TransactionMode
+}
+
 /**
  * Function type for SQL template literal tag
  */
@@ -58,15 +79,44 @@ export type SqlFn<P extends DataRow> = (
 
 export interface IDatabase {
 	prepareStatement(sql: string): StatementSync
-	sql<P extends DataRow, R = unknown>(
+	sql<P extends DataRow, R = unknown, J extends DataRow = DataRow>(
 		strings: TemplateStringsArray,
-		...params: SqlTemplateValues<P>
+		...params: SqlTemplateValues<P, R, J>
 	): XStatementSync<P, R>
 	exec(sql: string): void
+	transaction<T>(fn: () => T, options?: TransactionOptions): T
+	table<T extends DataRow>(
+		name: string,
+		schema: Schema<T>,
+		options?: TableOptions<T>
+	): Table<T>
+	introspect(): DatabaseInfo
+	syncSchema<T extends DataRow[]>(
+		tables: [...{ [K in keyof T]: TableDefinition<T[K]> }],
+		options?: SyncSchemaOptions
+	): SchemaDiff[]
+	defineFunction<A extends unknown[], R extends SqlReturnValue>(
+		name: string,
+		fn: (...args: A) => R,
+		options?: FunctionOptions
+	): void
+	defineAggregate<S, A extends unknown[], R extends SqlReturnValue>(
+		name: string,
+		def: AggregateDef<S, A, R>
+	): void
+	createFtsTable<T extends DataRow>(def: FtsTableDef<T>): void
+	session(options?: SessionOptions): Session
+	applyChangeset(
+		changeset: Uint8Array,
+		options?: ApplyChangesetOptions
+	): boolean
+	alterTable<T extends DataRow>(def: AlterTableDef<T>): void
+	drop(def: DropDef): void
 	backup(filename: string): void
 	restore(filename: string): void
 	getCacheStats(): CacheStats | undefined
 	clearStatementCache(): void
+	interrupt(): void
 	close(pragmas?: CleanupPragmas): void
 }
 
@@ -79,6 +129,10 @@ export const COMPARISON_OPERATORS = [
 	"<=",
 	"LIKE",
 	"NOT LIKE",
+	"GLOB",
+	"NOT GLOB",
+	"REGEXP",
+	"NOT REGEXP",
 	"IN",
 	"NOT IN",
 	"IS",
@@ -87,8 +141,11 @@ export const COMPARISON_OPERATORS = [
 
 export const LOGICAL_OPERATORS = ["AND", "OR"] as const
 
+export const WHERE_GROUP_OPERATORS = ["AND", "OR", "NOT"] as const
+
 export type ComparisonOperator = (typeof COMPARISON_OPERATORS)[number]
 export type LogicalOperator = (typeof LOGICAL_OPERATORS)[number]
+export type WhereGroupOperator = (typeof WHERE_GROUP_OPERATORS)[number]
 
 /**
  * A row of data from a database query, or a row of data to be inserted, or a row of data used for query conditions.
@@ -140,18 +197,26 @@ export type ParamValue<P extends DataRow> =
 	| ToJson<P>
 	| FromJson<P>
 
-export type SqlTemplateValue<P extends DataRow, R = P> =
-	| ParamValue<P>
-	| SqlContext<P, R>
-	| RawValue
-	// biome-ignore lint/suspicious/noExplicitAny: <explanation>
-	| XStatementSync<any, any>
+/**
+ * A statement of any parameter and row type, as interpolated into another
+ * statement or used by a context
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+export type AnyStatement = XStatementSync<any, any>
+
+export type SqlTemplateValue<
+	P extends DataRow,
+	R = P,
+	J extends DataRow = DataRow,
+> = ParamValue<P> | SqlContext<P, R, J> | RawValue | AnyStatement
 /**
  * Parameter values and contexts that can be used in SQL template literals
  */
-export type SqlTemplateValues<P extends DataRow, R = P> = Array<
-	SqlTemplateValue<P, R>
->
+export type SqlTemplateValues<
+	P extends DataRow,
+	R = P,
+	J extends DataRow = DataRow,
+> = Array<SqlTemplateValue<P, R, J>>
 
 /**
  * Configuration for SQL formatting
@@ -186,25 +251,579 @@ export type SetOptions<P extends DataRow> =
 	| ["*", { jsonColumns: (keyof P)[] }]
 	| "*"
 
+/**
+ * Update spec for ON CONFLICT ... DO UPDATE. Values may reference the row that
+ * failed to insert as `excluded.column`. "*" updates every inserted column
+ * outside the conflict target from `excluded`.
+ */
+export type UpsertSetOptions<P extends DataRow> =
+	| {
+			[K in keyof P]?: ValueType<P> | RawValue | `excluded.${keyof P & string}`
+	  }
+	| "*"
+
+/**
+ * ON CONFLICT clause for INSERT statements. Omitting `set` emits DO NOTHING.
+ * @example
+ * const onConflict: OnConflictClause<User> = {
+ *   target: ["email"],
+ *   set: { name: "excluded.name", updatedAt: "$updatedAt" },
+ * }
+ */
+export type OnConflictClause<P extends DataRow> = {
+	/** Columns of the unique index or primary key that may conflict */
+	target?: (keyof P & string)[]
+	/** Predicate of a partial unique index used as the conflict target */
+	where?: WhereClause<P>
+	/** Columns to update; required to be used together with a target */
+	set?: UpsertSetOptions<P>
+}
+
 export type InsertOptions<P extends DataRow> =
 	| ValueType<P>[]
 	| "*"
 	| ["*", { jsonColumns?: (keyof P)[]; batch?: boolean }]
 
-export type ColumnOptions<P extends DataRow> =
+/**
+ * A column reference qualified by its table name or alias, e.g. "users.id"
+ */
+export type QualifiedColumn<P extends DataRow> = `${string}.${keyof P & string}`
+
+export const AGGREGATE_FUNCTIONS = [
+	"count",
+	"sum",
+	"avg",
+	"min",
+	"max",
+	"total",
+	"group_concat",
+	"json_group_array",
+] as const
+
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number]
+
+/**
+ * An aggregate function call over a column of P
+ * @example
+ * const call: AggregateCall<Order> = "sum(total)"
+ */
+export type AggregateCall<P extends DataRow> =
+	| "count(*)"
+	| `${AggregateFunction}(${(keyof P & string) | QualifiedColumn<P>})`
+	| `${AggregateFunction}(DISTINCT ${keyof P & string})`
+
+/**
+ * An aggregate column spec, optionally aliased
+ * @example
+ * const columns: AggregateColumn<Order>[] = ["count(*)", "avg(total) as average"]
+ */
+export type AggregateColumn<P extends DataRow> =
+	| AggregateCall<P>
+	| `${AggregateCall<P>} ${"as" | "AS"} ${string}`
+
+type AggregateValue<
+	P extends DataRow,
+	F extends string,
+	K extends string,
+> = F extends "count"
+	? number
+	: F extends "total"
+		? number
+		: F extends "sum" | "avg"
+			? number | null
+			: F extends "group_concat"
+				? string | null
+				: K extends keyof P
+					? F extends "min" | "max"
+						? P[K] | null
+						: F extends "json_group_array"
+							? P[K][]
+							: unknown
+					: unknown
+
+type AggregateArgKey<A extends string> = A extends `DISTINCT ${infer K}`
+	? AggregateArgKey<K>
+	: A extends `${string}.${infer K}`
+		? K
+		: A
+
+/**
+ * Result row type produced by a set of aggregate column specs. Unaliased
+ * columns are keyed by their expression, as SQLite names them.
+ * @example
+ * type Row = AggregateResult<Order, "count(*) as orders" | "sum(total) as revenue">
+ * // { orders: number; revenue: number | null }
+ */
+export type AggregateResult<P extends DataRow, C extends AggregateColumn<P>> = {
+	[S in C as S extends `${string} ${"as" | "AS"} ${infer A}`
+		? A
+		: S]: S extends `${infer F}(${infer A})${string}`
+		? AggregateValue<P, F, AggregateArgKey<A>>
+		: never
+}
+
+export const FTS_FUNCTIONS = ["bm25", "highlight", "snippet"] as const
+
+export type FtsFunction = (typeof FTS_FUNCTIONS)[number]
+
+/**
+ * An FTS5 auxiliary function call, optionally aliased. Build one with
+ * bm25(), highlight() or snippet().
+ * @example
+ * const rank: FtsColumn = "bm25(posts_fts) AS score"
+ */
+export type FtsColumn =
+	| `${FtsFunction}(${string})`
+	| `${FtsFunction}(${string}) ${"as" | "AS"} ${string}`
+
+export const RANKING_FUNCTIONS = [
+	"row_number",
+	"rank",
+	"dense_rank",
+	"percent_rank",
+	"cume_dist",
+] as const
+
+export type RankingFunction = (typeof RANKING_FUNCTIONS)[number]
+
+type WindowArg<P extends DataRow> = (keyof P & string) | QualifiedColumn<P>
+
+/**
+ * A window function call. Aggregate functions run as window functions too.
+ * The optional arguments of lag() and lead() are the row offset and the
+ * default value for rows before the first or after the last.
+ * @example
+ * const calls: WindowFunctionCall<Order>[] = ["rank()", "lag(total, 1, 0)", "sum(total)"]
+ */
+export type WindowFunctionCall<P extends DataRow> =
+	| `${RankingFunction}()`
+	| `ntile(${number})`
+	| `${"lag" | "lead"}(${WindowArg<P>}${"" | `, ${number}` | `, ${number}, ${string}`})`
+	| `${"first_value" | "last_value"}(${WindowArg<P>})`
+	| `nth_value(${WindowArg<P>}, ${number})`
+	| AggregateCall<P>
+
+type FrameBound =
+	| "UNBOUNDED PRECEDING"
+	| "UNBOUNDED FOLLOWING"
+	| "CURRENT ROW"
+	| `${number} ${"PRECEDING" | "FOLLOWING"}`
+
+type FrameUnit = "ROWS" | "RANGE" | "GROUPS"
+
+/**
+ * The rows of the partition a window function sees, relative to the current
+ * row. Without a frame it runs from the start of the partition to the
+ * current row and its peers.
+ * @see https://www.sqlite.org/windowfunctions.html#frame_specifications
+ * @example
+ * const frame: WindowFrame = "ROWS BETWEEN 6 PRECEDING AND CURRENT ROW"
+ */
+export type WindowFrame =
+	| `${FrameUnit} ${FrameBound}`
+	| `${FrameUnit} BETWEEN ${FrameBound} AND ${FrameBound}`
+
+/**
+ * A window definition. `base` names a window of the `window` clause to
+ * extend; it must not have a frame and, if it partitions rows, this
+ * definition must not.
+ */
+export type WindowDefinition<P extends DataRow> = {
+	base?: string
+	partitionBy?: ColumnRef<P>[]
+	orderBy?: Partial<Record<keyof P, "ASC" | "DESC">>
+	frame?: WindowFrame
+}
+
+/**
+ * A window function column. `over` is a window definition or the name of a
+ * window of the `window` clause.
+ * @example
+ * const running: WindowColumn<Order> = {
+ *   fn: "sum(total)",
+ *   over: {
+ *     partitionBy: ["userId"],
+ *     orderBy: { createdAt: "ASC" },
+ *     frame: "ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW",
+ *   },
+ *   as: "runningTotal",
+ * }
+ */
+export type WindowColumn<P extends DataRow> = {
+	fn: WindowFunctionCall<P>
+	over: string | WindowDefinition<P>
+	as: string
+}
+
+export function isWindowColumn<P extends DataRow>(
+	value: unknown
+): value is WindowColumn<P> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		Object.hasOwn(value, "fn") &&
+		Object.hasOwn(value, "over")
+	)
+}
+
+/**
+ * A column of P renamed in the result
+ * @example
+ * const col: AliasedColumn<User> = "name as displayName"
+ */
+export type AliasedColumn<P extends DataRow> =
+	`${ColumnRef<P>} ${"as" | "AS"} ${string}`
+
+type ArithmeticOperator = "+" | "-" | "*" | "/" | "%" | "||"
+
+/**
+ * An aliased expression: a function call, a CASE expression or an arithmetic
+ * or concatenation operation. Expressions may only call SQLite's built-in
+ * scalar, aggregate and FTS5 functions; subqueries, parameters and comments
+ * are rejected.
+ * @example
+ * const cols: ExpressionColumn[] = ["upper(name) as label", "price * quantity AS amount"]
+ */
+export type ExpressionColumn =
+	| `${string}(${string}) ${"as" | "AS"} ${string}`
+	| `${string} ${ArithmeticOperator} ${string} ${"as" | "AS"} ${string}`
+	| `CASE ${string} END ${"as" | "AS"} ${string}`
+
+/**
+ * A column of the joined row type J qualified by its table name or alias.
+ * Without a specific J, e.g. DataRow, no joined columns are typed.
+ */
+export type JoinedColumn<J extends DataRow> = string extends keyof J
+	? never
+	: QualifiedColumn<J>
+
+/**
+ * Columns to select. With a join, J is the row type of the joined tables and
+ * their columns can be selected as "table.column".
+ */
+export type ColumnOptions<P extends DataRow, J extends DataRow = DataRow> =
 	| (
 			| keyof P
+			| QualifiedColumn<P>
+			| JoinedColumn<J>
+			| `${string}.*`
 			| `${NonPrimitiveKeys<P> & string}${"<-json"}`
 			| `${NonPrimitiveKeys<P> & string}${"->json"}`
+			| AliasedColumn<P>
+			| AggregateColumn<P>
+			| FtsColumn
+			| ExpressionColumn
+			| WindowColumn<P>
 	  )[]
 	| "*"
 
-// Core SQL context type
-export type SqlContext<P extends DataRow, R = P> = Partial<{
-	columns: ColumnOptions<P>
+// Value of an expression: a column of P keeps its type, FTS5 functions have
+// known types, anything else is unknown
+type ExpressionValue<P extends DataRow, E extends string> = E extends keyof P
+	? P[E]
+	: E extends `bm25(${string})`
+		? number
+		: E extends `${"highlight" | "snippet"}(${string})`
+			? string
+			: E extends `${string}.${infer K}`
+				? K extends keyof P
+					? P[K]
+					: unknown
+				: unknown
+
+type WindowValue<P extends DataRow, F extends string> = F extends
+	| `${RankingFunction}()`
+	| `ntile(${string})`
+	? number
+	: F extends `${"lag" | "lead" | "first_value" | "last_value" | "nth_value"}(${infer A})`
+		? ExpressionValue<P, A extends `${infer K},${string}` ? K : A> | null
+		: F extends `${infer Fn}(${infer A})`
+			? AggregateValue<P, Fn, AggregateArgKey<A>>
+			: unknown
+
+type SelectedColumn<P extends DataRow, S> = S extends WindowColumn<P>
+	? { [K in S["as"]]: WindowValue<P, S["fn"]> }
+	: S extends AggregateColumn<P>
+		? AggregateResult<P, S>
+		: S extends `${string}.*`
+			? P
+			: S extends `${infer K}<-json`
+				? { [X in K]: ExpressionValue<P, K> }
+				: S extends `${infer K}->json`
+					? { [X in `jsonb(${K})`]: Uint8Array }
+					: S extends `${infer E} ${"as" | "AS"} ${infer A}`
+						? { [X in A]: ExpressionValue<P, E> }
+						: S extends `${string}.${infer K}`
+							? { [X in K]: ExpressionValue<P, K> }
+							: S extends string
+								? { [X in S]: ExpressionValue<P, S> }
+								: never
+
+/**
+ * Result row type of a columns spec, keyed the way SQLite names the result
+ * columns: by alias, by column name for qualified columns, and by the
+ * expression itself otherwise. Expressions other than columns, aggregate,
+ * window and FTS5 functions give unknown values.
+ *
+ * db.sql<P>() infers it from the columns context of its template; see
+ * {@link SqlTag}.
+ * @example
+ * const columns = ["id", "name as displayName", "count(*) as posts"] satisfies ColumnOptions<User>
+ * db.sql<User, SelectRow<User, typeof columns>>`
+ *   SELECT ${{ columns }} FROM users JOIN posts ON posts.userId = users.id
+ *   ${{ groupBy: ["users.id"] }}
+ * `.all() // { id: number; displayName: string; posts: number }[]
+ */
+export type SelectRow<
+	P extends DataRow,
+	C extends "*" | readonly unknown[],
+> = C extends readonly (infer S)[]
+	? Simplify<UnionToIntersection<SelectedColumn<P, S>>>
+	: P
+
+type TemplateColumns<V> = V extends {
+	columns: infer C extends readonly unknown[]
+}
+	? C
+	: never
+
+/**
+ * Row type of a template: the SelectRow of its columns context, or P when it
+ * has none
+ */
+export type TemplateRow<P extends DataRow, V extends readonly unknown[]> = [
+	TemplateColumns<V[number]>,
+] extends [never]
+	? P
+	: SelectRow<P, TemplateColumns<V[number]>>
+
+/**
+ * Template tag returned by db.sql<P>(), which infers the row type of the
+ * statement from the columns context in its template. TypeScript does not
+ * infer the remaining type arguments of a call once one is given, so the
+ * tag is a second call that only infers.
+ * @example
+ * const people = db.sql<User>()`
+ *   SELECT ${{ columns: ["id", "name as displayName"] }} FROM users
+ * `.all() // { id: number; displayName: string }[]
+ */
+export type SqlTag<P extends DataRow, J extends DataRow = DataRow> = <
+	const V extends SqlTemplateValues<P, P, J>,
+>(
+	strings: TemplateStringsArray,
+	...params: V
+) => XStatementSync<P, TemplateRow<P, V>>
+
+export const JOIN_TYPES = ["INNER", "LEFT", "CROSS"] as const
+
+export type JoinType = (typeof JOIN_TYPES)[number]
+
+export const JOIN_OPERATORS = ["=", "!=", "<", ">", "<=", ">="] as const
+
+export type JoinOperator = (typeof JOIN_OPERATORS)[number]
+
+/**
+ * Join condition comparing a column of the left row type P with a column of the joined row type J
+ * @example
+ * const on: JoinCondition<User, Post> = "users.id = posts.userId"
+ */
+export type JoinCondition<
+	P extends DataRow,
+	J extends DataRow = DataRow,
+> = `${QualifiedColumn<P>} ${JoinOperator} ${QualifiedColumn<J>}`
+
+/**
+ * A JOIN clause. Multiple `on` conditions are combined with AND.
+ * CROSS joins take no condition.
+ * @template P Row type of the left side of the join
+ * @template J Row type of the joined table
+ * @example
+ * const join: JoinClause<User, Post> = {
+ *   type: "LEFT",
+ *   table: "posts",
+ *   as: "p",
+ *   on: "users.id = p.userId",
+ * }
+ */
+export type JoinClause<P extends DataRow, J extends DataRow = DataRow> =
+	| {
+			type?: Exclude<JoinType, "CROSS">
+			table: string
+			as?: string
+			on: JoinCondition<P, J> | JoinCondition<P, J>[]
+	  }
+	| {
+			type: "CROSS"
+			table: string
+			as?: string
+	  }
+
+/**
+ * A common table expression: a named statement the rest of the query can
+ * select from. A recursive CTE may select from itself, which makes the whole
+ * WITH clause RECURSIVE.
+ * @template R Row type of the statement
+ * @example
+ * const tree: CommonTableExpression<Category> = {
+ *   name: "tree",
+ *   recursive: true,
+ *   as: db.sql<{ rootId: number }, Category>`
+ *     SELECT * FROM categories WHERE id = ${"$rootId"}
+ *     UNION ALL
+ *     SELECT c.* FROM categories c JOIN tree ON c.parentId = tree.id
+ *   `,
+ * }
+ */
+export type CommonTableExpression<R = DataRow> = {
+	name: string
+	// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+	as: XStatementSync<any, R>
+	/** Names for the statement's result columns */
+	columns?: (keyof R & string)[]
+	recursive?: boolean
+	/** Forces (true) or prevents (false) computing the CTE once up front */
+	materialized?: boolean
+}
+
+/**
+ * One or more common table expressions, in the order they are defined.
+ * A CTE may select from the ones before it.
+ */
+export type WithClause = AnyCommonTableExpression | AnyCommonTableExpression[]
+
+// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+type AnyCommonTableExpression = CommonTableExpression<any>
+
+/**
+ * Row type of a statement used as a common table expression, for typing the
+ * outer query
+ * @example
+ * const recent = db.sql<{ since: string }, Order>`SELECT * FROM orders WHERE createdAt > ${"$since"}`
+ * db.sql<{ since: string } & CteRow<typeof recent>>`
+ *   ${{ with: { name: "recent", as: recent } }}
+ *   SELECT ${{ columns: ["userId", "sum(total) as spent"] }} FROM recent
+ *   ${{ groupBy: ["userId"] }}
+ * `
+ */
+// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+export type CteRow<S> = S extends XStatementSync<any, infer R> ? R : never
+
+/**
+ * Parameters of a query that selects from common table expressions: the
+ * parameters of each CTE statement, which the query binds, and the columns
+ * of its rows. Pass the statements of several CTEs as a union.
+ * @example
+ * const recent = db.sql<{ since: string }, Order>`SELECT * FROM orders WHERE createdAt > ${"$since"}`
+ * const totals = db.sql<Order, Spender>`SELECT userId, sum(total) AS spent FROM recent GROUP BY userId`
+ * db.sql<CteParams<typeof recent | typeof totals>>`
+ *   ${{ with: [{ name: "recent", as: recent }, { name: "totals", as: totals }] }}
+ *   SELECT * FROM totals ${{ orderBy: { spent: "DESC" } }}
+ * `
+ */
+export type CteParams<S> = Simplify<
+	UnionToIntersection<
+		S extends XStatementSync<infer P, infer R> ? P & R : never
+	>
+>
+
+export const COMPOUND_OPERATORS = [
+	"UNION",
+	"UNION ALL",
+	"INTERSECT",
+	"EXCEPT",
+] as const
+
+export type CompoundOperator = (typeof COMPOUND_OPERATORS)[number]
+
+/**
+ * Selects combined with UNION, UNION ALL, INTERSECT or EXCEPT, created with
+ * union(), unionAll(), intersect() or except(). SQLite evaluates compound
+ * operators left to right without parentheses, so only the first select may
+ * itself be compound: except(union(a, b), c) is `a UNION b EXCEPT c`.
+ * @template R Row type of the result, which takes its column names from the
+ * first select
+ */
+export type CompoundSelect<R = DataRow> = {
+	type: "__x_compound__"
+	operator: CompoundOperator
+	selects: [
+		// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+		XStatementSync<any, R> | CompoundSelect<R>,
+		...AnyStatement[],
+	]
+}
+
+export function isCompoundSelect(value: unknown): value is CompoundSelect {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		Object.hasOwn(value, "type") &&
+		(value as CompoundSelect).type === "__x_compound__"
+	)
+}
+
+/**
+ * Target of an INSERT ... SELECT statement. The select's result columns are
+ * matched to the target columns by position, and those with a name, a plain
+ * column or an alias, must be named after their target column.
+ * @example
+ * const archive: InsertSelectClause<User> = {
+ *   into: "archived_users",
+ *   columns: ["id", "name"],
+ *   select: db.sql<User>`SELECT ${{ columns: ["id", "name"] }} FROM users`,
+ * }
+ */
+export type InsertSelectClause<P extends DataRow> = {
+	/** Table the rows are inserted into */
+	into: string
+	/** Target columns, one per result column of the select */
+	columns: (keyof P & string)[]
+	select: AnyStatement
+}
+
+/**
+ * FROM clause of an UPDATE ... FROM statement: a table, optionally aliased,
+ * or an interpolated select, which must be aliased. Rows are correlated with
+ * where conditions that compare columns of both tables, such as
+ * ["users.id", "=", raw`totals.userId`].
+ */
+export type UpdateFromClause =
+	| string
+	| { table: string; as?: string }
+	| { select: AnyStatement; as: string }
+
+/**
+ * Core SQL context type
+ * @template P Row type of the statement's table
+ * @template R Row type returned
+ * @template J Row type of the joined tables, which types the joined side of
+ * join conditions and the joined columns that can be selected. Use an
+ * intersection to join several tables.
+ */
+export type SqlContext<
+	P extends DataRow,
+	R = P,
+	J extends DataRow = DataRow,
+> = Partial<{
+	with: WithClause
+	// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+	compound: CompoundSelect<any>
+	/** Starts a DELETE statement on the named table */
+	deleteFrom: string
+	insertSelect: InsertSelectClause<P>
+	/** Removes duplicate rows; requires columns in the same context */
+	distinct: boolean
+	columns: ColumnOptions<P, J>
 	values: InsertOptions<P>
+	onConflict: OnConflictClause<P>
 	set: SetOptions<P>
+	/** Rows to update from; requires set in the same statement */
+	from: UpdateFromClause
+	join: JoinClause<P, J> | JoinClause<P, J>[]
 	where: WhereClause<P>
+	groupBy: ColumnRef<P>[]
+	having: HavingClause<P>
+	window: Record<string, WindowDefinition<P>>
 	orderBy: Partial<Record<keyof P, "ASC" | "DESC">>
 	limit: number
 	offset: number
@@ -212,148 +831,207 @@ export type SqlContext<P extends DataRow, R = P> = Partial<{
 	schema: Schema<P>
 }>
 
+/**
+ * A column of P, optionally qualified by a table name or alias
+ */
+export type ColumnRef<P extends DataRow> =
+	| (keyof P & string)
+	| QualifiedColumn<P>
+
+/**
+ * EXISTS or NOT EXISTS test against an interpolated statement
+ * @example
+ * const hasOrders: ExistsCondition = [
+ *   "EXISTS",
+ *   db.sql`SELECT 1 FROM orders WHERE orders.userId = users.id`,
+ * ]
+ */
+export type ExistsCondition = [
+	"EXISTS" | "NOT EXISTS",
+	// biome-ignore lint/suspicious/noExplicitAny: <explanation>
+	XStatementSync<any, any>,
+]
+
+/**
+ * A single WHERE condition. `IN $param` expands an array parameter into one
+ * placeholder per element. REGEXP requires a regexp() function to be
+ * registered on the connection. MATCH runs a full-text query against an FTS5
+ * table, or one of its columns.
+ */
 export type SingleWhereCondition<P extends DataRow> =
-	| `${keyof P & string} ${ComparisonOperator} $${keyof P & string}`
-	| `${keyof P & string} IS NULL`
-	| `${keyof P & string} IS NOT NULL`
-	| [keyof P & string, ComparisonOperator, RawValue] // New tuple format for RawValue
+	| `${ColumnRef<P>} ${ComparisonOperator} $${keyof P & string}`
+	| `${ColumnRef<P>} IS NULL`
+	| `${ColumnRef<P>} IS NOT NULL`
+	| `${ColumnRef<P>} ${"BETWEEN" | "NOT BETWEEN"} $${keyof P & string} AND $${keyof P & string}`
+	| `${ColumnRef<P>} ${"LIKE" | "NOT LIKE"} $${keyof P & string} ESCAPE '${string}'`
+	| `${string} MATCH $${keyof P & string}`
+	| [ColumnRef<P>, ComparisonOperator, RawValue] // New tuple format for RawValue
+	| ExistsCondition
+/**
+ * A parenthesized group of conditions created with `and()`, `or()` or `not()`.
+ * Groups nest to any depth.
+ */
+export type WhereGroup<P extends DataRow> = {
+	type: "__x_where_group__"
+	operator: WhereGroupOperator
+	conditions: WhereExpression<P>[]
+}
+
+export function isWhereGroup<P extends DataRow>(
+	value: unknown
+): value is WhereGroup<P> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		Object.hasOwn(value, "type") &&
+		(value as WhereGroup<P>).type === "__x_where_group__"
+	)
+}
+
+/**
+ * A single condition or a group of conditions
+ */
+export type WhereExpression<P extends DataRow> =
+	| SingleWhereCondition<P>
+	| WhereGroup<P>
+
 // Recursive type to enforce alternating condition/operator pattern
 export type ExtendedWhereCondition<P extends DataRow> =
-	| [SingleWhereCondition<P>, LogicalOperator, SingleWhereCondition<P>]
+	| [WhereExpression<P>, LogicalOperator, WhereExpression<P>]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 	| [
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 			LogicalOperator,
-			SingleWhereCondition<P>,
+			WhereExpression<P>,
 	  ]
 
 /**
@@ -365,10 +1043,34 @@ export type ExtendedWhereCondition<P extends DataRow> =
  *
  * // Compound condition
  * const where: WhereClause<User> = ["age > $minAge", "AND", "isActive = $active"]
+ *
+ * // Grouped condition: (age > $minAge OR isAdmin = $admin) AND isActive = $active
+ * const where: WhereClause<User> = and(
+ *   or("age > $minAge", "isAdmin = $admin"),
+ *   "isActive = $active"
+ * )
  */
 export type WhereClause<P extends DataRow> =
 	| SingleWhereCondition<P>
 	| ExtendedWhereCondition<P>
+	| WhereGroup<P>
+
+/**
+ * A HAVING condition comparing an aggregate with a parameter or a number
+ * @example
+ * const having: HavingCondition<Order> = "count(*) > $minOrders"
+ */
+export type HavingCondition<P extends DataRow> =
+	| `${"count(*)" | `${AggregateFunction}(${keyof P & string})`} ${ComparisonOperator} $${string}`
+	| `${"count(*)" | `${AggregateFunction}(${keyof P & string})`} ${ComparisonOperator} ${number}`
+
+/**
+ * HAVING clause for grouped queries. Compound conditions alternate with
+ * logical operators, like WHERE clauses.
+ */
+export type HavingClause<P extends DataRow> =
+	| HavingCondition<P>
+	| [HavingCondition<P>, ...(LogicalOperator | HavingCondition<P>)[]]
 
 /**
  * SQLite column constraints for table definitions
@@ -382,6 +1084,37 @@ export type BaseConstraint =
 	| `FOREIGN KEY REFERENCES ${string} (${string})`
 	| `DEFAULT ${string}`
 	| "NOT NULL"
+
+/**
+ * Conflict resolution algorithms for column constraints
+ * @see https://www.sqlite.org/lang_conflict.html
+ */
+export type ConflictResolution =
+	| "ROLLBACK"
+	| "ABORT"
+	| "FAIL"
+	| "IGNORE"
+	| "REPLACE"
+
+/**
+ * Built-in SQLite collating sequences
+ * @see https://www.sqlite.org/datatype3.html#collating_sequences
+ */
+export type CollationName = "BINARY" | "NOCASE" | "RTRIM"
+
+/**
+ * Column clauses that take an argument: collations, generated column
+ * expressions and per-constraint conflict clauses
+ * @example
+ * const clause: ColumnClause = "UNIQUE ON CONFLICT REPLACE"
+ * const generated: ColumnClause = "GENERATED ALWAYS AS (price * qty) STORED"
+ */
+export type ColumnClause =
+	| `COLLATE ${CollationName}`
+	| `${"PRIMARY KEY" | "UNIQUE" | "NOT NULL"} ON CONFLICT ${ConflictResolution}`
+	| `GENERATED ALWAYS AS (${string})`
+	| `GENERATED ALWAYS AS (${string}) ${"STORED" | "VIRTUAL"}`
+
 /**
  * SQLite storage classes (data types)
  * @see https://www.sqlite.org/datatype3.html
@@ -393,15 +1126,36 @@ export type DataType = "TEXT" | "INTEGER" | "REAL" | "BLOB"
  * @template T Field type
  * @template D SQLite data type
  */
-export type ConstraintPatterns<T, D extends DataType> = undefined extends T
+export type ConstraintPatterns<
+	T,
+	D extends DataType | "ANY",
+> = undefined extends T
 	?
 			| `${D} ${BaseConstraint}`
 			| `${D} ${BaseConstraint} ${Exclude<BaseConstraint, "NOT NULL">}`
 			| `${D} ${BaseConstraint} ${Exclude<BaseConstraint, "NOT NULL">} ${Exclude<BaseConstraint, "NOT NULL">}`
+			| `${D} ${NullableColumnClause}`
+			| `${D} ${Exclude<BaseConstraint, "NOT NULL">} ${NullableColumnClause}`
+			| `${D} ${NullableColumnClause} ${NullableColumnClause}`
 	:
 			| `${D} ${BaseConstraint}`
 			| `${D} ${BaseConstraint} ${BaseConstraint}`
 			| `${D} ${BaseConstraint} ${BaseConstraint} ${BaseConstraint}`
+			| `${D} ${ColumnClause}`
+			| `${D} ${BaseConstraint} ${ColumnClause}`
+			| `${D} ${ColumnClause} ${ColumnClause}`
+
+// NOT NULL clauses cannot apply to optional fields
+type NullableColumnClause = Exclude<ColumnClause, `NOT NULL ${string}`>
+
+/**
+ * Column definitions for objects, arrays and JSON values
+ */
+type StructuredColumnType<T> =
+	| ConstraintPatterns<T, "TEXT">
+	| ConstraintPatterns<T, "BLOB">
+	| "BLOB"
+	| "TEXT"
 
 /**
  * Maps TypeScript types to valid SQLite column definitions with constraints
@@ -420,12 +1174,12 @@ export type ValidColumnTypeMap<T> = T extends string
 			: T extends bigint
 				? ConstraintPatterns<T, "INTEGER"> | "INTEGER"
 				: T extends object | unknown[]
-					?
-							| ConstraintPatterns<T, "TEXT">
-							| ConstraintPatterns<T, "BLOB">
-							| "BLOB"
-							| "TEXT"
-					: never
+					? StructuredColumnType<T>
+					: // unknown is used for JSON columns of unspecified shape and for
+						// ANY columns of STRICT tables
+						unknown extends T
+						? StructuredColumnType<T> | ConstraintPatterns<T, "ANY"> | "ANY"
+						: never
 
 /**
  * Type-safe column definitions for a table
@@ -433,4 +1187,25 @@ export type ValidColumnTypeMap<T> = T extends string
  */
 export type Schema<T extends DataRow> = {
 	[K in keyof T]?: ValidColumnTypeMap<T[K]>
-} & { $$foreignKeys?: ForeignKeyDef<T>[] }
+} & {
+	$$foreignKeys?: ForeignKeyDef<T>[]
+	/** Composite primary key, rendered as PRIMARY KEY(a, b) */
+	$$primaryKey?: (keyof T & string)[]
+	/** Multi-column unique constraints, rendered as UNIQUE(a, b) */
+	$$unique?: (keyof T & string)[][]
+	/** Table CHECK expressions without the surrounding parentheses */
+	$$checks?: string[]
+	$$options?: SchemaOptions
+}
+
+/**
+ * Options written after the column list of a CREATE TABLE statement
+ * @see https://www.sqlite.org/stricttables.html
+ * @see https://www.sqlite.org/withoutrowid.html
+ */
+export interface SchemaOptions {
+	/** Enforce column types; allows INT, INTEGER, REAL, TEXT, BLOB and ANY */
+	strict?: boolean
+	/** Store rows in the primary key index; requires a primary key */
+	withoutRowid?: boolean
+}
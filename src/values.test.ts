@@ -4,9 +4,15 @@
 
 import { test, describe, beforeEach, afterEach } from "node:test"
 import assert from "node:assert/strict"
-import { buildValuesStatement } from "./values"
+import {
+	buildOnConflictStatement,
+	buildValuesStatement,
+	validateOnConflictClause,
+} from "./values"
 import { NodeSqliteError } from "./errors"
 import { DB } from "#database"
+import { validateContextCombination } from "#context"
+import { raw } from "#sql"
 
 describe("buildValuesStatement", () => {
 	describe("with '*' values", () => {
@@ -882,3 +888,211 @@ describe("Values Database Operations", () => {
 		assert.deepEqual(result?.id, 42)
 	})
 })
+
+describe("onConflict", () => {
+	type Stock = {
+		ticker: string
+		description: string
+		hasIcon: number
+		updatedAt: string
+	}
+
+	test("builds DO NOTHING with and without a target", () => {
+		const params = { ticker: "AAPL", description: "Apple" }
+		assert.equal(
+			buildOnConflictStatement({}, params, ["ticker", "description"]).sql,
+			"ON CONFLICT DO NOTHING"
+		)
+		assert.equal(
+			buildOnConflictStatement({ target: ["ticker"] }, params, [
+				"ticker",
+				"description",
+			]).sql,
+			"ON CONFLICT(ticker) DO NOTHING"
+		)
+	})
+
+	test("builds DO UPDATE from excluded, parameters and raw values", () => {
+		const result = buildOnConflictStatement<Stock>(
+			{
+				target: ["ticker"],
+				set: {
+					description: "excluded.description",
+					hasIcon: "$hasIcon",
+					updatedAt: raw`CURRENT_TIMESTAMP`,
+				},
+			},
+			{ ticker: "AAPL", description: "Apple", hasIcon: 1 } as Stock,
+			["ticker", "description"]
+		)
+		assert.equal(
+			result.sql,
+			"ON CONFLICT(ticker) DO UPDATE SET description = excluded.description, hasIcon = $hasIcon, updatedAt = CURRENT_TIMESTAMP"
+		)
+		assert.deepEqual(result.parameterOperators, ["$hasIcon"])
+	})
+
+	test("expands '*' to inserted columns outside the target", () => {
+		const result = buildOnConflictStatement(
+			{ target: ["ticker"], set: "*" },
+			{ ticker: "AAPL", description: "Apple", hasIcon: 1 },
+			["ticker", "description", "hasIcon"]
+		)
+		assert.equal(
+			result.sql,
+			"ON CONFLICT(ticker) DO UPDATE SET description = excluded.description, hasIcon = excluded.hasIcon"
+		)
+	})
+
+	test("renders a partial index predicate on the target", () => {
+		const result = buildOnConflictStatement<Stock>(
+			{ target: ["ticker"], where: "hasIcon = $hasIcon" },
+			{ hasIcon: 1 } as Stock,
+			["ticker"]
+		)
+		assert.equal(
+			result.sql,
+			"ON CONFLICT(ticker) WHERE hasIcon = $hasIcon DO NOTHING"
+		)
+		assert.deepEqual(result.parameterOperators, ["$hasIcon"])
+	})
+
+	test("validates the clause shape", () => {
+		assert.deepEqual(validateOnConflictClause({ target: ["ticker"] }), [])
+		assert.deepEqual(
+			validateOnConflictClause({ set: "*" }).map(e => e.path),
+			["set"]
+		)
+		assert.deepEqual(
+			validateOnConflictClause({ where: "hasIcon = $hasIcon" }).map(
+				e => e.path
+			),
+			["where"]
+		)
+		assert.deepEqual(
+			validateOnConflictClause({
+				target: ["ticker; DROP"],
+				set: { description: "other.description" },
+			}).map(e => e.path),
+			["target[0]", "set.description"]
+		)
+	})
+
+	test("rejects parameters in batch upserts", () => {
+		assert.throws(
+			() =>
+				buildOnConflictStatement(
+					{ target: ["ticker"], set: { description: "$description" } },
+					[{ ticker: "AAPL", description: "Apple" }],
+					["ticker", "description"]
+				),
+			NodeSqliteError
+		)
+	})
+
+	test("requires values and excludes set", () => {
+		const missing = validateContextCombination<Stock>([
+			{ onConflict: { target: ["ticker"] } },
+		])
+		assert.equal(missing.length, 1)
+		assert.equal(missing[0].type, "INVALID_COMBINATION")
+
+		const incompatible = validateContextCombination<Stock>([
+			{ values: ["$ticker"], onConflict: { target: ["ticker"] } },
+			{ set: { description: "$description" } },
+		])
+		assert.ok(
+			incompatible.some(
+				e =>
+					e.type === "INCOMPATIBLE_CLAUSE" && e.clauses?.includes("onConflict")
+			)
+		)
+	})
+})
+
+describe("onConflict Database Operations", () => {
+	type Stock = { ticker: string; description: string; hasIcon: number }
+
+	let db: DB
+
+	beforeEach(() => {
+		db = new DB({ location: ":memory:", environment: "testing" })
+		db.exec(`
+      CREATE TABLE stocks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ticker TEXT NOT NULL UNIQUE,
+        description TEXT,
+        hasIcon INTEGER DEFAULT 0
+      );
+      INSERT INTO stocks (ticker, description, hasIcon) VALUES ('AAPL', 'Apple', 0);
+    `)
+	})
+
+	afterEach(() => {
+		db.close()
+	})
+
+	const rows = () =>
+		db.sql`SELECT ticker, description, hasIcon FROM stocks ORDER BY ticker`
+			.all<Stock>()
+			.map(row => ({ ...row }))
+
+	test("ignores conflicting rows with DO NOTHING", () => {
+		db.sql<Stock>`
+      INSERT INTO stocks ${{ values: "*", onConflict: { target: ["ticker"] } }}
+    `.run({ ticker: "AAPL", description: "Other", hasIcon: 1 })
+
+		assert.deepEqual(rows(), [
+			{ ticker: "AAPL", description: "Apple", hasIcon: 0 },
+		])
+	})
+
+	test("updates conflicting rows and returns them", () => {
+		const stmt = db.sql<Stock>`
+      INSERT INTO stocks ${{
+				values: "*",
+				onConflict: {
+					target: ["ticker"],
+					set: { description: "excluded.description", hasIcon: "$hasIcon" },
+				},
+				returning: ["ticker", "description"],
+			}}
+    `
+
+		const result = stmt.get<Pick<Stock, "ticker" | "description">>({
+			ticker: "AAPL",
+			description: "Apple Inc.",
+			hasIcon: 1,
+		})
+		assert.equal(result?.description, "Apple Inc.")
+		assert.deepEqual(rows(), [
+			{ ticker: "AAPL", description: "Apple Inc.", hasIcon: 1 },
+		])
+	})
+
+	test("upserts batches with set '*'", () => {
+		db.sql<Stock>`
+      INSERT INTO stocks ${{
+				values: ["*", { batch: true }],
+				onConflict: { target: ["ticker"], set: "*" },
+			}}
+    `.run([
+			{ ticker: "AAPL", description: "Apple Inc.", hasIcon: 1 },
+			{ ticker: "MSFT", description: "Microsoft", hasIcon: 0 },
+		])
+
+		assert.deepEqual(rows(), [
+			{ ticker: "AAPL", description: "Apple Inc.", hasIcon: 1 },
+			{ ticker: "MSFT", description: "Microsoft", hasIcon: 0 },
+		])
+	})
+
+	test("accepts onConflict in a separate context", () => {
+		db.sql<Stock>`
+      INSERT INTO stocks ${{ values: ["$ticker", "$description"] }}
+      ${{ onConflict: { target: ["ticker"], set: "*" } }}
+    `.run({ ticker: "AAPL", description: "Renamed" } as Stock)
+
+		assert.equal(rows()[0].description, "Renamed")
+	})
+})
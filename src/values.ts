@@ -1,7 +1,14 @@
 // noinspection t
 
 import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
-import type { DataRow, InsertOptions } from "#types"
+import {
+	isRawValue,
+	type DataRow,
+	type InsertOptions,
+	type OnConflictClause,
+} from "#types"
+import { validationErr, type ValidationError } from "#validate"
+import { buildWhereStatement, validateWhereClause } from "#where"
 
 type BuildSqlResult = {
 	columns: string[]
@@ -200,7 +207,7 @@ function buildSqlComponents<P extends DataRow>(
 export function buildValuesStatement<P extends DataRow>(
 	values: InsertOptions<P>,
 	params: P | P[]
-): { sql: string; parameterOperators: string[] } {
+): { sql: string; parameterOperators: string[]; columns: string[] } {
 	const result = buildSqlComponents(values, params)
 
 	if (
@@ -211,11 +218,207 @@ export function buildValuesStatement<P extends DataRow>(
 		return {
 			sql: `(${result.columns.join(", ")}) VALUES\n  ${result.placeholders.join(",\n  ")}`,
 			parameterOperators: result.parameterOperators,
+			columns: result.columns,
 		}
 	}
 
 	return {
 		sql: `(${result.columns.join(", ")}) VALUES (${result.placeholders})`,
 		parameterOperators: result.parameterOperators,
+		columns: result.columns,
+	}
+}
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const excludedRegex = /^excluded\.[A-Za-z_]\w*$/
+
+export function validateOnConflictClause(value: unknown): ValidationError[] {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return [validationErr({ msg: "onConflict must be an object" })]
+	}
+
+	const errors: ValidationError[] = []
+	const { target, where, set, ...rest } = value as Record<string, unknown>
+
+	for (const key of Object.keys(rest)) {
+		errors.push(validationErr({ msg: `Unknown property: ${key}`, path: key }))
+	}
+
+	if (target !== undefined) {
+		if (!Array.isArray(target) || target.length === 0) {
+			errors.push(
+				validationErr({
+					msg: "target must be a non-empty array of column names",
+					path: "target",
+				})
+			)
+		} else {
+			target.forEach((col, index) => {
+				if (typeof col !== "string" || !identifierRegex.test(col)) {
+					errors.push(
+						validationErr({
+							msg: `Invalid conflict target column: ${String(col)}`,
+							path: `target[${index}]`,
+						})
+					)
+				}
+			})
+		}
+	}
+
+	if (where !== undefined) {
+		if (target === undefined) {
+			errors.push(
+				validationErr({
+					msg: "where requires a conflict target",
+					path: "where",
+				})
+			)
+		}
+		errors.push(
+			...validateWhereClause(where as never).map(err => ({
+				...err,
+				path: `where${err.path ? `.${err.path}` : ""}`,
+			}))
+		)
+	}
+
+	if (set === undefined) {
+		return errors
+	}
+
+	if (target === undefined) {
+		errors.push(
+			validationErr({
+				msg: "DO UPDATE requires a conflict target",
+				path: "set",
+			})
+		)
+	}
+
+	if (set === "*") {
+		return errors
+	}
+
+	if (typeof set !== "object" || set === null || Array.isArray(set)) {
+		errors.push(
+			validationErr({
+				msg: "set must be '*' or an object",
+				path: "set",
+			})
+		)
+		return errors
+	}
+
+	const entries = Object.entries(set)
+	if (entries.length === 0) {
+		errors.push(
+			validationErr({
+				msg: "set must update at least one column",
+				path: "set",
+			})
+		)
+	}
+
+	for (const [col, val] of entries) {
+		if (isRawValue(val)) {
+			continue
+		}
+		if (
+			typeof val !== "string" ||
+			!(excludedRegex.test(val) || /^\$\w+(->json)?$/.test(val))
+		) {
+			errors.push(
+				validationErr({
+					msg: `Value for '${col}' must be a $parameter, excluded.column or RawValue`,
+					path: `set.${col}`,
+				})
+			)
+		}
+	}
+
+	return errors
+}
+
+/**
+ * Builds the ON CONFLICT clause of an upsert.
+ * @param onConflict Conflict handling configuration
+ * @param params Statement parameters; an array means a batch insert
+ * @param columns Columns inserted by the VALUES clause, used to expand set: "*"
+ */
+export function buildOnConflictStatement<P extends DataRow>(
+	onConflict: OnConflictClause<P>,
+	params: P | P[],
+	columns: string[]
+): { sql: string; parameterOperators: string[] } {
+	const errors = validateOnConflictClause(onConflict)
+	if (errors.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_PARAM",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid onConflict configuration",
+			errors.map(e => e.message).join("\n"),
+			undefined
+		)
+	}
+
+	const isBatch = Array.isArray(params) || params instanceof Set
+	const paramOps: string[] = []
+	let sql = "ON CONFLICT"
+
+	if (onConflict.target) {
+		sql += `(${onConflict.target.join(", ")})`
+	}
+
+	if (onConflict.where) {
+		const where = buildWhereStatement(onConflict.where)
+		paramOps.push(...where.parameterOperators)
+		sql += ` ${where.sql}`
 	}
+
+	if (!onConflict.set) {
+		sql += " DO NOTHING"
+	} else if (onConflict.set === "*") {
+		const target = new Set<string>(onConflict.target)
+		const updates = columns.filter(col => !target.has(col))
+		if (updates.length === 0) {
+			throw new NodeSqliteError(
+				"ERR_SQLITE_PARAM",
+				SqlitePrimaryResultCode.SQLITE_ERROR,
+				"Invalid onConflict configuration",
+				"set: '*' found no inserted columns outside the conflict target",
+				undefined
+			)
+		}
+		sql += ` DO UPDATE SET ${updates.map(col => `${col} = excluded.${col}`).join(", ")}`
+	} else {
+		const setPairs = Object.entries(onConflict.set).map(([col, value]) => {
+			if (isRawValue(value)) {
+				return `${col} = ${value.value}`
+			}
+			const str = String(value)
+			if (str.startsWith("excluded.")) {
+				return `${col} = ${str}`
+			}
+			const paramName = str.endsWith("->json") ? str.slice(1, -6) : str.slice(1)
+			paramOps.push(`$${paramName}`)
+			return str.endsWith("->json")
+				? `${col} = jsonb($${paramName})`
+				: `${col} = $${paramName}`
+		})
+		sql += ` DO UPDATE SET ${setPairs.join(", ")}`
+	}
+
+	if (isBatch && paramOps.length > 0) {
+		throw new NodeSqliteError(
+			"ERR_SQLITE_PARAM",
+			SqlitePrimaryResultCode.SQLITE_ERROR,
+			"Invalid onConflict configuration",
+			"Batch upserts can only reference excluded.column or RawValue, not $parameters",
+			undefined
+		)
+	}
+
+	return { sql, parameterOperators: paramOps }
 }
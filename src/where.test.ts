@@ -4,7 +4,14 @@
 
 import { test, describe, beforeEach, afterEach } from "node:test"
 import assert from "node:assert/strict"
-import { buildWhereStatement, validateWhereClause } from "#where"
+import {
+	and,
+	buildWhereStatement,
+	not,
+	or,
+	toWhereExpression,
+	validateWhereClause,
+} from "#where"
 import { DB } from "#database"
 import { raw } from "#sql.js"
 import type { WhereClause } from "#types.js"
@@ -529,3 +536,332 @@ describe("Where Context SQL Generation", () => {
 		)
 	})
 })
+
+describe("Grouped where conditions", () => {
+	test("builds parenthesized groups", () => {
+		const result = buildWhereStatement<TestUser>(
+			and(or("id = $id", "name = $name"), "active = $active")
+		)
+		assert.equal(
+			result.sql,
+			"WHERE (id = $id OR name = $name) AND active = $active"
+		)
+		assert.deepEqual(result.parameterOperators, ["$id", "$name", "$active"])
+	})
+
+	test("nests groups to any depth", () => {
+		const result = buildWhereStatement<TestUser>(
+			or(
+				and("id > $id", or("name LIKE $name", not("metadata IS NULL"))),
+				not(and("active = $active", "id < $id"))
+			)
+		)
+		assert.equal(
+			result.sql,
+			"WHERE (id > $id AND (name LIKE $name OR NOT (metadata IS NULL))) OR NOT (active = $active AND id < $id)"
+		)
+	})
+
+	test("accepts groups and raw values inside flat arrays", () => {
+		const result = buildWhereStatement<TestUser>([
+			["id", ">", raw`0`],
+			"AND",
+			or("name = $name", "metadata IS NULL"),
+		] as WhereClause<TestUser>)
+		assert.equal(
+			result.sql,
+			"WHERE id > 0 AND (name = $name OR metadata IS NULL)"
+		)
+	})
+
+	test("does not parenthesize single-condition groups", () => {
+		assert.equal(
+			buildWhereStatement<TestUser>(and("id = $id", or("name = $name"))).sql,
+			"WHERE id = $id AND name = $name"
+		)
+	})
+
+	test("validates groups recursively", () => {
+		assert.deepEqual(
+			validateWhereClause<TestUser>(
+				and(or("id = $id", "name = $name"), not("active = $active"))
+			),
+			[]
+		)
+
+		const errors = validateWhereClause<TestUser>(
+			and("id = $id", or("name = $name", "bogus" as never))
+		)
+		assert.equal(errors.length, 1)
+		assert.equal(errors[0].path, "conditions[1].conditions[1]")
+
+		const nested = validateWhereClause([
+			"id = $id",
+			"AND",
+			{ type: "__x_where_group__", operator: "NOT", conditions: [] },
+		] as never)
+		assert.equal(nested.length, 1)
+		assert.equal(nested[0].path, "[2].conditions")
+	})
+
+	test("converts flat arrays respecting AND precedence", () => {
+		assert.deepEqual(
+			toWhereExpression<TestUser>([
+				"id = $id",
+				"AND",
+				"name = $name",
+				"OR",
+				"active = $active",
+			]),
+			or(and("id = $id", "name = $name"), "active = $active")
+		)
+	})
+
+	test("runs grouped queries", () => {
+		const db = new DB({ location: ":memory:", environment: "testing" })
+		try {
+			db.exec(`
+        CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, active INTEGER);
+        INSERT INTO users (name, active) VALUES ('alice', 1), ('bob', 0), ('carol', 0);
+      `)
+			type User = { id: number; name: string; active: number }
+			const rows = db.sql<User>`
+        SELECT name FROM users
+        ${{
+					where: and(or("name = $name", "active = $active"), not("id > $id")),
+					orderBy: { name: "ASC" },
+				}}
+      `.all<{ name: string }>({ name: "bob", active: 1, id: 2 })
+
+			assert.deepEqual(
+				rows.map(row => row.name),
+				["alice", "bob"]
+			)
+		} finally {
+			db.close()
+		}
+	})
+})
+
+describe("Extended where operators", () => {
+	type Product = {
+		id: number
+		name: string
+		price: number
+		minPrice: number
+		maxPrice: number
+		ids: number[]
+		pattern: string
+	}
+
+	test("validates BETWEEN, GLOB, REGEXP and LIKE ... ESCAPE", () => {
+		const validCases: WhereClause<Product>[] = [
+			"price BETWEEN $minPrice AND $maxPrice",
+			"price NOT BETWEEN $minPrice AND $maxPrice",
+			"name GLOB $pattern",
+			"name NOT GLOB $pattern",
+			"name REGEXP $pattern",
+			"name LIKE $pattern ESCAPE '\\'",
+			"name NOT LIKE $pattern ESCAPE '!'",
+		]
+		for (const condition of validCases) {
+			assert.deepEqual(validateWhereClause(condition), [], String(condition))
+		}
+
+		const invalidCases = [
+			"price BETWEEN $minPrice",
+			"price BETWEEN $minPrice OR $maxPrice",
+			"name LIKE $pattern ESCAPE 'ab'",
+			"name GLOB 'a*'",
+		]
+		for (const condition of invalidCases) {
+			assert.equal(
+				validateWhereClause(condition as WhereClause<Product>).length,
+				1,
+				condition
+			)
+		}
+	})
+
+	test("collects both BETWEEN bounds", () => {
+		const result = buildWhereStatement<Product>(
+			"price BETWEEN $minPrice AND $maxPrice"
+		)
+		assert.equal(result.sql, "WHERE price BETWEEN $minPrice AND $maxPrice")
+		assert.deepEqual(result.parameterOperators, ["$minPrice", "$maxPrice"])
+	})
+
+	test("expands array parameters for IN", () => {
+		const result = buildWhereStatement<Product>(
+			["id IN $ids", "AND", "id NOT IN $id"],
+			{ ids: [3, 5, 8], id: 5 } as Product
+		)
+		assert.equal(
+			result.sql,
+			"WHERE id IN ($ids_0, $ids_1, $ids_2) AND id NOT IN ($id)"
+		)
+		assert.deepEqual(result.parameterOperators, [
+			"$ids_0",
+			"$ids_1",
+			"$ids_2",
+			"$id",
+		])
+		assert.deepEqual(result.expandedParams, {
+			$ids_0: 3,
+			$ids_1: 5,
+			$ids_2: 8,
+		})
+	})
+
+	test("rejects EXISTS without a statement", () => {
+		const errors = validateWhereClause([
+			"EXISTS",
+			"SELECT 1",
+		] as unknown as WhereClause<Product>)
+		assert.equal(errors.length, 1)
+		assert.equal(
+			errors[0].message,
+			"EXISTS requires an interpolated SQL statement"
+		)
+	})
+
+	describe("queries", () => {
+		let db: DB
+
+		beforeEach(() => {
+			db = new DB({ location: ":memory:", environment: "testing" })
+			db.exec(`
+        CREATE TABLE products (id INTEGER PRIMARY KEY, name TEXT, price REAL);
+        CREATE TABLE reviews (id INTEGER PRIMARY KEY, productId INTEGER, stars INTEGER);
+        INSERT INTO products (id, name, price) VALUES
+          (1, 'apple', 1.5), (2, 'banana', 0.5), (3, 'cherry_pie', 12), (4, 'cherry', 6);
+        INSERT INTO reviews (productId, stars) VALUES (1, 5), (3, 2), (3, 4);
+      `)
+		})
+
+		afterEach(() => {
+			db.close()
+		})
+
+		const names = (rows: { name: string }[]) => rows.map(row => row.name)
+
+		test("binds IN lists of any length", () => {
+			const query = db.sql<Product>`
+        SELECT name FROM products ${{ where: "id IN $ids", orderBy: { id: "ASC" } }}
+      `
+			assert.deepEqual(
+				names(query.all<{ name: string }>({ ids: [1, 3] } as Product)),
+				["apple", "cherry_pie"]
+			)
+			assert.deepEqual(
+				names(query.all<{ name: string }>({ ids: [2, 3, 4] } as Product)),
+				["banana", "cherry_pie", "cherry"]
+			)
+			assert.deepEqual(query.all({ ids: [] as number[] } as Product), [])
+		})
+
+		test("filters with BETWEEN, GLOB and LIKE ... ESCAPE", () => {
+			const between = db.sql<Product>`
+        SELECT name FROM products ${{
+					where: "price BETWEEN $minPrice AND $maxPrice",
+					orderBy: { id: "ASC" },
+				}}
+      `.all<{ name: string }>({ minPrice: 1, maxPrice: 6 } as Product)
+			assert.deepEqual(names(between), ["apple", "cherry"])
+
+			const glob = db.sql<Product>`
+        SELECT name FROM products ${{ where: "name GLOB $pattern" }}
+      `.all<{ name: string }>({ pattern: "b*" } as Product)
+			assert.deepEqual(names(glob), ["banana"])
+
+			const escaped = db.sql<Product>`
+        SELECT name FROM products ${{ where: "name LIKE $pattern ESCAPE '!'" }}
+      `.all<{ name: string }>({ pattern: "%!_%" } as Product)
+			assert.deepEqual(names(escaped), ["cherry_pie"])
+		})
+
+		test("filters with EXISTS subqueries and their parameters", () => {
+			type Review = { productId: number; stars: number }
+			const reviewed = db.sql<Review>`
+        SELECT 1 FROM reviews
+        WHERE reviews.productId = products.id AND stars >= ${"$stars"}
+      `
+
+			const query = db.sql<Product & Review>`
+        SELECT name FROM products ${{
+					where: ["EXISTS", reviewed],
+					orderBy: { id: "ASC" },
+				}}
+      `
+			assert.deepEqual(
+				names(query.all<{ name: string }>({ stars: 4 } as Product & Review)),
+				["apple", "cherry_pie"]
+			)
+
+			const unreviewed = db.sql<Product & Review>`
+        SELECT name FROM products ${{
+					where: ["NOT EXISTS", reviewed],
+					orderBy: { id: "ASC" },
+				}}
+      `
+			assert.deepEqual(
+				names(
+					unreviewed.all<{ name: string }>({ stars: 5 } as Product & Review)
+				),
+				["banana", "cherry_pie", "cherry"]
+			)
+		})
+
+		test("expands IN lists of nested statements with the outer params", () => {
+			type Review = { productId: number; stars: number }
+			const reviewed = db.sql<Review>`
+        SELECT 1 FROM reviews ${{
+					where: [
+						["reviews.productId", "=", raw`products.id`],
+						"AND",
+						"stars IN $stars",
+					],
+				}}
+      `
+			const exists = db.sql<Product & Review>`
+        SELECT name FROM products ${{
+					where: ["EXISTS", reviewed],
+					orderBy: { id: "ASC" },
+				}}
+      `
+			assert.deepEqual(
+				names(exists.all<{ name: string }>({ stars: [2, 5] } as never)),
+				["apple", "cherry_pie"]
+			)
+
+			const selected = db.sql<Product>`
+        SELECT id FROM products ${{ where: "id IN $ids" }}
+      `
+			const interpolated = db.sql<Product>`
+        SELECT name FROM products WHERE id IN (${selected}) ORDER BY id
+      `
+			assert.deepEqual(
+				names(interpolated.all<{ name: string }>({ ids: [1, 3] } as Product)),
+				["apple", "cherry_pie"]
+			)
+		})
+
+		test("rejects array parameters that are not bound as IN lists", () => {
+			const query = db.sql<Product>`
+        SELECT name FROM products WHERE id = ${"$ids"}
+      `
+			assert.throws(
+				() => query.all({ ids: [1, 3] } as Product),
+				/Parameter 'ids' is an array/
+			)
+
+			const clashing = db.sql<Product>`
+        SELECT name FROM products ${{ where: ["id IN $ids", "OR", "id = $id"] }}
+      `
+			assert.throws(
+				() => clashing.all({ ids: [1], id: 2, ids_0: 3 } as never),
+				/Placeholder \$ids_0 for IN \$ids clashes with parameter 'ids_0'/
+			)
+		})
+	})
+})
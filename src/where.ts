@@ -6,9 +6,180 @@ import {
 	type DataRow,
 	type LogicalOperator,
 	isRawValue,
+	isWhereGroup,
+	type ExistsCondition,
 	type WhereClause,
+	type WhereExpression,
+	type WhereGroup,
+	WHERE_GROUP_OPERATORS,
+	type WhereGroupOperator,
 } from "#types"
 import { validationErr, type ValidationError } from "#validate.js"
+import { isXStatementSync } from "#sql"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+
+/**
+ * Groups conditions with AND. Nested groups are parenthesized.
+ * @example
+ * and("age > $minAge", or("role = $role", "isAdmin = $admin"))
+ */
+export function and<P extends DataRow>(
+	...conditions: NoInfer<[WhereExpression<P>, ...WhereExpression<P>[]]>
+): WhereGroup<P> {
+	return { type: "__x_where_group__", operator: "AND", conditions }
+}
+
+/**
+ * Groups conditions with OR. Nested groups are parenthesized.
+ * @example
+ * or("status = $status", "deletedAt IS NOT NULL")
+ */
+export function or<P extends DataRow>(
+	...conditions: NoInfer<[WhereExpression<P>, ...WhereExpression<P>[]]>
+): WhereGroup<P> {
+	return { type: "__x_where_group__", operator: "OR", conditions }
+}
+
+/**
+ * Negates a condition or group
+ * @example
+ * not(or("status = $status", "deletedAt IS NOT NULL"))
+ */
+export function not<P extends DataRow>(
+	condition: NoInfer<WhereExpression<P>>
+): WhereGroup<P> {
+	return { type: "__x_where_group__", operator: "NOT", conditions: [condition] }
+}
+
+function isExistsCondition(where: unknown): where is ExistsCondition {
+	return (
+		Array.isArray(where) &&
+		where.length === 2 &&
+		(where[0] === "EXISTS" || where[0] === "NOT EXISTS")
+	)
+}
+
+function validateExistsCondition(condition: unknown[]): ValidationError[] {
+	if (!isXStatementSync(condition[1])) {
+		return [
+			validationErr({
+				msg: `${condition[0]} requires an interpolated SQL statement`,
+			}),
+		]
+	}
+	return []
+}
+
+function isRawCondition(where: unknown): boolean {
+	return (
+		Array.isArray(where) &&
+		where.length === 3 &&
+		!LOGICAL_OPERATORS.includes(where[1] as LogicalOperator)
+	)
+}
+
+/**
+ * Converts any where clause into a single expression. Flat arrays are split
+ * on OR so that AND keeps its higher precedence.
+ */
+export function toWhereExpression<P extends DataRow>(
+	where: WhereClause<P>
+): WhereExpression<P> {
+	if (!Array.isArray(where) || isRawCondition(where)) {
+		return where as WhereExpression<P>
+	}
+
+	const branches: WhereExpression<P>[][] = [[]]
+	where.forEach((part, i) => {
+		if (i % 2 === 0) {
+			branches[branches.length - 1].push(part as WhereExpression<P>)
+		} else if (part === "OR") {
+			branches.push([])
+		}
+	})
+
+	const terms = branches.map(branch =>
+		branch.length === 1
+			? branch[0]
+			: and(...(branch as [WhereExpression<P>, ...WhereExpression<P>[]]))
+	)
+
+	return terms.length === 1
+		? terms[0]
+		: or(...(terms as [WhereExpression<P>, ...WhereExpression<P>[]]))
+}
+
+function validateWhereExpression(expression: unknown): ValidationError[] {
+	if (isWhereGroup(expression)) {
+		return validateWhereGroup(expression)
+	}
+
+	if (isExistsCondition(expression)) {
+		return validateExistsCondition(expression)
+	}
+
+	if (Array.isArray(expression)) {
+		if (
+			expression.length !== 3 ||
+			typeof expression[0] !== "string" ||
+			!COMPARISON_OPERATORS.includes(expression[1] as ComparisonOperator) ||
+			!isRawValue(expression[2])
+		) {
+			return [validationErr({ msg: "Invalid RawValue condition format" })]
+		}
+		return []
+	}
+
+	if (typeof expression !== "string") {
+		return [
+			validationErr({
+				msg: "Condition must be a string, RawValue condition or group",
+			}),
+		]
+	}
+
+	return validateSingleCondition(expression)
+}
+
+function validateWhereGroup<P extends DataRow>(
+	group: WhereGroup<P>
+): ValidationError[] {
+	const { operator, conditions } = group
+
+	if (!WHERE_GROUP_OPERATORS.includes(operator as WhereGroupOperator)) {
+		return [
+			validationErr({
+				msg: `Group operator must be one of ${WHERE_GROUP_OPERATORS.join(", ")}`,
+				path: "operator",
+			}),
+		]
+	}
+
+	if (!Array.isArray(conditions) || conditions.length === 0) {
+		return [
+			validationErr({
+				msg: `${operator} group must contain at least one condition`,
+				path: "conditions",
+			}),
+		]
+	}
+
+	if (operator === "NOT" && conditions.length !== 1) {
+		return [
+			validationErr({
+				msg: "NOT group must contain exactly one condition",
+				path: "conditions",
+			}),
+		]
+	}
+
+	return conditions.flatMap((condition, index) =>
+		validateWhereExpression(condition).map(err => ({
+			...err,
+			path: `conditions[${index}]${isWhereGroup(condition) && err.path ? `.${err.path}` : ""}`,
+		}))
+	)
+}
 
 export function validateWhereClause<P extends DataRow>(
 	where: WhereClause<P>
@@ -19,6 +190,14 @@ export function validateWhereClause<P extends DataRow>(
 		return validateSingleCondition(where)
 	}
 
+	if (isWhereGroup(where)) {
+		return validateWhereGroup(where)
+	}
+
+	if (isExistsCondition(where)) {
+		return validateExistsCondition(where)
+	}
+
 	// Handle tuple format for RawValue
 	if (
 		Array.isArray(where) &&
@@ -62,7 +241,21 @@ export function validateWhereClause<P extends DataRow>(
 	for (let i = 0; i < where.length; i++) {
 		if (i % 2 === 0) {
 			// Should be condition
-			if (Array.isArray(where[i])) {
+			if (isWhereGroup(where[i])) {
+				errors.push(
+					...validateWhereGroup(where[i] as WhereGroup<P>).map(err => ({
+						...err,
+						path: `[${i}]${err.path ? `.${err.path}` : ""}`,
+					}))
+				)
+			} else if (isExistsCondition(where[i])) {
+				errors.push(
+					...validateExistsCondition(where[i] as unknown[]).map(err => ({
+						...err,
+						path: `[${i}]`,
+					}))
+				)
+			} else if (Array.isArray(where[i])) {
 				// Handle RawValue condition
 				const condition = where[i] as [string, ComparisonOperator, RawValue]
 				if (condition.length !== 3 || !isRawValue(condition[2])) {
@@ -94,7 +287,13 @@ function validateSingleCondition<P extends DataRow>(
 	condition: string
 ): ValidationError[] {
 	const pattern = new RegExp(
-		`^[\\w]+\\s+(${COMPARISON_OPERATORS.join("|")})\\s+\\$[\\w->json]+$|^[\\w]+\\s+IS(\\s+NOT)?\\s+NULL$`
+		[
+			`^[\\w.]+\\s+(${COMPARISON_OPERATORS.join("|")})\\s+\\$[\\w->json]+$`,
+			"^[\\w.]+\\s+IS(\\s+NOT)?\\s+NULL$",
+			"^[\\w.]+\\s+(NOT\\s+)?BETWEEN\\s+\\$\\w+\\s+AND\\s+\\$\\w+$",
+			"^[\\w.]+\\s+(NOT\\s+)?LIKE\\s+\\$\\w+\\s+ESCAPE\\s+'[^']'$",
+			"^[\\w.]+\\s+MATCH\\s+\\$\\w+$",
+		].join("|")
 	)
 
 	if (!pattern.test(condition)) {
@@ -112,55 +311,125 @@ function validateSingleCondition<P extends DataRow>(
 export function buildWhereStatement<P extends DataRow>(
 	where: WhereClause<P>,
 	params?: P
-): { sql: string; parameterOperators: string[] } {
-	const paramOps: string[] = []
-
-	if (typeof where === "string") {
-		// Extract parameter names from where clause
-		const matches = where.match(/\$\w+/g) || []
-		paramOps.push(...matches)
-		return {
-			sql: `WHERE ${where}`,
-			parameterOperators: paramOps,
-		}
+): {
+	sql: string
+	parameterOperators: string[]
+	expandedParams: Record<string, unknown>
+} {
+	const state: WhereBuildState<P> = {
+		paramOps: [],
+		params,
+		expandedParams: {},
 	}
 
-	// Handle RawValue tuple format
-	if (
-		Array.isArray(where) &&
-		where.length === 3 &&
-		!LOGICAL_OPERATORS.includes(where[1] as (typeof LOGICAL_OPERATORS)[number])
+	let sql: string
+	if (isWhereGroup(where)) {
+		sql = buildWhereGroup(where, state, false)
+	} else if (
+		!Array.isArray(where) ||
+		isRawCondition(where) ||
+		isExistsCondition(where)
 	) {
-		const [column, operator, value] = where
-		return {
-			sql: `WHERE ${column} ${operator} ${(value as RawValue).value}`,
-			parameterOperators: [],
-		}
+		sql = buildWhereExpression(where as WhereExpression<P>, state)
+	} else {
+		// Handle array case
+		sql = where
+			.map((part, i) =>
+				i % 2 === 0
+					? buildWhereExpression(part as WhereExpression<P>, state)
+					: ` ${part} `
+			)
+			.join("")
 	}
 
-	// Handle array case
-	const conditions = where
-		.map((part, i) => {
-			if (i % 2 === 0) {
-				if (Array.isArray(part)) {
-					// Handle RawValue condition
-					const [column, operator, value] = part
-					return `${column} ${operator} ${value.value}`
-				}
-				const matches = (part as string).match(/\$\w+/g) || []
-				paramOps.push(...matches)
-				// Handle JSON operator
-				if ((part as string).includes("->json")) {
-					return (part as string).replace(/\$([\w]+)->json/, "jsonb($$$1)")
-				}
-				return part
-			}
-			return ` ${part} `
-		})
-		.join("")
-
 	return {
-		sql: `WHERE ${conditions}`,
-		parameterOperators: paramOps,
+		sql: `WHERE ${sql}`,
+		parameterOperators: state.paramOps,
+		expandedParams: state.expandedParams,
+	}
+}
+
+type WhereBuildState<P extends DataRow> = {
+	paramOps: string[]
+	params?: P
+	// Placeholders created by expanding array parameters of IN conditions
+	expandedParams: Record<string, unknown>
+}
+
+function buildWhereExpression<P extends DataRow>(
+	expression: WhereExpression<P>,
+	state: WhereBuildState<P>
+): string {
+	if (isWhereGroup(expression)) {
+		return buildWhereGroup(expression, state, true)
 	}
+
+	if (isExistsCondition(expression)) {
+		const [operator, statement] = expression
+		const subquery = statement.sql.renderNested(state.params ?? {})
+		state.paramOps.push(...subquery.parameterOperators)
+		Object.assign(state.expandedParams, subquery.expandedParams)
+		return `${operator} (${subquery.sql.trim()})`
+	}
+
+	if (Array.isArray(expression)) {
+		// Handle RawValue condition
+		const [column, operator, value] = expression
+		return `${column} ${operator} ${value.value}`
+	}
+
+	// IN binds one placeholder per array element, e.g. $ids_0, $ids_1
+	const inMatch = expression.match(/^([\w.]+)\s+(NOT\s+)?IN\s+\$(\w+)$/)
+	if (inMatch && state.params && !Array.isArray(state.params)) {
+		const [, column, negated, name] = inMatch
+		const value = state.params[name]
+		const placeholders = Array.isArray(value)
+			? value.map((item, index) => {
+					// A param of the same name would be bound in its place
+					if (Object.hasOwn(state.params as P, `${name}_${index}`)) {
+						throw new NodeSqliteError(
+							"ERR_SQLITE_PARAM",
+							SqlitePrimaryResultCode.SQLITE_ERROR,
+							"Invalid parameter",
+							`Placeholder $${name}_${index} for IN $${name} clashes with parameter '${name}_${index}'`,
+							undefined
+						)
+					}
+					const placeholder = `$${name}_${index}`
+					state.expandedParams[placeholder] = item
+					return placeholder
+				})
+			: [`$${name}`]
+		state.paramOps.push(...placeholders)
+		return `${column} ${negated ? "NOT " : ""}IN (${placeholders.join(", ")})`
+	}
+
+	const matches = expression.match(/\$\w+/g) || []
+	state.paramOps.push(...matches)
+	// Handle JSON operator
+	if (expression.includes("->json")) {
+		return expression.replace(/\$([\w]+)->json/, "jsonb($$$1)")
+	}
+	return expression
+}
+
+function buildWhereGroup<P extends DataRow>(
+	group: WhereGroup<P>,
+	state: WhereBuildState<P>,
+	nested: boolean
+): string {
+	if (group.operator === "NOT") {
+		const [condition] = group.conditions
+		const inner =
+			isWhereGroup(condition) && condition.operator !== "NOT"
+				? buildWhereGroup(condition, state, false)
+				: buildWhereExpression(condition, state)
+		return `NOT (${inner})`
+	}
+
+	const sql = group.conditions
+		.map(condition => buildWhereExpression(condition, state))
+		.join(` ${group.operator} `)
+
+	return nested && group.conditions.length > 1 ? `(${sql})` : sql
 }
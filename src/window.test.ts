@@ -0,0 +1,132 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { test, describe, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { buildColsStatement, validateSqlContext } from "#context"
+import { DB } from "#database"
+import type { WindowColumn } from "#types"
+
+interface Sale {
+	id: number
+	userId: number
+	day: number
+	total: number
+}
+
+let db: DB
+
+beforeEach(() => {
+	db = new DB({ location: ":memory:", environment: "testing" })
+	db.exec(`
+    CREATE TABLE sales (id INTEGER PRIMARY KEY, userId INTEGER, day INTEGER, total REAL);
+    INSERT INTO sales (userId, day, total) VALUES
+      (1, 1, 10), (1, 2, 30), (1, 3, 20), (2, 1, 5), (2, 2, 5);
+  `)
+})
+
+afterEach(() => {
+	db.close()
+})
+
+describe("window columns", () => {
+	test("renders inline and named windows", () => {
+		const running: WindowColumn<Sale> = {
+			fn: "sum(total)",
+			over: {
+				partitionBy: ["userId"],
+				orderBy: { day: "ASC" },
+				frame: "ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW",
+			},
+			as: "runningTotal",
+		}
+		assert.equal(
+			buildColsStatement<Sale>([
+				"id",
+				running,
+				{ fn: "lag(total, 1, 0)", over: "byDay", as: "previous" },
+			]),
+			"id, sum(total) OVER (PARTITION BY userId ORDER BY day ASC ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) AS runningTotal, lag(total, 1, 0) OVER byDay AS previous"
+		)
+	})
+
+	test("computes rankings and running totals", () => {
+		type Row = Pick<Sale, "id"> & { position: number; runningTotal: number }
+		const rows = db.sql<Sale>`
+      SELECT ${{
+				columns: [
+					"id",
+					{
+						fn: "rank()",
+						over: { base: "perUser", orderBy: { total: "DESC" } },
+						as: "position",
+					},
+					{
+						fn: "sum(total)",
+						over: { base: "perUser", orderBy: { day: "ASC" } },
+						as: "runningTotal",
+					},
+				],
+			}}
+      FROM sales
+      ${{ window: { perUser: { partitionBy: ["userId"] } }, orderBy: { id: "ASC" } }}
+    `.all<Row>()
+
+		assert.deepEqual(
+			rows.map(row => ({ ...row })),
+			[
+				{ id: 1, position: 3, runningTotal: 10 },
+				{ id: 2, position: 1, runningTotal: 40 },
+				{ id: 3, position: 2, runningTotal: 60 },
+				{ id: 4, position: 1, runningTotal: 5 },
+				{ id: 5, position: 1, runningTotal: 10 },
+			]
+		)
+	})
+
+	test("reports invalid window columns by path", () => {
+		const errors = validateSqlContext({
+			columns: [
+				"id",
+				{ fn: "rank", over: "w", as: "position" },
+				{
+					fn: "lead(total)",
+					over: { partitionBy: ["user id"], frame: "ROWS 2 AFTER" },
+					as: "next",
+				},
+				{ fn: "ntile(4)", over: { orderBy: {} }, as: "bad alias" },
+			],
+		})
+
+		assert.deepEqual(
+			errors.map(err => err.path),
+			[
+				"columns[1].fn",
+				"columns[2].over.partitionBy[0]",
+				"columns[2].over.frame",
+				"columns[3].over.orderBy",
+				"columns[3].as",
+			]
+		)
+		assert.notDeepEqual(
+			validateSqlContext({ window: { w: { frame: "ROWS", base: 1 } } }),
+			[]
+		)
+		assert.notDeepEqual(validateSqlContext({ window: {} }), [])
+	})
+
+	test("requires referenced windows to be defined", () => {
+		assert.throws(
+			() =>
+				db.sql<Sale>`
+          SELECT ${{ columns: [{ fn: "row_number()", over: "w", as: "n" }] }}
+          FROM sales
+        `.all(),
+			{
+				code: "ERR_SQLITE_QUERY",
+				message: /not defined in a "window" clause: w/,
+			}
+		)
+	})
+})
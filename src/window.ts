@@ -0,0 +1,300 @@
+// Copyright 2025 Takin Profit. All rights reserved.
+// Use of this source code is governed by a BSD-style
+// license that can be found in the LICENSE file.
+
+import { validateOrderByClause } from "#context"
+import { NodeSqliteError, SqlitePrimaryResultCode } from "#errors"
+import { isAggregateCall } from "#group-by"
+import { buildOrderByStatement } from "#order-by"
+import {
+	type DataRow,
+	RANKING_FUNCTIONS,
+	type SqlContext,
+	type WindowColumn,
+	type WindowDefinition,
+	isWindowColumn,
+} from "#types"
+import { type ValidationError, validationErr } from "#validate"
+
+const identifierRegex = /^[A-Za-z_]\w*$/
+
+const columnRefPattern = String.raw`[A-Za-z_]\w*(\.[A-Za-z_]\w*)?`
+
+const columnRefRegex = new RegExp(`^${columnRefPattern}$`)
+
+const literalPattern = String.raw`(-?\d+(\.\d+)?|'([^']|'')*'|NULL)`
+
+const windowCallRegex = new RegExp(
+	[
+		String.raw`(${RANKING_FUNCTIONS.join("|")})\(\)`,
+		String.raw`ntile\(\d+\)`,
+		String.raw`(lag|lead)\(${columnRefPattern}(\s*,\s*\d+(\s*,\s*${literalPattern})?)?\)`,
+		String.raw`(first_value|last_value)\(${columnRefPattern}\)`,
+		String.raw`nth_value\(${columnRefPattern}\s*,\s*\d+\)`,
+	]
+		.map(pattern => `^${pattern}$`)
+		.join("|")
+)
+
+const frameBoundPattern = String.raw`(UNBOUNDED\s+(PRECEDING|FOLLOWING)|CURRENT\s+ROW|\d+\s+(PRECEDING|FOLLOWING))`
+
+const frameRegex = new RegExp(
+	String.raw`^(ROWS|RANGE|GROUPS)\s+(${frameBoundPattern}|BETWEEN\s+${frameBoundPattern}\s+AND\s+${frameBoundPattern})$`
+)
+
+const prefixPath = (errors: ValidationError[], path: string) =>
+	errors.map(err => ({
+		...err,
+		path: `${path}${err.path ? `.${err.path}` : ""}`,
+	}))
+
+/**
+ * Checks whether a value is a window function call such as "rank()" or
+ * "lag(total, 1, 0)". Aggregate calls are accepted too.
+ */
+export function isWindowFunctionCall(value: string): boolean {
+	return windowCallRegex.test(value) || isAggregateCall(value)
+}
+
+export function validateWindowDefinition(value: unknown): ValidationError[] {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return [validationErr({ msg: "Window definition must be an object" })]
+	}
+
+	const errors: ValidationError[] = []
+	const { base, partitionBy, orderBy, frame, ...rest } = value as Record<
+		string,
+		unknown
+	>
+
+	for (const key of Object.keys(rest)) {
+		errors.push(
+			validationErr({ msg: `Unknown window property: ${key}`, path: key })
+		)
+	}
+
+	if (
+		base !== undefined &&
+		(typeof base !== "string" || !identifierRegex.test(base))
+	) {
+		errors.push(
+			validationErr({
+				msg: "base must be the name of a window",
+				path: "base",
+			})
+		)
+	}
+
+	if (partitionBy !== undefined) {
+		if (!Array.isArray(partitionBy) || partitionBy.length === 0) {
+			errors.push(
+				validationErr({
+					msg: "partitionBy must be a non-empty array",
+					path: "partitionBy",
+				})
+			)
+		} else {
+			partitionBy.forEach((col, index) => {
+				if (typeof col !== "string" || !columnRefRegex.test(col)) {
+					errors.push(
+						validationErr({
+							msg: `Invalid PARTITION BY column: ${String(col)}`,
+							path: `partitionBy[${index}]`,
+						})
+					)
+				}
+			})
+		}
+	}
+
+	if (orderBy !== undefined) {
+		errors.push(...prefixPath(validateOrderByClause(orderBy), "orderBy"))
+		if (
+			typeof orderBy === "object" &&
+			Object.keys(orderBy ?? {}).length === 0
+		) {
+			errors.push(
+				validationErr({ msg: "orderBy must not be empty", path: "orderBy" })
+			)
+		}
+	}
+
+	if (
+		frame !== undefined &&
+		(typeof frame !== "string" || !frameRegex.test(frame))
+	) {
+		errors.push(
+			validationErr({
+				msg: `Invalid window frame: ${String(frame)}`,
+				path: "frame",
+			})
+		)
+	}
+
+	return errors
+}
+
+export function validateWindowColumn(value: unknown): ValidationError[] {
+	if (!isWindowColumn(value)) {
+		return [validationErr({ msg: "Window column must have fn, over and as" })]
+	}
+
+	const errors: ValidationError[] = []
+	const { fn, over, as } = value as Record<string, unknown>
+
+	if (typeof fn !== "string" || !isWindowFunctionCall(fn)) {
+		errors.push(
+			validationErr({
+				msg: `Invalid window function call: ${String(fn)}`,
+				path: "fn",
+			})
+		)
+	}
+
+	if (typeof over === "string") {
+		if (!identifierRegex.test(over)) {
+			errors.push(
+				validationErr({
+					msg: `Invalid window name: ${over}`,
+					path: "over",
+				})
+			)
+		}
+	} else {
+		errors.push(...prefixPath(validateWindowDefinition(over), "over"))
+	}
+
+	if (typeof as !== "string" || !identifierRegex.test(as)) {
+		errors.push(
+			validationErr({
+				msg: "as must be a valid identifier",
+				path: "as",
+			})
+		)
+	}
+
+	return errors
+}
+
+export function validateWindowClause(value: unknown): ValidationError[] {
+	if (
+		typeof value !== "object" ||
+		value === null ||
+		Array.isArray(value) ||
+		Object.keys(value).length === 0
+	) {
+		return [
+			validationErr({
+				msg: "window must be an object mapping names to window definitions",
+			}),
+		]
+	}
+
+	return Object.entries(value).flatMap(([name, def]) => [
+		...(identifierRegex.test(name)
+			? []
+			: [validationErr({ msg: `Invalid window name: ${name}`, path: name })]),
+		...prefixPath(validateWindowDefinition(def), name),
+	])
+}
+
+/**
+ * Returns the names of the windows the contexts define and the ones their
+ * columns and window definitions refer to
+ */
+export function windowNames<P extends DataRow, R>(
+	contexts: SqlContext<P, R>[]
+): { defined: Set<string>; referenced: Set<string> } {
+	const defined = new Set<string>()
+	const referenced = new Set<string>()
+	const reference = (over: unknown) => {
+		if (typeof over === "string") {
+			referenced.add(over)
+		} else if (typeof (over as WindowDefinition<P>)?.base === "string") {
+			referenced.add((over as WindowDefinition<P>).base as string)
+		}
+	}
+
+	for (const context of contexts) {
+		if (Array.isArray(context.columns)) {
+			for (const col of context.columns) {
+				if (isWindowColumn(col)) {
+					reference(col.over)
+				}
+			}
+		}
+		for (const [name, def] of Object.entries(context.window ?? {})) {
+			defined.add(name)
+			reference(def)
+		}
+	}
+
+	return { defined, referenced }
+}
+
+function throwInvalid(what: string, errors: ValidationError[]): never {
+	throw new NodeSqliteError(
+		"ERR_SQLITE_PARAM",
+		SqlitePrimaryResultCode.SQLITE_ERROR,
+		`Invalid ${what}`,
+		errors.map(e => e.message).join("\n"),
+		undefined
+	)
+}
+
+function buildWindowDefinition<P extends DataRow>(
+	def: WindowDefinition<P>
+): string {
+	const parts: string[] = []
+	if (def.base) {
+		parts.push(def.base)
+	}
+	if (def.partitionBy) {
+		parts.push(`PARTITION BY ${def.partitionBy.join(", ")}`)
+	}
+	if (def.orderBy) {
+		parts.push(buildOrderByStatement(def.orderBy))
+	}
+	if (def.frame) {
+		parts.push(def.frame)
+	}
+	return `(${parts.join(" ")})`
+}
+
+/**
+ * Builds a window function column, e.g.
+ * "rank() OVER (PARTITION BY userId ORDER BY total DESC) AS position"
+ * @throws {NodeSqliteError} With code ERR_SQLITE_PARAM if the column is
+ * invalid
+ */
+export function buildWindowColumn<P extends DataRow>(
+	col: WindowColumn<P>
+): string {
+	const errors = validateWindowColumn(col)
+	if (errors.length > 0) {
+		throwInvalid("window column", errors)
+	}
+
+	const over =
+		typeof col.over === "string" ? col.over : buildWindowDefinition(col.over)
+	return `${col.fn} OVER ${over} AS ${col.as}`
+}
+
+/**
+ * Builds a WINDOW clause naming window definitions for columns to share
+ * @throws {NodeSqliteError} With code ERR_SQLITE_PARAM if a definition is
+ * invalid
+ */
+export function buildWindowStatement<P extends DataRow>(
+	clause: Record<string, WindowDefinition<P>>
+): string {
+	const errors = validateWindowClause(clause)
+	if (errors.length > 0) {
+		throwInvalid("window clause", errors)
+	}
+
+	const windows = Object.entries(clause).map(
+		([name, def]) => `${name} AS ${buildWindowDefinition(def)}`
+	)
+	return `WINDOW ${windows.join(",\n  ")}`
+}
@@ -5,7 +5,10 @@
 import { defineConfig } from "tsup"
 
 export default defineConfig({
-	entry: ["src/index.ts"],
+	// The AsyncDB worker is loaded by path, so it is built as its own entry
+	entry: ["src/index.ts", "src/typegen-cli.ts", "src/async-worker.ts"],
+	// import.meta.url locates the worker from the CommonJS build too
+	shims: true,
 	sourcemap: true,
 	clean: true,
 	format: ["cjs", "esm"],